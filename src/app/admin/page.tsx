@@ -1,45 +1,181 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
+import { Fragment, useEffect, useMemo, useState } from "react";
 import {
   Timestamp,
   collection,
+  deleteDoc,
   doc,
   limit,
   onSnapshot,
   orderBy,
   query,
   serverTimestamp,
+  setDoc,
   updateDoc,
   writeBatch,
 } from "firebase/firestore";
 import { firebaseConfigError, firestoreDb } from "@/lib/firebase";
-import { defaultSiteContent, SiteContent } from "@/lib/site-content";
+import { defaultSiteContent, normalizeSiteContent, SiteContent, SiteFleetItem } from "@/lib/site-content";
+import { ADMIN_PIN_HEADER } from "@/lib/admin-api";
+import { AddOn, BookedAddOn } from "@/lib/add-ons";
+import { BookingRules, defaultBookingRules, minNoticeHoursFor, normalizeBookingRules } from "@/lib/booking-rules";
+import { AirportPickup } from "@/lib/airports";
+import { holdLapsed, shiftDate } from "@/lib/availability";
+import { nowInNewYork } from "@/lib/booking-request";
+import { FlightStatus } from "@/lib/flight-status";
+import { GroupVehicleLine } from "@/lib/group-bookings";
+import {
+  BOOKING_STATUSES,
+  BookingStatus,
+  ChangeRequest,
+  OfflinePayment,
+  OvertimeCharge,
+  PaymentStatus,
+  RefundRecord,
+  RESUMABLE_PAYMENT_STATUSES,
+  ReturnLeg,
+} from "@/lib/bookings";
+import { formatPhoneNumber } from "@/lib/contact-details";
+import {
+  BookedPlace,
+  defaultGazetteer,
+  Gazetteer,
+  normalizeGazetteer,
+  Place,
+  PLACE_CATEGORY_LABELS,
+  PlaceCategory,
+} from "@/lib/places";
+import { formatPickupInstant, pickupInstant } from "@/lib/pickup-instant";
+import { FareLine, ItineraryStop, RouteEstimate } from "@/lib/pricing";
+import {
+  BookingQuote,
+  DEFAULT_QUOTE_VALID_DAYS,
+  isQuoteStatus,
+  MAX_QUOTE_LINES,
+  QuoteDraft,
+  quoteDraftIssue,
+  quoteDraftTotal,
+} from "@/lib/quotes";
+import { defaultPricingConfig, normalizePricingConfig, PricingConfig } from "@/lib/pricing-config";
+import { normalizePromoCode, normalizePromoCodeInput, PromoCode, PromoDiscountType } from "@/lib/promo-codes";
+import {
+  RECURRENCE_FREQUENCY_LABELS,
+  RecurrenceFrequency,
+  SERIES_PAYMENT_LABELS,
+  SeriesPaymentMode,
+} from "@/lib/recurrence";
+import { SERVICE_ZONES } from "@/lib/service-zones";
+import { SURCHARGE_KIND_LABELS, SurchargeRule, SurchargeRuleKind } from "@/lib/surcharges";
 
-type BookingStatus = "pending" | "confirmed" | "completed" | "cancelled";
-type PaymentStatus = "unpaid" | "paid" | "refunded";
 type ContentVersionAction = "save" | "restore";
-type AdminSection = "overview" | "bookings" | "home" | "booking" | "fleet" | "versions";
+type BookingView = "upcoming" | "past" | "all";
+type AdminSection =
+  | "overview"
+  | "bookings"
+  | "rules"
+  | "places"
+  | "home"
+  | "booking"
+  | "fleet"
+  | "versions"
+  | "surcharges"
+  | "addons"
+  | "promos";
 
 type BookingRecord = {
   id: string;
+  referenceCode?: string;
   customerName: string;
   customerEmail: string;
   customerPhone: string;
   tripType: "one-way" | "round-trip" | "hourly";
   serviceDate: string;
   pickupTime: string;
+  pickupAt?: Timestamp | null;
+  returnPickupAt?: Timestamp | null;
+  hours?: number | null;
+  billableHours?: number | null;
   pickupAddress: string;
   dropoffAddress: string;
+  pickupPlace?: BookedPlace | null;
+  dropoffPlace?: BookedPlace | null;
   vehicleName: string;
   passengers: number;
+  luggage?: number;
   estimatedFare: number;
+  fareBreakdown?: FareLine[];
+  promoCode?: string | null;
+  discountAmount?: number;
+  amountDue?: number;
+  routeEstimate?: RouteEstimate | null;
+  stops?: ItineraryStop[];
+  airportPickup?: AirportPickup | null;
+  addOns?: BookedAddOn[];
+  flightStatus?: FlightStatus | null;
   status: BookingStatus;
   paymentStatus: PaymentStatus;
+  stripePaymentIntentId?: string;
+  amountPaid?: number;
+  amountRefunded?: number;
+  refunds?: RefundRecord[];
+  offlinePayment?: OfflinePayment | null;
+  overtimeCharges?: Record<string, OvertimeCharge>;
+  returnLeg?: ReturnLeg | null;
+  changeRequests?: ChangeRequest[];
+  specialInstructions?: string;
+  seriesId?: string;
+  seriesLeadBookingId?: string;
+  seriesFrequency?: RecurrenceFrequency;
+  seriesPaymentMode?: SeriesPaymentMode;
+  occurrenceIndex?: number;
+  occurrenceCount?: number;
+  groupVehicles?: GroupVehicleLine[] | null;
+  groupUnitCount?: number;
+  groupParentBookingId?: string;
+  groupReferenceCode?: string;
+  groupUnitIndex?: number;
+  assignment?: string;
+  quote?: BookingQuote | null;
+  amountAuthorized?: number;
+  authorizationExpiresAt?: string;
+  holdExpiresAt?: string | null;
   createdAt?: Timestamp;
 };
 
+type RefundDraft = {
+  bookingId: string;
+  amount: number;
+  reason: string;
+};
+
+type OfflinePaymentDraft = {
+  bookingId: string;
+  action: "record" | "undo";
+  reason: string;
+  recordedBy: string;
+};
+
+type OvertimeDraft = {
+  bookingId: string;
+  minutes: number;
+  reason: string;
+};
+
+type AdminQuoteDraft = QuoteDraft & {
+  bookingId: string;
+};
+
+type SeriesDraft = {
+  seriesId: string;
+  bookingId: string;
+  scope: "series" | "occurrence";
+  serviceDate: string;
+  pickupTime: string;
+  specialInstructions: string;
+};
+
 type SiteContentVersion = {
   id: string;
   snapshot: SiteContent;
@@ -50,52 +186,126 @@ type SiteContentVersion = {
   sourceVersionId?: string;
 };
 
-const BOOKING_STATUSES: BookingStatus[] = ["pending", "confirmed", "completed", "cancelled"];
-const PAYMENT_STATUSES: PaymentStatus[] = ["unpaid", "paid", "refunded"];
+const SURCHARGE_KINDS = Object.keys(SURCHARGE_KIND_LABELS) as SurchargeRuleKind[];
+const AIRPORT_ZONES = SERVICE_ZONES.filter((zone) => zone.id.endsWith("-airport"));
+const EMPTY_PROMO_DRAFT: PromoCode = {
+  code: "",
+  description: "",
+  discountType: "percent",
+  amount: 10,
+  expiresOn: "",
+  maxRedemptions: 0,
+  redemptionCount: 0,
+  vehicleIds: [],
+  active: true,
+};
 const ADMIN_PIN = "1844";
 const PIN_SESSION_KEY = "wny-admin-pin-ok";
 
+function splitList(value: string) {
+  return value.split(",");
+}
+
+function cleanList(values: string[]) {
+  return values.map((value) => value.trim()).filter(Boolean);
+}
+
+function surchargeRuleIssue(rule: SurchargeRule) {
+  if (!rule.label.trim()) return "Label is required.";
+  if (!(rule.amount > 0)) return "Amount must be greater than 0.";
+  if (rule.amountType === "percent" && rule.amount > 100) return "Percent cannot exceed 100.";
+  if (rule.kind === "late-night" && (!rule.startTime || !rule.endTime)) return "Start and end time are required.";
+  if (rule.kind === "holiday" && cleanList(rule.dates).length === 0) return "Add at least one date.";
+  if (rule.kind === "airport" && rule.zoneIds.length === 0) return "Select at least one airport.";
+  if (rule.kind === "toll" && cleanList(rule.keywords).length === 0) return "Add at least one address keyword.";
+  return null;
+}
+
+function bookingRulesIssue(rules: BookingRules) {
+  const notices = [rules.defaultMinNoticeHours, ...Object.values(rules.minNoticeHours)];
+  if (notices.some((hours) => !(hours >= 0))) return "Minimum notice cannot be negative.";
+  if (!(rules.maxAdvanceDays >= 1)) return "Bookings must open at least 1 day ahead.";
+  if (!/^\d{2}:\d{2}$/.test(rules.openTime) || !/^\d{2}:\d{2}$/.test(rules.closeTime)) {
+    return "Operating hours need an opening and closing time.";
+  }
+  if (rules.blackoutDates.some((blackout) => !/^\d{4}-\d{2}-\d{2}$/.test(blackout.date))) {
+    return "Every blackout needs a date.";
+  }
+  return null;
+}
+
+function placeIssue(place: Place) {
+  if (!place.name.trim()) return "Name is required.";
+  if (!place.address.trim()) return "Street address is required.";
+  if (!(Math.abs(place.point.lat) <= 90) || !(Math.abs(place.point.lng) <= 180)) {
+    return "Latitude must be within ±90 and longitude within ±180.";
+  }
+  if (place.point.lat === 0 && place.point.lng === 0) return "Enter the place's coordinates.";
+  return null;
+}
+
+function hourlyIssue(item: SiteFleetItem) {
+  if (!(Number(item.hourlyRate) > 0)) return "Hourly Rate must be greater than $0.";
+  if (!(Number(item.minimumHours) >= 1)) return "Minimum Hours must be at least 1.";
+  if (!(Number(item.overtimeRate) > 0)) return "Overtime Rate must be greater than $0.";
+  if (!Number.isInteger(Number(item.overtimeIncrementMinutes)) || !(Number(item.overtimeIncrementMinutes) >= 1)) {
+    return "Overtime increment must be a whole number of minutes.";
+  }
+  return null;
+}
+
+function inventoryIssue(item: SiteFleetItem) {
+  if (!Number.isInteger(Number(item.units)) || !(Number(item.units) >= 0)) return "Units must be a whole number.";
+  if (!(Number(item.typicalTripMinutes) >= 15)) return "Typical trip must be at least 15 minutes.";
+  return null;
+}
+
+function addOnIssue(addOn: AddOn) {
+  if (!addOn.name.trim()) return "Name is required.";
+  if (!(addOn.price > 0)) return "Price must be greater than $0.";
+  if (!(addOn.maxQuantity >= 1)) return "Max quantity must be at least 1.";
+  return null;
+}
+
+const BOOKING_VIEW_LABELS: Record<BookingView, string> = {
+  upcoming: "Upcoming pickups (soonest first)",
+  past: "Past pickups (latest first)",
+  all: "All bookings (newest first)",
+};
+
+// Bookings not yet backfilled with `pickupAt` fall back to reading their Buffalo date and time.
+function bookingPickup(booking: BookingRecord) {
+  return booking.pickupAt?.toDate() ?? pickupInstant(booking.serviceDate, booking.pickupTime);
+}
+
+function formatBookingPickup(booking: BookingRecord) {
+  const pickup = bookingPickup(booking);
+  return pickup ? formatPickupInstant(pickup) : `${booking.serviceDate || "—"} ${booking.pickupTime || ""}`.trim();
+}
+
 function formatTripType(tripType: BookingRecord["tripType"]) {
   if (tripType === "round-trip") return "Round Trip";
   if (tripType === "hourly") return "Hourly";
   return "One Way";
 }
 
-function normalizeSiteContent(data?: Partial<SiteContent>) {
-  return {
-    home: {
-      ...defaultSiteContent.home,
-      ...(data?.home ?? {}),
-    },
-    booking: {
-      ...defaultSiteContent.booking,
-      ...(data?.booking ?? {}),
-    },
-    fleet: (data?.fleet ?? defaultSiteContent.fleet).map((item, index) => {
-      const fallback = defaultSiteContent.fleet[index] ?? defaultSiteContent.fleet[0];
-      return {
-        id: item.id ?? fallback.id,
-        name: item.name ?? fallback.name,
-        type: item.type ?? fallback.type,
-        seats: item.seats ?? fallback.seats,
-        luggage: item.luggage ?? fallback.luggage,
-        image: item.image ?? fallback.image,
-        description: item.description ?? fallback.description,
-        baseFare: Number(item.baseFare ?? fallback.baseFare),
-      };
-    }),
-  };
-}
-
 export default function AdminPage() {
   const [pinInput, setPinInput] = useState("");
   const [pinError, setPinError] = useState("");
   const [isPinUnlocked, setIsPinUnlocked] = useState(false);
+  const [adminPin, setAdminPin] = useState("");
 
   const [bookings, setBookings] = useState<BookingRecord[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [savingId, setSavingId] = useState<string>("");
+  const [refundDraft, setRefundDraft] = useState<RefundDraft | null>(null);
+  const [offlinePaymentDraft, setOfflinePaymentDraft] = useState<OfflinePaymentDraft | null>(null);
+  const [overtimeDraft, setOvertimeDraft] = useState<OvertimeDraft | null>(null);
+  const [quoteDraft, setQuoteDraft] = useState<AdminQuoteDraft | null>(null);
+  const [seriesDraft, setSeriesDraft] = useState<SeriesDraft | null>(null);
+  const [copiedPaymentLinkId, setCopiedPaymentLinkId] = useState("");
+  const [bookingView, setBookingView] = useState<BookingView>("upcoming");
 
   const [contentDraft, setContentDraft] = useState<SiteContent>(defaultSiteContent);
   const [contentSaving, setContentSaving] = useState(false);
@@ -106,18 +316,73 @@ export default function AdminPage() {
   const [restoringVersionId, setRestoringVersionId] = useState<string>("");
   const [imageLoadErrors, setImageLoadErrors] = useState<Record<string, boolean>>({});
   const [activeSection, setActiveSection] = useState<AdminSection>("overview");
+  const [pricingDraft, setPricingDraft] = useState<PricingConfig>(defaultPricingConfig);
+  const [pricingSaving, setPricingSaving] = useState(false);
+  const [rulesDraft, setRulesDraft] = useState<BookingRules>(defaultBookingRules);
+  const [rulesSaving, setRulesSaving] = useState(false);
+  const [gazetteerDraft, setGazetteerDraft] = useState<Gazetteer>(defaultGazetteer);
+  const [gazetteerSaving, setGazetteerSaving] = useState(false);
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [promoDraft, setPromoDraft] = useState<PromoCode>(EMPTY_PROMO_DRAFT);
+  const [promoSavingCode, setPromoSavingCode] = useState<string>("");
+
+  // Each vehicle of a group booking is its own booking for dispatch; it is listed under its
+  // parent rather than as a row of its own, and never counted twice in the totals.
+  const customerBookings = useMemo(
+    () => bookings.filter((booking) => !booking.groupParentBookingId),
+    [bookings],
+  );
+
+  const groupUnitsByParent = useMemo(() => {
+    const units = new Map<string, BookingRecord[]>();
+
+    for (const booking of bookings) {
+      if (booking.groupParentBookingId) {
+        units.set(booking.groupParentBookingId, [...(units.get(booking.groupParentBookingId) ?? []), booking]);
+      }
+    }
+
+    for (const list of units.values()) {
+      list.sort((first, second) => (first.groupUnitIndex ?? 0) - (second.groupUnitIndex ?? 0));
+    }
+
+    return units;
+  }, [bookings]);
 
   const totalPending = useMemo(
-    () => bookings.filter((booking) => booking.status === "pending").length,
-    [bookings],
+    () => customerBookings.filter((booking) => booking.status === "pending").length,
+    [customerBookings],
   );
 
+  // Bookings arrive newest first; the pickup views re-sort by the stored pickup instant.
+  const visibleBookings = useMemo(() => {
+    if (bookingView === "all") {
+      return customerBookings;
+    }
+
+    const now = Date.now();
+    const withPickup = customerBookings.flatMap((booking) => {
+      const pickup = bookingPickup(booking);
+      return pickup ? [{ booking, time: pickup.getTime() }] : [];
+    });
+
+    return bookingView === "upcoming"
+      ? withPickup
+          .filter((entry) => entry.time >= now)
+          .sort((first, second) => first.time - second.time)
+          .map((entry) => entry.booking)
+      : withPickup
+          .filter((entry) => entry.time < now)
+          .sort((first, second) => second.time - first.time)
+          .map((entry) => entry.booking);
+  }, [customerBookings, bookingView]);
+
   const totalRevenue = useMemo(
     () =>
-      bookings
+      customerBookings
         .filter((booking) => booking.paymentStatus === "paid")
         .reduce((total, booking) => total + Number(booking.estimatedFare || 0), 0),
-    [bookings],
+    [customerBookings],
   );
 
   const invalidPriceItems = useMemo(
@@ -144,11 +409,46 @@ export default function AdminPage() {
     [contentDraft.fleet, imageLoadErrors],
   );
 
-  const hasFleetValidationErrors = invalidPriceItems.length > 0 || invalidPhotoItems.length > 0;
+  const invalidHourlyItems = useMemo(
+    () =>
+      contentDraft.fleet.filter((item) => hourlyIssue(item) !== null),
+    [contentDraft.fleet],
+  );
+
+  const invalidCapacityItems = useMemo(
+    () =>
+      contentDraft.fleet.filter(
+        (item) => !(Number(item.maxPassengers) >= 1) || !(Number(item.maxLuggage) >= 0),
+      ),
+    [contentDraft.fleet],
+  );
+
+  const invalidInventoryItems = useMemo(
+    () => contentDraft.fleet.filter((item) => inventoryIssue(item) !== null),
+    [contentDraft.fleet],
+  );
+
+  const hasFleetValidationErrors =
+    invalidPriceItems.length > 0 ||
+    invalidPhotoItems.length > 0 ||
+    invalidHourlyItems.length > 0 ||
+    invalidCapacityItems.length > 0 ||
+    invalidInventoryItems.length > 0;
+
+  const invalidSurchargeRules = useMemo(
+    () => pricingDraft.surchargeRules.filter((rule) => surchargeRuleIssue(rule) !== null),
+    [pricingDraft.surchargeRules],
+  );
+
+  const invalidAddOns = useMemo(
+    () => pricingDraft.addOns.filter((addOn) => addOnIssue(addOn) !== null),
+    [pricingDraft.addOns],
+  );
 
   useEffect(() => {
-    const savedPinState = window.sessionStorage.getItem(PIN_SESSION_KEY);
-    if (savedPinState === "1") {
+    const savedPin = window.sessionStorage.getItem(PIN_SESSION_KEY);
+    if (savedPin === ADMIN_PIN) {
+      setAdminPin(savedPin);
       setIsPinUnlocked(true);
     }
   }, []);
@@ -212,6 +512,81 @@ export default function AdminPage() {
     return () => unsubscribe();
   }, [isPinUnlocked]);
 
+  useEffect(() => {
+    if (!isPinUnlocked || !firestoreDb) {
+      return;
+    }
+
+    const pricingRef = doc(firestoreDb, "pricingConfig", "main");
+
+    const unsubscribe = onSnapshot(pricingRef, (snapshot) => {
+      setPricingDraft(
+        snapshot.exists()
+          ? normalizePricingConfig(snapshot.data() as Partial<PricingConfig>)
+          : defaultPricingConfig,
+      );
+    });
+
+    return () => unsubscribe();
+  }, [isPinUnlocked]);
+
+  useEffect(() => {
+    if (!isPinUnlocked || !firestoreDb) {
+      return;
+    }
+
+    const rulesRef = doc(firestoreDb, "bookingRules", "main");
+
+    const unsubscribe = onSnapshot(rulesRef, (snapshot) => {
+      setRulesDraft(
+        snapshot.exists()
+          ? normalizeBookingRules(snapshot.data() as Partial<BookingRules>)
+          : defaultBookingRules,
+      );
+    });
+
+    return () => unsubscribe();
+  }, [isPinUnlocked]);
+
+  useEffect(() => {
+    if (!isPinUnlocked || !firestoreDb) {
+      return;
+    }
+
+    const gazetteerRef = doc(firestoreDb, "gazetteer", "main");
+
+    const unsubscribe = onSnapshot(gazetteerRef, (snapshot) => {
+      setGazetteerDraft(
+        snapshot.exists() ? normalizeGazetteer(snapshot.data() as Partial<Gazetteer>) : defaultGazetteer,
+      );
+    });
+
+    return () => unsubscribe();
+  }, [isPinUnlocked]);
+
+  useEffect(() => {
+    if (!isPinUnlocked || !firestoreDb) {
+      setPromoCodes([]);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestoreDb, "promoCodes"), orderBy("createdAt", "desc")),
+      (snapshot) => {
+        setPromoCodes(
+          snapshot.docs.map((promoDoc) =>
+            normalizePromoCode(promoDoc.id, promoDoc.data() as Partial<PromoCode>),
+          ),
+        );
+      },
+      (snapshotError) => {
+        setContentError(snapshotError.message);
+      },
+    );
+
+    return () => unsubscribe();
+  }, [isPinUnlocked]);
+
   useEffect(() => {
     if (!isPinUnlocked) {
       setContentVersions([]);
@@ -300,12 +675,14 @@ export default function AdminPage() {
     }
 
     setIsPinUnlocked(true);
-    window.sessionStorage.setItem(PIN_SESSION_KEY, "1");
+    setAdminPin(pinInput.trim());
+    window.sessionStorage.setItem(PIN_SESSION_KEY, pinInput.trim());
     setPinInput("");
   }
 
   function lockAdmin() {
     setIsPinUnlocked(false);
+    setAdminPin("");
     setPinInput("");
     setPinError("");
     window.sessionStorage.removeItem(PIN_SESSION_KEY);
@@ -322,10 +699,24 @@ export default function AdminPage() {
       return;
     }
 
+    const booking = bookings.find((item) => item.id === bookingId);
+    const movesCardHold =
+      (booking?.paymentStatus === "authorized" && (status === "confirmed" || status === "cancelled")) ||
+      (booking?.paymentStatus === "authorization_expired" && status === "confirmed");
+    const cancelsGroup = Boolean(booking?.groupVehicles) && status === "cancelled";
+
     try {
       setSavingId(`${bookingId}:status`);
       setError("");
-      await updateDoc(doc(firestoreDb, "bookings", bookingId), { status });
+
+      // Confirming captures an authorized card and cancelling releases it, so those go through Stripe;
+      // the server also refuses to confirm a booking whose hold expired.
+      // Cancelling a group booking also cancels its vehicles on the server.
+      if (movesCardHold || cancelsGroup) {
+        await postAdminApi(`/api/admin/bookings/${bookingId}/status`, { status });
+      } else {
+        await updateDoc(doc(firestoreDb, "bookings", bookingId), { status });
+      }
     } catch (updateError) {
       setError(updateError instanceof Error ? updateError.message : "Unable to update booking status.");
     } finally {
@@ -333,21 +724,26 @@ export default function AdminPage() {
     }
   }
 
-  async function updatePaymentStatus(bookingId: string, paymentStatus: PaymentStatus) {
-    if (!isPinUnlocked) {
-      setError("Admin PIN is required.");
+  // Only payments taken outside Stripe are set by hand, and the server keeps who recorded them and why.
+  async function submitOfflinePayment() {
+    if (!offlinePaymentDraft) {
       return;
     }
 
-    if (!firestoreDb) {
-      setError(firebaseConfigError ?? "Firebase is not configured.");
+    if (!offlinePaymentDraft.reason.trim() || !offlinePaymentDraft.recordedBy.trim()) {
+      setError("Enter how the payment was taken and your name.");
       return;
     }
 
     try {
-      setSavingId(`${bookingId}:payment`);
+      setSavingId(`${offlinePaymentDraft.bookingId}:payment`);
       setError("");
-      await updateDoc(doc(firestoreDb, "bookings", bookingId), { paymentStatus });
+      await postAdminApi(`/api/admin/bookings/${offlinePaymentDraft.bookingId}/payment`, {
+        action: offlinePaymentDraft.action,
+        reason: offlinePaymentDraft.reason,
+        recordedBy: offlinePaymentDraft.recordedBy,
+      });
+      setOfflinePaymentDraft(null);
     } catch (updateError) {
       setError(updateError instanceof Error ? updateError.message : "Unable to update payment status.");
     } finally {
@@ -355,156 +751,735 @@ export default function AdminPage() {
     }
   }
 
-  function updateHomeField<K extends keyof SiteContent["home"]>(
-    field: K,
-    value: SiteContent["home"][K],
-  ) {
-    setContentDraft((previous) => ({
-      ...previous,
-      home: {
-        ...previous.home,
-        [field]: value,
-      },
-    }));
-  }
-
-  function updateBookingField<K extends keyof SiteContent["booking"]>(
-    field: K,
-    value: SiteContent["booking"][K],
-  ) {
-    setContentDraft((previous) => ({
-      ...previous,
-      booking: {
-        ...previous.booking,
-        [field]: value,
-      },
-    }));
-  }
-
-  function updateFleetField(
-    index: number,
-    field: keyof SiteContent["fleet"][number],
-    value: string | number,
-  ) {
-    const itemId = contentDraft.fleet[index]?.id;
-
-    if (field === "image" && itemId) {
-      setImageLoadErrors((previous) => ({
-        ...previous,
-        [itemId]: false,
-      }));
-    }
-
-    setContentDraft((previous) => ({
-      ...previous,
-      fleet: previous.fleet.map((item, itemIndex) =>
-        itemIndex === index
-          ? {
-              ...item,
-              [field]:
-                field === "baseFare"
-                  ? Math.max(0, Number.isFinite(Number(value)) ? Number(value) : 0)
-                  : value,
-            }
-          : item,
-      ),
-    }));
-  }
-
-  async function saveContentDraft() {
-    if (!isPinUnlocked) {
-      setContentError("Admin PIN is required.");
-      return;
-    }
-
-    if (hasFleetValidationErrors) {
-      const issues: string[] = [];
-
-      if (invalidPriceItems.length > 0) {
-        issues.push(`Prices must be greater than $0 for: ${invalidPriceItems.map((item) => item.id).join(", ")}`);
-      }
-
-      if (invalidPhotoItems.length > 0) {
-        issues.push(`Valid Photo URL is required for: ${invalidPhotoItems.map((item) => item.id).join(", ")}`);
-      }
-
-      setContentError(`Cannot save yet. ${issues.join(". ")}.`);
+  // Overtime is paid through its own Stripe link, which is copied for the customer once it opens.
+  async function submitOvertime() {
+    if (!overtimeDraft) {
       return;
     }
 
-    if (!firestoreDb) {
-      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+    if (!(overtimeDraft.minutes >= 1)) {
+      setError("Enter the overtime in minutes.");
       return;
     }
 
     try {
-      setContentSaving(true);
-      setContentMessage("");
-      setContentError("");
-
-      const batch = writeBatch(firestoreDb);
-      const contentRef = doc(firestoreDb, "siteContent", "main");
-      const versionRef = doc(collection(firestoreDb, "siteContentVersions"));
+      setSavingId(`${overtimeDraft.bookingId}:overtime`);
+      setError("");
 
-      batch.set(
-        contentRef,
-        {
-          ...contentDraft,
-          updatedAt: serverTimestamp(),
-          updatedByUid: "pin-admin",
-          updatedByEmail: "pin-admin",
-        },
-        { merge: true },
+      const result = await postAdminApi<{ overtimeCharge: OvertimeCharge }>(
+        `/api/admin/bookings/${overtimeDraft.bookingId}/overtime`,
+        { minutes: overtimeDraft.minutes, reason: overtimeDraft.reason },
       );
 
-      batch.set(versionRef, {
-        snapshot: contentDraft,
-        action: "save",
-        createdAt: serverTimestamp(),
-        createdByUid: "pin-admin",
-        createdByEmail: "pin-admin",
-      });
-
-      await batch.commit();
-
-      setContentMessage("Website content saved successfully. Version snapshot created.");
-    } catch (saveError) {
-      setContentError(
-        saveError instanceof Error ? saveError.message : "Unable to save website content.",
-      );
+      setOvertimeDraft(null);
+      await copyOvertimeLink(overtimeDraft.bookingId, result.overtimeCharge);
+    } catch (overtimeError) {
+      setError(overtimeError instanceof Error ? overtimeError.message : "Unable to charge overtime.");
     } finally {
-      setContentSaving(false);
+      setSavingId("");
     }
   }
 
-  async function restoreContentVersion(versionId: string, snapshot: SiteContent) {
+  async function copyOvertimeLink(bookingId: string, charge: OvertimeCharge) {
+    try {
+      await navigator.clipboard.writeText(charge.checkoutUrl);
+      setCopiedPaymentLinkId(`${bookingId}:${charge.id}`);
+    } catch {
+      window.prompt("Copy this overtime payment link for the customer:", charge.checkoutUrl);
+    }
+  }
+
+  async function updateAssignment(bookingId: string, assignment: string) {
     if (!isPinUnlocked) {
-      setContentError("Admin PIN is required.");
+      setError("Admin PIN is required.");
       return;
     }
 
     if (!firestoreDb) {
-      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      setError(firebaseConfigError ?? "Firebase is not configured.");
       return;
     }
 
-    if (!window.confirm("Restore this version? This will replace current website content.")) {
+    try {
+      setSavingId(`${bookingId}:assignment`);
+      setError("");
+      await updateDoc(doc(firestoreDb, "bookings", bookingId), { assignment: assignment.trim() });
+    } catch (updateError) {
+      setError(updateError instanceof Error ? updateError.message : "Unable to save the assignment.");
+    } finally {
+      setSavingId("");
+    }
+  }
+
+  async function postAdminApi<T>(path: string, body: unknown): Promise<T> {
+    const response = await fetch(path, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        [ADMIN_PIN_HEADER]: adminPin,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = (await response.json()) as T & { error?: string };
+
+    if (!response.ok) {
+      throw new Error(data.error ?? `Request failed with status ${response.status}.`);
+    }
+
+    return data;
+  }
+
+  async function backfillPickupInstants() {
+    try {
+      setSavingId("migration:pickup-instants");
+      setError("");
+      setContentMessage("");
+      const result = await postAdminApi<{ scanned: number; updated: number; skipped: number }>(
+        "/api/admin/migrations/pickup-instants",
+        {},
+      );
+      setContentMessage(
+        `Pickup times backfilled: ${result.updated} of ${result.scanned} bookings updated` +
+          (result.skipped > 0 ? `, ${result.skipped} without a readable date and time.` : "."),
+      );
+    } catch (migrationError) {
+      setError(migrationError instanceof Error ? migrationError.message : "Unable to backfill pickup times.");
+    } finally {
+      setSavingId("");
+    }
+  }
+
+  async function checkFlightStatus(bookingId: string) {
+    try {
+      setSavingId(`${bookingId}:flight`);
+      setError("");
+      await postAdminApi(`/api/admin/bookings/${bookingId}/flight-status`, {});
+    } catch (flightError) {
+      setError(flightError instanceof Error ? flightError.message : "Unable to check flight status.");
+    } finally {
+      setSavingId("");
+    }
+  }
+
+  async function copyPaymentLink(bookingId: string) {
+    const booking = bookings.find((item) => item.id === bookingId);
+    // A series paid as one charge is paid from its first ride, and a group from its parent booking.
+    // Quoted trips are accepted and paid from their quote page.
+    const payableId =
+      booking?.seriesPaymentMode === "series" && booking.seriesLeadBookingId
+        ? booking.seriesLeadBookingId
+        : (booking?.groupParentBookingId ?? bookingId);
+    const link = booking?.quote
+      ? `${window.location.origin}/booking/quote?bookingId=${encodeURIComponent(bookingId)}`
+      : `${window.location.origin}/booking?bookingId=${encodeURIComponent(payableId)}`;
+
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopiedPaymentLinkId(bookingId);
+    } catch {
+      window.prompt("Copy this payment link for the customer:", link);
+    }
+  }
+
+  function holdExpiresSoon(booking: BookingRecord) {
+    if (!booking.authorizationExpiresAt) {
+      return false;
+    }
+
+    return new Date(booking.authorizationExpiresAt).getTime() - Date.now() < 24 * 60 * 60 * 1000;
+  }
+
+  function refundableAmount(booking: BookingRecord) {
+    const paid = Number(booking.amountPaid ?? booking.amountDue ?? booking.estimatedFare ?? 0);
+    return Math.max(0, Math.round((paid - Number(booking.amountRefunded ?? 0)) * 100) / 100);
+  }
+
+  // Starts from the last quote sent, or from the instant estimate saved with the request.
+  function openQuoteDraft(booking: BookingRecord) {
+    const lines = booking.quote?.lines ?? booking.fareBreakdown ?? [];
+
+    setQuoteDraft({
+      bookingId: booking.id,
+      lines:
+        lines.length > 0
+          ? lines.map((line) => ({ label: line.label, amount: line.amount }))
+          : [{ label: "", amount: 0 }],
+      expiresOn: shiftDate(nowInNewYork().slice(0, 10), DEFAULT_QUOTE_VALID_DAYS),
+      message: booking.quote?.message ?? "",
+    });
+  }
+
+  function updateQuoteLine(index: number, patch: Partial<AdminQuoteDraft["lines"][number]>) {
+    setQuoteDraft((previous) =>
+      previous
+        ? {
+            ...previous,
+            lines: previous.lines.map((line, lineIndex) => (lineIndex === index ? { ...line, ...patch } : line)),
+          }
+        : previous,
+    );
+  }
+
+  async function submitQuote() {
+    if (!quoteDraft) {
+      return;
+    }
+
+    const issue = quoteDraftIssue(quoteDraft);
+
+    if (issue) {
+      setError(issue);
+      return;
+    }
+
+    try {
+      setSavingId(`${quoteDraft.bookingId}:quote`);
+      setError("");
+      await postAdminApi(`/api/admin/bookings/${quoteDraft.bookingId}/quote`, {
+        lines: quoteDraft.lines,
+        expiresOn: quoteDraft.expiresOn,
+        message: quoteDraft.message,
+      });
+      setQuoteDraft(null);
+    } catch (quoteError) {
+      setError(quoteError instanceof Error ? quoteError.message : "Unable to send the quote.");
+    } finally {
+      setSavingId("");
+    }
+  }
+
+  async function submitRefund() {
+    if (!refundDraft) {
+      return;
+    }
+
+    if (!refundDraft.reason.trim()) {
+      setError("Enter a reason for the refund.");
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Refund ${formatCurrency(refundDraft.amount)} through Stripe? This cannot be undone.`,
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSavingId(`${refundDraft.bookingId}:refund`);
+      setError("");
+
+      const result = await postAdminApi<{ refund: RefundRecord }>(
+        `/api/admin/bookings/${refundDraft.bookingId}/refund`,
+        { amount: refundDraft.amount, reason: refundDraft.reason },
+      );
+
+      setRefundDraft(null);
+
+      if (result.refund.status !== "succeeded") {
+        setError(
+          `Refund ${result.refund.id} is ${result.refund.status}. Payment status updates once Stripe confirms it.`,
+        );
+      }
+    } catch (refundError) {
+      setError(refundError instanceof Error ? refundError.message : "Unable to issue refund.");
+    } finally {
+      setSavingId("");
+    }
+  }
+
+  async function submitSeriesChange(
+    action: "cancel" | "update",
+    draft: Pick<SeriesDraft, "seriesId" | "bookingId" | "scope"> & Partial<SeriesDraft>,
+  ) {
+    if (
+      action === "cancel" &&
+      !window.confirm(
+        draft.scope === "series"
+          ? "Cancel every upcoming ride in this series? Card holds are released; paid rides must be refunded separately."
+          : "Cancel this ride only? The rest of the series is kept.",
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setSavingId(`${draft.seriesId}:series`);
+      setError("");
+      await postAdminApi(`/api/admin/series/${draft.seriesId}`, {
+        action,
+        scope: draft.scope,
+        bookingId: draft.bookingId,
+        serviceDate: draft.serviceDate,
+        pickupTime: draft.pickupTime,
+        specialInstructions: draft.specialInstructions,
+      });
+      setSeriesDraft(null);
+    } catch (seriesError) {
+      setError(seriesError instanceof Error ? seriesError.message : "Unable to update series.");
+    } finally {
+      setSavingId("");
+    }
+  }
+
+  function updateHomeField<K extends keyof SiteContent["home"]>(
+    field: K,
+    value: SiteContent["home"][K],
+  ) {
+    setContentDraft((previous) => ({
+      ...previous,
+      home: {
+        ...previous.home,
+        [field]: value,
+      },
+    }));
+  }
+
+  function updateBookingField<K extends keyof SiteContent["booking"]>(
+    field: K,
+    value: SiteContent["booking"][K],
+  ) {
+    setContentDraft((previous) => ({
+      ...previous,
+      booking: {
+        ...previous.booking,
+        [field]: value,
+      },
+    }));
+  }
+
+  function updateFleetField(
+    index: number,
+    field: keyof SiteContent["fleet"][number],
+    value: string | number,
+  ) {
+    const itemId = contentDraft.fleet[index]?.id;
+
+    if (field === "image" && itemId) {
+      setImageLoadErrors((previous) => ({
+        ...previous,
+        [itemId]: false,
+      }));
+    }
+
+    setContentDraft((previous) => ({
+      ...previous,
+      fleet: previous.fleet.map((item, itemIndex) =>
+        itemIndex === index
+          ? {
+              ...item,
+              [field]:
+                field === "baseFare" ||
+                field === "hourlyRate" ||
+                field === "minimumHours" ||
+                field === "overtimeRate" ||
+                field === "overtimeIncrementMinutes" ||
+                field === "maxPassengers" ||
+                field === "maxLuggage" ||
+                field === "units" ||
+                field === "typicalTripMinutes"
+                  ? Math.max(0, Number.isFinite(Number(value)) ? Number(value) : 0)
+                  : value,
+            }
+          : item,
+      ),
+    }));
+  }
+
+  async function saveContentDraft() {
+    if (!isPinUnlocked) {
+      setContentError("Admin PIN is required.");
+      return;
+    }
+
+    if (hasFleetValidationErrors) {
+      const issues: string[] = [];
+
+      if (invalidPriceItems.length > 0) {
+        issues.push(`Prices must be greater than $0 for: ${invalidPriceItems.map((item) => item.id).join(", ")}`);
+      }
+
+      if (invalidPhotoItems.length > 0) {
+        issues.push(`Valid Photo URL is required for: ${invalidPhotoItems.map((item) => item.id).join(", ")}`);
+      }
+
+      if (invalidHourlyItems.length > 0) {
+        issues.push(
+          `Hourly and overtime rates above $0, a minimum of at least 1 hour and a whole-minute overtime increment are required for: ${invalidHourlyItems.map((item) => item.id).join(", ")}`,
+        );
+      }
+
+      if (invalidCapacityItems.length > 0) {
+        issues.push(
+          `Max passengers of at least 1 is required for: ${invalidCapacityItems.map((item) => item.id).join(", ")}`,
+        );
+      }
+
+      if (invalidInventoryItems.length > 0) {
+        issues.push(
+          `Whole-number units and a typical trip of at least 15 minutes are required for: ${invalidInventoryItems.map((item) => item.id).join(", ")}`,
+        );
+      }
+
+      setContentError(`Cannot save yet. ${issues.join(". ")}.`);
+      return;
+    }
+
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    try {
+      setContentSaving(true);
+      setContentMessage("");
+      setContentError("");
+
+      const batch = writeBatch(firestoreDb);
+      const contentRef = doc(firestoreDb, "siteContent", "main");
+      const versionRef = doc(collection(firestoreDb, "siteContentVersions"));
+
+      batch.set(
+        contentRef,
+        {
+          ...contentDraft,
+          updatedAt: serverTimestamp(),
+          updatedByUid: "pin-admin",
+          updatedByEmail: "pin-admin",
+        },
+        { merge: true },
+      );
+
+      batch.set(versionRef, {
+        snapshot: contentDraft,
+        action: "save",
+        createdAt: serverTimestamp(),
+        createdByUid: "pin-admin",
+        createdByEmail: "pin-admin",
+      });
+
+      await batch.commit();
+
+      setContentMessage("Website content saved successfully. Version snapshot created.");
+    } catch (saveError) {
+      setContentError(
+        saveError instanceof Error ? saveError.message : "Unable to save website content.",
+      );
+    } finally {
+      setContentSaving(false);
+    }
+  }
+
+  async function restoreContentVersion(versionId: string, snapshot: SiteContent) {
+    if (!isPinUnlocked) {
+      setContentError("Admin PIN is required.");
+      return;
+    }
+
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    if (!window.confirm("Restore this version? This will replace current website content.")) {
+      return;
+    }
+
+    try {
+      setRestoringVersionId(versionId);
+      setContentMessage("");
+      setContentError("");
+
+      const batch = writeBatch(firestoreDb);
+      const contentRef = doc(firestoreDb, "siteContent", "main");
+      const restoreVersionRef = doc(collection(firestoreDb, "siteContentVersions"));
+
+      batch.set(
+        contentRef,
+        {
+          ...snapshot,
+          updatedAt: serverTimestamp(),
+          updatedByUid: "pin-admin",
+          updatedByEmail: "pin-admin",
+        },
+        { merge: true },
+      );
+
+      batch.set(restoreVersionRef, {
+        snapshot,
+        action: "restore",
+        sourceVersionId: versionId,
+        createdAt: serverTimestamp(),
+        createdByUid: "pin-admin",
+        createdByEmail: "pin-admin",
+      });
+
+      await batch.commit();
+
+      setContentDraft(snapshot);
+      setContentMessage("Version restored successfully.");
+    } catch (restoreError) {
+      setContentError(
+        restoreError instanceof Error ? restoreError.message : "Unable to restore this version.",
+      );
+    } finally {
+      setRestoringVersionId("");
+    }
+  }
+
+  function updateSurchargeRule(index: number, patch: Partial<SurchargeRule>) {
+    setPricingDraft((previous) => ({
+      ...previous,
+      surchargeRules: previous.surchargeRules.map((rule, ruleIndex) =>
+        ruleIndex === index ? { ...rule, ...patch } : rule,
+      ),
+    }));
+  }
+
+  function addSurchargeRule() {
+    setPricingDraft((previous) => ({
+      ...previous,
+      surchargeRules: [
+        ...previous.surchargeRules,
+        {
+          id: `rule-${crypto.randomUUID().slice(0, 8)}`,
+          kind: "toll",
+          label: "",
+          enabled: true,
+          amountType: "fixed",
+          amount: 0,
+          startTime: "",
+          endTime: "",
+          dates: [],
+          zoneIds: [],
+          keywords: [],
+        },
+      ],
+    }));
+  }
+
+  function removeSurchargeRule(index: number) {
+    setPricingDraft((previous) => ({
+      ...previous,
+      surchargeRules: previous.surchargeRules.filter((_, ruleIndex) => ruleIndex !== index),
+    }));
+  }
+
+  function updateAddOn(index: number, patch: Partial<AddOn>) {
+    setPricingDraft((previous) => ({
+      ...previous,
+      addOns: previous.addOns.map((addOn, addOnIndex) => (addOnIndex === index ? { ...addOn, ...patch } : addOn)),
+    }));
+  }
+
+  function addAddOn() {
+    setPricingDraft((previous) => ({
+      ...previous,
+      addOns: [
+        ...previous.addOns,
+        {
+          id: `addon-${crypto.randomUUID().slice(0, 8)}`,
+          name: "",
+          price: 0,
+          vehicleIds: [],
+          maxQuantity: 1,
+          active: true,
+        },
+      ],
+    }));
+  }
+
+  function removeAddOn(index: number) {
+    setPricingDraft((previous) => ({
+      ...previous,
+      addOns: previous.addOns.filter((_, addOnIndex) => addOnIndex !== index),
+    }));
+  }
+
+  async function savePricingDraft() {
+    if (!isPinUnlocked) {
+      setContentError("Admin PIN is required.");
+      return;
+    }
+
+    if (invalidSurchargeRules.length > 0) {
+      setContentError(
+        `Cannot save yet. Fix surcharge rules: ${invalidSurchargeRules.map((rule) => rule.label || rule.id).join(", ")}.`,
+      );
+      return;
+    }
+
+    if (invalidAddOns.length > 0) {
+      setContentError(
+        `Cannot save yet. Fix add-ons: ${invalidAddOns.map((addOn) => addOn.name || addOn.id).join(", ")}.`,
+      );
+      return;
+    }
+
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    try {
+      setPricingSaving(true);
+      setContentMessage("");
+      setContentError("");
+
+      const surchargeRules = pricingDraft.surchargeRules.map((rule) => ({
+        ...rule,
+        label: rule.label.trim(),
+        dates: cleanList(rule.dates),
+        keywords: cleanList(rule.keywords),
+      }));
+
+      const addOns = pricingDraft.addOns.map((addOn) => ({
+        ...addOn,
+        name: addOn.name.trim(),
+        maxQuantity: Math.floor(addOn.maxQuantity),
+      }));
+
+      await setDoc(
+        doc(firestoreDb, "pricingConfig", "main"),
+        {
+          surchargeRules,
+          addOns,
+          updatedAt: serverTimestamp(),
+          updatedByUid: "pin-admin",
+          updatedByEmail: "pin-admin",
+        },
+        { merge: true },
+      );
+
+      setContentMessage("Pricing rules saved. New quotes and checkouts use them immediately.");
+    } catch (saveError) {
+      setContentError(saveError instanceof Error ? saveError.message : "Unable to save pricing rules.");
+    } finally {
+      setPricingSaving(false);
+    }
+  }
+
+  function updateBlackoutDate(index: number, patch: Partial<BookingRules["blackoutDates"][number]>) {
+    setRulesDraft((previous) => ({
+      ...previous,
+      blackoutDates: previous.blackoutDates.map((blackout, blackoutIndex) =>
+        blackoutIndex === index ? { ...blackout, ...patch } : blackout,
+      ),
+    }));
+  }
+
+  async function saveBookingRules() {
+    if (!isPinUnlocked) {
+      setContentError("Admin PIN is required.");
+      return;
+    }
+
+    const issue = bookingRulesIssue(rulesDraft);
+
+    if (issue) {
+      setContentError(`Cannot save yet. ${issue}`);
+      return;
+    }
+
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
       return;
     }
 
     try {
-      setRestoringVersionId(versionId);
+      setRulesSaving(true);
       setContentMessage("");
       setContentError("");
 
-      const batch = writeBatch(firestoreDb);
-      const contentRef = doc(firestoreDb, "siteContent", "main");
-      const restoreVersionRef = doc(collection(firestoreDb, "siteContentVersions"));
+      await setDoc(
+        doc(firestoreDb, "bookingRules", "main"),
+        {
+          ...rulesDraft,
+          blackoutDates: rulesDraft.blackoutDates
+            .map((blackout) => ({ date: blackout.date, label: blackout.label.trim() }))
+            .sort((a, b) => a.date.localeCompare(b.date)),
+          updatedAt: serverTimestamp(),
+          updatedByUid: "pin-admin",
+          updatedByEmail: "pin-admin",
+        },
+        { merge: true },
+      );
 
-      batch.set(
-        contentRef,
+      setContentMessage("Booking rules saved. The booking form and checkout use them immediately.");
+    } catch (saveError) {
+      setContentError(saveError instanceof Error ? saveError.message : "Unable to save booking rules.");
+    } finally {
+      setRulesSaving(false);
+    }
+  }
+
+  function updatePlace(index: number, patch: Partial<Place>) {
+    setGazetteerDraft((previous) => ({
+      places: previous.places.map((place, placeIndex) => (placeIndex === index ? { ...place, ...patch } : place)),
+    }));
+  }
+
+  function addPlace() {
+    setGazetteerDraft((previous) => ({
+      places: [
         {
-          ...snapshot,
+          id: `place-${crypto.randomUUID().slice(0, 8)}`,
+          name: "",
+          category: "venue",
+          city: "",
+          address: "",
+          point: { lat: 0, lng: 0 },
+          aliases: [],
+          active: true,
+        },
+        ...previous.places,
+      ],
+    }));
+  }
+
+  function removePlace(index: number) {
+    setGazetteerDraft((previous) => ({
+      places: previous.places.filter((_, placeIndex) => placeIndex !== index),
+    }));
+  }
+
+  async function saveGazetteer() {
+    if (!isPinUnlocked) {
+      setContentError("Admin PIN is required.");
+      return;
+    }
+
+    const invalidPlaces = gazetteerDraft.places.filter((place) => placeIssue(place) !== null);
+
+    if (invalidPlaces.length > 0) {
+      setContentError(
+        `Cannot save yet. Fix places: ${invalidPlaces.map((place) => place.name || place.id).join(", ")}.`,
+      );
+      return;
+    }
+
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    try {
+      setGazetteerSaving(true);
+      setContentMessage("");
+      setContentError("");
+
+      await setDoc(
+        doc(firestoreDb, "gazetteer", "main"),
+        {
+          places: gazetteerDraft.places.map((place) => ({
+            ...place,
+            name: place.name.trim(),
+            city: place.city.trim(),
+            address: place.address.trim(),
+            aliases: cleanList(place.aliases),
+          })),
           updatedAt: serverTimestamp(),
           updatedByUid: "pin-admin",
           updatedByEmail: "pin-admin",
@@ -512,25 +1487,104 @@ export default function AdminPage() {
         { merge: true },
       );
 
-      batch.set(restoreVersionRef, {
-        snapshot,
-        action: "restore",
-        sourceVersionId: versionId,
+      setContentMessage("Places saved. Address suggestions on the booking form update immediately.");
+    } catch (saveError) {
+      setContentError(saveError instanceof Error ? saveError.message : "Unable to save places.");
+    } finally {
+      setGazetteerSaving(false);
+    }
+  }
+
+  async function createPromoCode() {
+    if (!isPinUnlocked) {
+      setContentError("Admin PIN is required.");
+      return;
+    }
+
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    const code = normalizePromoCodeInput(promoDraft.code);
+
+    if (!/^[A-Z0-9-]{3,24}$/.test(code)) {
+      setContentError("Promo code must be 3-24 letters, numbers or dashes.");
+      return;
+    }
+
+    if (promoCodes.some((promo) => promo.code === code)) {
+      setContentError(`Promo code ${code} already exists.`);
+      return;
+    }
+
+    if (!(promoDraft.amount > 0) || (promoDraft.discountType === "percent" && promoDraft.amount > 100)) {
+      setContentError("Discount must be above 0 (and at most 100 for percentages).");
+      return;
+    }
+
+    try {
+      setPromoSavingCode(code);
+      setContentMessage("");
+      setContentError("");
+
+      await setDoc(doc(firestoreDb, "promoCodes", code), {
+        description: promoDraft.description.trim(),
+        discountType: promoDraft.discountType,
+        amount: promoDraft.amount,
+        expiresOn: promoDraft.expiresOn,
+        maxRedemptions: Math.max(0, Math.floor(promoDraft.maxRedemptions)),
+        redemptionCount: 0,
+        vehicleIds: promoDraft.vehicleIds,
+        active: true,
         createdAt: serverTimestamp(),
         createdByUid: "pin-admin",
-        createdByEmail: "pin-admin",
       });
 
-      await batch.commit();
+      setPromoDraft(EMPTY_PROMO_DRAFT);
+      setContentMessage(`Promo code ${code} created.`);
+    } catch (saveError) {
+      setContentError(saveError instanceof Error ? saveError.message : "Unable to create promo code.");
+    } finally {
+      setPromoSavingCode("");
+    }
+  }
 
-      setContentDraft(snapshot);
-      setContentMessage("Version restored successfully.");
-    } catch (restoreError) {
-      setContentError(
-        restoreError instanceof Error ? restoreError.message : "Unable to restore this version.",
-      );
+  async function setPromoCodeActive(code: string, active: boolean) {
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    try {
+      setPromoSavingCode(code);
+      setContentError("");
+      await updateDoc(doc(firestoreDb, "promoCodes", code), { active });
+    } catch (updateError) {
+      setContentError(updateError instanceof Error ? updateError.message : "Unable to update promo code.");
     } finally {
-      setRestoringVersionId("");
+      setPromoSavingCode("");
+    }
+  }
+
+  async function deletePromoCode(code: string) {
+    if (!firestoreDb) {
+      setContentError(firebaseConfigError ?? "Firebase is not configured.");
+      return;
+    }
+
+    if (!window.confirm(`Delete promo code ${code}? Customers will no longer be able to use it.`)) {
+      return;
+    }
+
+    try {
+      setPromoSavingCode(code);
+      setContentError("");
+      await deleteDoc(doc(firestoreDb, "promoCodes", code));
+    } catch (deleteError) {
+      setContentError(deleteError instanceof Error ? deleteError.message : "Unable to delete promo code.");
+    } finally {
+      setPromoSavingCode("");
     }
   }
 
@@ -645,6 +1699,28 @@ export default function AdminPage() {
               >
                 Bookings
               </button>
+              <button
+                type="button"
+                onClick={() => setActiveSection("rules")}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition ${
+                  activeSection === "rules"
+                    ? "bg-amber-500 text-black font-semibold"
+                    : "text-neutral-200 hover:bg-white/10"
+                }`}
+              >
+                Booking Rules
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveSection("places")}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition ${
+                  activeSection === "places"
+                    ? "bg-amber-500 text-black font-semibold"
+                    : "text-neutral-200 hover:bg-white/10"
+                }`}
+              >
+                Places
+              </button>
             </div>
 
             <p className="mt-5 px-2 text-xs font-semibold uppercase tracking-[0.16em] text-neutral-400">CMS</p>
@@ -694,6 +1770,43 @@ export default function AdminPage() {
                 Versions
               </button>
             </div>
+
+            <p className="mt-5 px-2 text-xs font-semibold uppercase tracking-[0.16em] text-neutral-400">Pricing</p>
+            <div className="mt-2 space-y-1">
+              <button
+                type="button"
+                onClick={() => setActiveSection("surcharges")}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition ${
+                  activeSection === "surcharges"
+                    ? "bg-amber-500 text-black font-semibold"
+                    : "text-neutral-200 hover:bg-white/10"
+                }`}
+              >
+                Surcharges
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveSection("addons")}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition ${
+                  activeSection === "addons"
+                    ? "bg-amber-500 text-black font-semibold"
+                    : "text-neutral-200 hover:bg-white/10"
+                }`}
+              >
+                Add-ons
+              </button>
+              <button
+                type="button"
+                onClick={() => setActiveSection("promos")}
+                className={`w-full rounded-lg px-3 py-2 text-left text-sm transition ${
+                  activeSection === "promos"
+                    ? "bg-amber-500 text-black font-semibold"
+                    : "text-neutral-200 hover:bg-white/10"
+                }`}
+              >
+                Promo Codes
+              </button>
+            </div>
           </aside>
 
           <section className="rounded-2xl border border-white/10 bg-neutral-900/60 p-5">
@@ -735,7 +1848,7 @@ export default function AdminPage() {
                 <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
                   <div className="rounded-xl border border-white/10 bg-neutral-950/70 px-4 py-3">
                     <p className="text-xs text-neutral-400">Total bookings</p>
-                    <p className="mt-1 text-2xl font-semibold text-white">{bookings.length}</p>
+                    <p className="mt-1 text-2xl font-semibold text-white">{customerBookings.length}</p>
                   </div>
                   <div className="rounded-xl border border-white/10 bg-neutral-950/70 px-4 py-3">
                     <p className="text-xs text-neutral-400">Pending</p>
@@ -756,7 +1869,33 @@ export default function AdminPage() {
 
             {activeSection === "bookings" ? (
               <div className="space-y-4">
-                <h2 className="text-2xl font-bold">Bookings</h2>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <h2 className="text-2xl font-bold">Bookings</h2>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={bookingView}
+                      onChange={(event) => setBookingView(event.target.value as BookingView)}
+                      className="rounded-lg border border-white/15 bg-neutral-950 px-3 py-2 text-sm text-white"
+                    >
+                      {(Object.keys(BOOKING_VIEW_LABELS) as BookingView[]).map((view) => (
+                        <option key={view} value={view}>
+                          {BOOKING_VIEW_LABELS[view]}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={backfillPickupInstants}
+                      disabled={savingId === "migration:pickup-instants"}
+                      className="rounded-lg border border-white/20 px-3 py-2 text-sm text-white transition hover:bg-white/10 disabled:opacity-60"
+                    >
+                      {savingId === "migration:pickup-instants" ? "Backfilling..." : "Backfill pickup times"}
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-neutral-500">
+                  Pickup dates and times are Buffalo (Eastern) time and are shown with EST or EDT.
+                </p>
 
                 {error ? (
                   <p className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-4 py-3 text-sm text-rose-200">
@@ -773,6 +1912,7 @@ export default function AdminPage() {
                           <th className="px-4 py-3">Route</th>
                           <th className="px-4 py-3">Trip</th>
                           <th className="px-4 py-3">Vehicle</th>
+                          <th className="px-4 py-3">Add-ons</th>
                           <th className="px-4 py-3">Fare</th>
                           <th className="px-4 py-3">Booking Status</th>
                           <th className="px-4 py-3">Payment</th>
@@ -782,73 +1922,715 @@ export default function AdminPage() {
                       <tbody className="divide-y divide-white/5">
                         {loading ? (
                           <tr>
-                            <td className="px-4 py-6 text-neutral-400" colSpan={8}>
+                            <td className="px-4 py-6 text-neutral-400" colSpan={9}>
                               Loading bookings...
                             </td>
                           </tr>
-                        ) : bookings.length === 0 ? (
+                        ) : visibleBookings.length === 0 ? (
                           <tr>
-                            <td className="px-4 py-6 text-neutral-400" colSpan={8}>
-                              No bookings yet.
+                            <td className="px-4 py-6 text-neutral-400" colSpan={9}>
+                              {customerBookings.length === 0 ? "No bookings yet." : "No bookings in this view."}
                             </td>
                           </tr>
                         ) : (
-                          bookings.map((booking) => (
-                            <tr key={booking.id} className="align-top">
-                              <td className="px-4 py-3">
-                                <p className="font-medium text-white">{booking.customerName || "—"}</p>
-                                <p className="text-xs text-neutral-300">{booking.customerEmail || "—"}</p>
-                                <p className="text-xs text-neutral-400">{booking.customerPhone || "—"}</p>
-                              </td>
-                              <td className="px-4 py-3">
-                                <p className="max-w-xs text-xs text-neutral-200">{booking.pickupAddress || "—"}</p>
-                                <p className="my-1 text-xs text-neutral-500">to</p>
-                                <p className="max-w-xs text-xs text-neutral-200">{booking.dropoffAddress || "—"}</p>
-                              </td>
-                              <td className="px-4 py-3 text-xs text-neutral-200">
-                                <p>{formatTripType(booking.tripType)}</p>
-                                <p className="text-neutral-400">{booking.serviceDate || "—"}</p>
-                                <p className="text-neutral-400">{booking.pickupTime || "—"}</p>
-                                <p className="text-neutral-400">Passengers: {booking.passengers || 0}</p>
-                              </td>
-                              <td className="px-4 py-3 text-xs text-neutral-200">{booking.vehicleName || "—"}</td>
-                              <td className="px-4 py-3 font-semibold text-amber-400">
-                                ${Number(booking.estimatedFare || 0).toFixed(2)}
-                              </td>
-                              <td className="px-4 py-3">
-                                <select
-                                  value={booking.status}
-                                  disabled={savingId === `${booking.id}:status`}
-                                  onChange={(event) =>
-                                    updateBookingStatus(booking.id, event.target.value as BookingStatus)
-                                  }
-                                  className="w-32 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
-                                >
-                                  {BOOKING_STATUSES.map((status) => (
-                                    <option key={status} value={status}>
-                                      {status}
-                                    </option>
+                          visibleBookings.map((booking) => (
+                            <Fragment key={booking.id}>
+                              <tr className="align-top">
+                                <td className="px-4 py-3">
+                                  <p className="font-medium text-white">{booking.customerName || "—"}</p>
+                                  <p className="text-xs text-neutral-300">{booking.customerEmail || "—"}</p>
+                                  <p className="text-xs text-neutral-400">{booking.customerPhone ? formatPhoneNumber(booking.customerPhone) : "—"}</p>
+                                  {booking.referenceCode ? (
+                                    <p className="mt-1 text-xs font-semibold tracking-[0.16em] text-amber-400">
+                                      {booking.referenceCode}
+                                    </p>
+                                  ) : null}
+                                  {booking.changeRequests?.length ? (
+                                    <div className="mt-2 max-w-xs rounded-md border border-sky-500/40 bg-sky-500/10 px-2 py-1.5 text-xs">
+                                      <p className="font-semibold text-sky-300">
+                                        Change requested ({booking.changeRequests.length})
+                                      </p>
+                                      <p className="whitespace-pre-line text-neutral-200">
+                                        {booking.changeRequests[booking.changeRequests.length - 1].message}
+                                      </p>
+                                    </div>
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3">
+                                  {booking.airportPickup ? (
+                                    <div className="mb-2 max-w-xs rounded-md border border-amber-500/40 bg-amber-500/10 px-2 py-1.5 text-xs">
+                                      <p className="font-semibold text-amber-300">
+                                        ✈ {booking.airportPickup.airportCode} · {booking.airportPickup.airline}{" "}
+                                        {booking.airportPickup.flightNumber}
+                                      </p>
+                                      <p className="text-neutral-300">
+                                        {booking.airportPickup.terminal}
+                                        {booking.airportPickup.meetAndGreet ? " · Meet & greet" : ""}
+                                      </p>
+                                      {booking.flightStatus ? (
+                                        <p
+                                          className={
+                                            booking.flightStatus.state === "delayed" ||
+                                            booking.flightStatus.state === "cancelled"
+                                              ? "text-rose-300"
+                                              : "text-emerald-300"
+                                          }
+                                        >
+                                          {booking.flightStatus.state}
+                                          {booking.flightStatus.delayMinutes > 0
+                                            ? ` · +${booking.flightStatus.delayMinutes} min · ETA ${booking.flightStatus.estimatedArrival}`
+                                            : ""}
+                                          <span className="text-neutral-500">
+                                            {" "}
+                                            ({booking.flightStatus.source}, {new Date(booking.flightStatus.checkedAt).toLocaleTimeString()})
+                                          </span>
+                                        </p>
+                                      ) : null}
+                                      <button
+                                        type="button"
+                                        onClick={() => checkFlightStatus(booking.id)}
+                                        disabled={savingId === `${booking.id}:flight`}
+                                        className="mt-1 rounded border border-white/20 px-2 py-0.5 text-[11px] text-white transition hover:bg-white/10 disabled:opacity-60"
+                                      >
+                                        {savingId === `${booking.id}:flight` ? "Checking..." : "Check flight"}
+                                      </button>
+                                    </div>
+                                  ) : null}
+                                  <p className="max-w-xs text-xs text-neutral-200">{booking.pickupAddress || "—"}</p>
+                                  {booking.pickupPlace ? (
+                                    <p className="max-w-xs text-[11px] text-neutral-500">
+                                      {booking.pickupPlace.id} · {booking.pickupPlace.point.lat}, {booking.pickupPlace.point.lng}
+                                    </p>
+                                  ) : null}
+                                  {(booking.stops ?? []).map((stop, index) => (
+                                    <p key={`${index}-${stop.address}`} className="mt-1 max-w-xs text-xs text-neutral-300">
+                                      <span className="text-neutral-500">Stop {index + 1}: </span>
+                                      {stop.address}
+                                      {stop.waitMinutes > 0 ? ` (wait ${stop.waitMinutes} min)` : ""}
+                                    </p>
                                   ))}
-                                </select>
-                              </td>
-                              <td className="px-4 py-3">
-                                <select
-                                  value={booking.paymentStatus}
-                                  disabled={savingId === `${booking.id}:payment`}
-                                  onChange={(event) =>
-                                    updatePaymentStatus(booking.id, event.target.value as PaymentStatus)
-                                  }
-                                  className="w-28 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
-                                >
-                                  {PAYMENT_STATUSES.map((status) => (
-                                    <option key={status} value={status}>
-                                      {status}
-                                    </option>
+                                  <p className="my-1 text-xs text-neutral-500">to</p>
+                                  <p className="max-w-xs text-xs text-neutral-200">{booking.dropoffAddress || "—"}</p>
+                                  {booking.dropoffPlace ? (
+                                    <p className="max-w-xs text-[11px] text-neutral-500">
+                                      {booking.dropoffPlace.id} · {booking.dropoffPlace.point.lat}, {booking.dropoffPlace.point.lng}
+                                    </p>
+                                  ) : null}
+                                  {booking.routeEstimate ? (
+                                    <p className="mt-1 text-xs text-neutral-400">
+                                      {booking.routeEstimate.pickup.zoneName} → {booking.routeEstimate.dropoff.zoneName}
+                                      {booking.routeEstimate.miles !== null
+                                        ? ` · ${booking.routeEstimate.miles} mi`
+                                        : " · distance unverified"}
+                                    </p>
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3 text-xs text-neutral-200">
+                                  <p>{formatTripType(booking.tripType)}</p>
+                                  <p className="max-w-[12rem] text-neutral-400">
+                                    {formatBookingPickup(booking)}
+                                  </p>
+                                  {booking.returnLeg ? (
+                                    <div className="mt-1 max-w-[12rem] text-neutral-400">
+                                      <p className="text-neutral-200">
+                                        Return:{" "}
+                                        {booking.returnPickupAt
+                                          ? formatPickupInstant(booking.returnPickupAt.toDate())
+                                          : `${booking.returnLeg.serviceDate} ${booking.returnLeg.pickupTime}`}
+                                      </p>
+                                      <p>From {booking.returnLeg.pickupAddress}</p>
+                                    </div>
+                                  ) : null}
+                                  {booking.tripType === "hourly" ? (
+                                    <p className="text-neutral-400">
+                                      Hours: {booking.billableHours ?? booking.hours ?? "—"}
+                                    </p>
+                                  ) : null}
+                                  <p className="text-neutral-400">Passengers: {booking.passengers || 0}</p>
+                                  <p className="text-neutral-400">Luggage: {booking.luggage ?? "—"}</p>
+                                  {booking.seriesId ? (
+                                    <div className="mt-2 max-w-[14rem] rounded-md border border-violet-500/40 bg-violet-500/10 px-2 py-1.5">
+                                      <p className="font-semibold text-violet-300">
+                                        Series {booking.occurrenceIndex}/{booking.occurrenceCount}
+                                        {booking.seriesFrequency
+                                          ? ` · ${RECURRENCE_FREQUENCY_LABELS[booking.seriesFrequency]}`
+                                          : ""}
+                                      </p>
+                                      {booking.seriesPaymentMode ? (
+                                        <p className="text-neutral-300">{SERIES_PAYMENT_LABELS[booking.seriesPaymentMode]}</p>
+                                      ) : null}
+                                      {seriesDraft?.bookingId === booking.id ? (
+                                        <div className="mt-2 space-y-2">
+                                          {seriesDraft.scope === "occurrence" ? (
+                                            <input
+                                              type="date"
+                                              value={seriesDraft.serviceDate}
+                                              onChange={(event) =>
+                                                setSeriesDraft({ ...seriesDraft, serviceDate: event.target.value })
+                                              }
+                                              className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                            />
+                                          ) : null}
+                                          <input
+                                            type="time"
+                                            value={seriesDraft.pickupTime}
+                                            onChange={(event) =>
+                                              setSeriesDraft({ ...seriesDraft, pickupTime: event.target.value })
+                                            }
+                                            className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                          />
+                                          <textarea
+                                            value={seriesDraft.specialInstructions}
+                                            onChange={(event) =>
+                                              setSeriesDraft({ ...seriesDraft, specialInstructions: event.target.value })
+                                            }
+                                            placeholder="Special instructions"
+                                            rows={2}
+                                            className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                          />
+                                          <div className="flex gap-2">
+                                            <button
+                                              type="button"
+                                              onClick={() => submitSeriesChange("update", seriesDraft)}
+                                              disabled={savingId === `${seriesDraft.seriesId}:series`}
+                                              className="rounded-md bg-amber-500 px-2 py-1 text-xs font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                                            >
+                                              {savingId === `${seriesDraft.seriesId}:series`
+                                                ? "Saving..."
+                                                : seriesDraft.scope === "series"
+                                                  ? "Save upcoming rides"
+                                                  : "Save ride"}
+                                            </button>
+                                            <button
+                                              type="button"
+                                              onClick={() => setSeriesDraft(null)}
+                                              className="rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                            >
+                                              Cancel
+                                            </button>
+                                          </div>
+                                        </div>
+                                      ) : booking.status !== "cancelled" && booking.status !== "completed" ? (
+                                        <div className="mt-1 flex flex-wrap gap-1">
+                                          {(["occurrence", "series"] as const).map((scope) => (
+                                            <button
+                                              key={`edit-${scope}`}
+                                              type="button"
+                                              onClick={() =>
+                                                setSeriesDraft({
+                                                  seriesId: booking.seriesId ?? "",
+                                                  bookingId: booking.id,
+                                                  scope,
+                                                  serviceDate: booking.serviceDate,
+                                                  pickupTime: booking.pickupTime,
+                                                  specialInstructions: booking.specialInstructions ?? "",
+                                                })
+                                              }
+                                              className="rounded border border-white/20 px-2 py-0.5 text-[11px] text-white transition hover:bg-white/10"
+                                            >
+                                              {scope === "series" ? "Edit series" : "Edit ride"}
+                                            </button>
+                                          ))}
+                                          {(["occurrence", "series"] as const).map((scope) => (
+                                            <button
+                                              key={`cancel-${scope}`}
+                                              type="button"
+                                              onClick={() =>
+                                                submitSeriesChange("cancel", {
+                                                  seriesId: booking.seriesId ?? "",
+                                                  bookingId: booking.id,
+                                                  scope,
+                                                })
+                                              }
+                                              disabled={savingId === `${booking.seriesId}:series`}
+                                              className="rounded border border-rose-400/40 px-2 py-0.5 text-[11px] text-rose-200 transition hover:bg-rose-500/10 disabled:opacity-60"
+                                            >
+                                              {scope === "series" ? "Cancel series" : "Cancel ride"}
+                                            </button>
+                                          ))}
+                                        </div>
+                                      ) : null}
+                                    </div>
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3 text-xs text-neutral-200">
+                                  {booking.groupVehicles ? (
+                                    <>
+                                      <p className="font-semibold text-amber-300">
+                                        Group · {booking.groupUnitCount ?? groupUnitsByParent.get(booking.id)?.length ?? 0} vehicles
+                                      </p>
+                                      {booking.groupVehicles.map((line) => (
+                                        <p key={line.vehicleId}>
+                                          {line.quantity} × {line.vehicleName}
+                                        </p>
+                                      ))}
+                                    </>
+                                  ) : (
+                                    booking.vehicleName || "—"
+                                  )}
+                                </td>
+                                <td className="px-4 py-3 text-xs text-neutral-200">
+                                  {(booking.addOns ?? []).length > 0
+                                    ? (booking.addOns ?? []).map((addOn) => (
+                                        <p key={addOn.id}>
+                                          {addOn.quantity} × {addOn.name}
+                                        </p>
+                                      ))
+                                    : "—"}
+                                </td>
+                                <td className="px-4 py-3 font-semibold text-amber-400">
+                                  ${Number(booking.estimatedFare || 0).toFixed(2)}
+                                  {booking.promoCode ? (
+                                    <p className="mt-1 text-[11px] font-normal text-emerald-300">
+                                      {booking.promoCode}: −${Number(booking.discountAmount || 0).toFixed(2)} · due $
+                                      {Number(booking.amountDue ?? booking.estimatedFare ?? 0).toFixed(2)}
+                                    </p>
+                                  ) : null}
+                                  {(booking.fareBreakdown ?? []).map((line) => (
+                                    <p key={line.code} className="mt-1 max-w-[14rem] text-[11px] font-normal text-neutral-400">
+                                      {line.label}: ${line.amount.toFixed(2)}
+                                    </p>
+                                  ))}
+                                  {booking.quote ? (
+                                    <p className="mt-1 max-w-[14rem] text-[11px] font-normal text-sky-300">
+                                      {booking.quote.acceptedAt
+                                        ? `Quote accepted ${new Date(booking.quote.acceptedAt).toLocaleString()}`
+                                        : `Quote sent ${new Date(booking.quote.sentAt).toLocaleString()} · expires ${formatPickupInstant(new Date(booking.quote.expiresAt))}`}
+                                    </p>
+                                  ) : booking.status === "quote_requested" ? (
+                                    <p className="mt-1 max-w-[14rem] text-[11px] font-normal text-sky-300">
+                                      Quote requested · instant estimate shown
+                                    </p>
+                                  ) : null}
+                                  {isQuoteStatus(booking.status) ? (
+                                    quoteDraft?.bookingId === booking.id ? (
+                                      <div className="mt-2 w-72 space-y-2 font-normal">
+                                        {quoteDraft.lines.map((line, index) => (
+                                          <div key={`quote-line-${index}`} className="flex gap-1">
+                                            <input
+                                              value={line.label}
+                                              onChange={(event) => updateQuoteLine(index, { label: event.target.value })}
+                                              placeholder="Description"
+                                              className="min-w-0 flex-1 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                            />
+                                            <input
+                                              type="number"
+                                              min={0.01}
+                                              step="0.01"
+                                              value={line.amount}
+                                              onChange={(event) =>
+                                                updateQuoteLine(index, { amount: Number(event.target.value || 0) })
+                                              }
+                                              className="w-20 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                            />
+                                            <button
+                                              type="button"
+                                              onClick={() =>
+                                                setQuoteDraft({
+                                                  ...quoteDraft,
+                                                  lines: quoteDraft.lines.filter((_, lineIndex) => lineIndex !== index),
+                                                })
+                                              }
+                                              disabled={quoteDraft.lines.length === 1}
+                                              className="rounded-md border border-white/20 px-2 text-xs text-white transition hover:bg-white/10 disabled:opacity-40"
+                                            >
+                                              ×
+                                            </button>
+                                          </div>
+                                        ))}
+                                        <button
+                                          type="button"
+                                          onClick={() =>
+                                            setQuoteDraft({
+                                              ...quoteDraft,
+                                              lines: [...quoteDraft.lines, { label: "", amount: 0 }],
+                                            })
+                                          }
+                                          disabled={quoteDraft.lines.length >= MAX_QUOTE_LINES}
+                                          className="rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10 disabled:opacity-40"
+                                        >
+                                          Add line
+                                        </button>
+                                        <label className="flex items-center gap-2 text-[11px] text-neutral-400">
+                                          Expires
+                                          <input
+                                            type="date"
+                                            value={quoteDraft.expiresOn}
+                                            onChange={(event) =>
+                                              setQuoteDraft({ ...quoteDraft, expiresOn: event.target.value })
+                                            }
+                                            className="flex-1 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                          />
+                                        </label>
+                                        <textarea
+                                          value={quoteDraft.message}
+                                          onChange={(event) =>
+                                            setQuoteDraft({ ...quoteDraft, message: event.target.value })
+                                          }
+                                          placeholder="Note to the customer"
+                                          rows={2}
+                                          className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                        />
+                                        <p className="text-xs text-white">Total {formatCurrency(quoteDraftTotal(quoteDraft))}</p>
+                                        <div className="flex gap-2">
+                                          <button
+                                            type="button"
+                                            onClick={submitQuote}
+                                            disabled={savingId === `${booking.id}:quote`}
+                                            className="rounded-md bg-amber-500 px-2 py-1 text-xs font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                                          >
+                                            {savingId === `${booking.id}:quote` ? "Sending..." : "Send quote"}
+                                          </button>
+                                          <button
+                                            type="button"
+                                            onClick={() => setQuoteDraft(null)}
+                                            className="rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                          >
+                                            Cancel
+                                          </button>
+                                        </div>
+                                      </div>
+                                    ) : (
+                                      <button
+                                        type="button"
+                                        onClick={() => openQuoteDraft(booking)}
+                                        className="mt-2 block rounded-md border border-white/20 px-2 py-1 text-xs font-normal text-white transition hover:bg-white/10"
+                                      >
+                                        {booking.quote ? "Revise quote" : "Build quote"}
+                                      </button>
+                                    )
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3">
+                                  <select
+                                    value={booking.status}
+                                    disabled={savingId === `${booking.id}:status`}
+                                    onChange={(event) =>
+                                      updateBookingStatus(booking.id, event.target.value as BookingStatus)
+                                    }
+                                    className="w-32 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                  >
+                                    {BOOKING_STATUSES.map((status) => (
+                                      <option key={status} value={status}>
+                                        {status}
+                                      </option>
+                                    ))}
+                                  </select>
+                                  {holdLapsed(booking) ? (
+                                    <p className="mt-1 text-[11px] text-neutral-400">
+                                      Vehicle released: checkout never opened
+                                    </p>
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3">
+                                  <p className="text-xs font-semibold text-white">{booking.paymentStatus}</p>
+
+                                  {booking.offlinePayment ? (
+                                    <p className="mt-1 max-w-[12rem] text-[11px] text-neutral-400">
+                                      Paid offline · {booking.offlinePayment.reason} · recorded by{" "}
+                                      {booking.offlinePayment.recordedBy}
+                                    </p>
+                                  ) : null}
+
+                                  {offlinePaymentDraft?.bookingId === booking.id ? (
+                                    <div className="mt-2 w-44 space-y-2">
+                                      <input
+                                        value={offlinePaymentDraft.reason}
+                                        onChange={(event) =>
+                                          setOfflinePaymentDraft({ ...offlinePaymentDraft, reason: event.target.value })
+                                        }
+                                        placeholder={
+                                          offlinePaymentDraft.action === "record" ? "Cash, check #, invoice..." : "Reason"
+                                        }
+                                        className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                      />
+                                      <input
+                                        value={offlinePaymentDraft.recordedBy}
+                                        onChange={(event) =>
+                                          setOfflinePaymentDraft({
+                                            ...offlinePaymentDraft,
+                                            recordedBy: event.target.value,
+                                          })
+                                        }
+                                        placeholder="Your name"
+                                        className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                      />
+                                      <div className="flex gap-2">
+                                        <button
+                                          type="button"
+                                          onClick={submitOfflinePayment}
+                                          disabled={savingId === `${booking.id}:payment`}
+                                          className="rounded-md bg-amber-500 px-2 py-1 text-xs font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                                        >
+                                          {savingId === `${booking.id}:payment`
+                                            ? "Saving..."
+                                            : offlinePaymentDraft.action === "record"
+                                              ? "Mark paid"
+                                              : "Undo"}
+                                        </button>
+                                        <button
+                                          type="button"
+                                          onClick={() => setOfflinePaymentDraft(null)}
+                                          className="rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                        >
+                                          Cancel
+                                        </button>
+                                      </div>
+                                    </div>
+                                  ) : (booking.offlinePayment && booking.paymentStatus === "paid") ||
+                                    (RESUMABLE_PAYMENT_STATUSES.includes(booking.paymentStatus) &&
+                                      !booking.groupParentBookingId &&
+                                      booking.status !== "cancelled") ? (
+                                    <button
+                                      type="button"
+                                      onClick={() =>
+                                        setOfflinePaymentDraft({
+                                          bookingId: booking.id,
+                                          action: booking.offlinePayment ? "undo" : "record",
+                                          reason: "",
+                                          recordedBy: "",
+                                        })
+                                      }
+                                      className="mt-2 block rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                    >
+                                      {booking.offlinePayment ? "Undo offline payment" : "Record offline payment"}
+                                    </button>
+                                  ) : null}
+
+                                  {booking.paymentStatus === "authorized" ? (
+                                    <p
+                                      className={`mt-1 max-w-[12rem] text-[11px] ${
+                                        holdExpiresSoon(booking) ? "text-rose-300" : "text-neutral-400"
+                                      }`}
+                                    >
+                                      Hold {formatCurrency(Number(booking.amountAuthorized ?? booking.amountDue ?? 0))}
+                                      {booking.authorizationExpiresAt
+                                        ? ` · expires ${new Date(booking.authorizationExpiresAt).toLocaleString()}`
+                                        : ""}
+                                    </p>
+                                  ) : null}
+
+                                  {booking.paymentStatus === "authorization_expired" ? (
+                                    <p className="mt-1 max-w-[12rem] text-[11px] text-rose-300">
+                                      Card hold expired. Collect payment again before confirming.
+                                    </p>
+                                  ) : null}
+
+                                  {RESUMABLE_PAYMENT_STATUSES.includes(booking.paymentStatus) &&
+                                  booking.status !== "cancelled" &&
+                                  booking.status !== "completed" &&
+                                  booking.status !== "quote_requested" ? (
+                                    <button
+                                      type="button"
+                                      onClick={() => copyPaymentLink(booking.id)}
+                                      className="mt-2 block rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                    >
+                                      {copiedPaymentLinkId === booking.id
+                                        ? "Link copied"
+                                        : booking.quote
+                                          ? "Copy quote link"
+                                          : "Copy payment link"}
+                                    </button>
+                                  ) : null}
+
+                                  {(booking.refunds ?? []).map((refund) => (
+                                    <p key={refund.id} className="mt-1 max-w-[12rem] text-[11px] text-neutral-400">
+                                      Refund {formatCurrency(refund.amount)} · {refund.status} · {refund.reason}
+                                    </p>
                                   ))}
-                                </select>
-                              </td>
-                              <td className="px-4 py-3 text-xs text-neutral-400">{formatDateTime(booking.createdAt)}</td>
-                            </tr>
+
+                                  {booking.stripePaymentIntentId &&
+                                  (booking.paymentStatus === "paid" || booking.paymentStatus === "partially_refunded") &&
+                                  refundableAmount(booking) > 0 ? (
+                                    refundDraft?.bookingId === booking.id ? (
+                                      <div className="mt-2 w-44 space-y-2">
+                                        <input
+                                          type="number"
+                                          min={0.01}
+                                          max={refundableAmount(booking)}
+                                          step="0.01"
+                                          value={refundDraft.amount}
+                                          onChange={(event) =>
+                                            setRefundDraft({
+                                              ...refundDraft,
+                                              amount: Number(event.target.value || 0),
+                                            })
+                                          }
+                                          className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                        />
+                                        <input
+                                          value={refundDraft.reason}
+                                          onChange={(event) =>
+                                            setRefundDraft({ ...refundDraft, reason: event.target.value })
+                                          }
+                                          placeholder="Reason"
+                                          className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                        />
+                                        <div className="flex gap-2">
+                                          <button
+                                            type="button"
+                                            onClick={submitRefund}
+                                            disabled={savingId === `${booking.id}:refund`}
+                                            className="rounded-md bg-amber-500 px-2 py-1 text-xs font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                                          >
+                                            {savingId === `${booking.id}:refund` ? "Refunding..." : "Refund"}
+                                          </button>
+                                          <button
+                                            type="button"
+                                            onClick={() => setRefundDraft(null)}
+                                            className="rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                          >
+                                            Cancel
+                                          </button>
+                                        </div>
+                                      </div>
+                                    ) : (
+                                      <button
+                                        type="button"
+                                        onClick={() =>
+                                          setRefundDraft({
+                                            bookingId: booking.id,
+                                            amount: refundableAmount(booking),
+                                            reason: "",
+                                          })
+                                        }
+                                        className="mt-2 rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                      >
+                                        Issue refund
+                                      </button>
+                                    )
+                                  ) : null}
+
+                                  {Object.values(booking.overtimeCharges ?? {})
+                                    .sort((first, second) => first.createdAt.localeCompare(second.createdAt))
+                                    .map((charge) => (
+                                      <div key={charge.id} className="mt-1 max-w-[12rem] text-[11px] text-neutral-400">
+                                        <p>
+                                          Overtime {charge.minutes} min · {formatCurrency(charge.amount)} · {charge.status}
+                                          {charge.reason ? ` · ${charge.reason}` : ""}
+                                        </p>
+                                        {charge.status === "open" && new Date(charge.expiresAt).getTime() > Date.now() ? (
+                                          <button
+                                            type="button"
+                                            onClick={() => copyOvertimeLink(booking.id, charge)}
+                                            className="mt-1 rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                          >
+                                            {copiedPaymentLinkId === `${booking.id}:${charge.id}`
+                                              ? "Link copied"
+                                              : "Copy overtime link"}
+                                          </button>
+                                        ) : null}
+                                      </div>
+                                    ))}
+
+                                  {booking.tripType === "hourly" &&
+                                  !booking.groupParentBookingId &&
+                                  ["pending", "confirmed", "completed"].includes(booking.status) ? (
+                                    overtimeDraft?.bookingId === booking.id ? (
+                                      <div className="mt-2 w-44 space-y-2">
+                                        <input
+                                          type="number"
+                                          min={1}
+                                          step="1"
+                                          value={overtimeDraft.minutes}
+                                          onChange={(event) =>
+                                            setOvertimeDraft({
+                                              ...overtimeDraft,
+                                              minutes: Number.parseInt(event.target.value || "0", 10),
+                                            })
+                                          }
+                                          placeholder="Minutes over"
+                                          className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                        />
+                                        <input
+                                          value={overtimeDraft.reason}
+                                          onChange={(event) =>
+                                            setOvertimeDraft({ ...overtimeDraft, reason: event.target.value })
+                                          }
+                                          placeholder="Note (optional)"
+                                          className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                        />
+                                        <div className="flex gap-2">
+                                          <button
+                                            type="button"
+                                            onClick={submitOvertime}
+                                            disabled={savingId === `${booking.id}:overtime`}
+                                            className="rounded-md bg-amber-500 px-2 py-1 text-xs font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                                          >
+                                            {savingId === `${booking.id}:overtime` ? "Creating..." : "Create link"}
+                                          </button>
+                                          <button
+                                            type="button"
+                                            onClick={() => setOvertimeDraft(null)}
+                                            className="rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                          >
+                                            Cancel
+                                          </button>
+                                        </div>
+                                      </div>
+                                    ) : (
+                                      <button
+                                        type="button"
+                                        onClick={() => setOvertimeDraft({ bookingId: booking.id, minutes: 30, reason: "" })}
+                                        className="mt-2 block rounded-md border border-white/20 px-2 py-1 text-xs text-white transition hover:bg-white/10"
+                                      >
+                                        Charge overtime
+                                      </button>
+                                    )
+                                  ) : null}
+                                </td>
+                                <td className="px-4 py-3 text-xs text-neutral-400">{formatDateTime(booking.createdAt)}</td>
+                              </tr>
+                              {groupUnitsByParent.get(booking.id)?.length ? (
+                                <tr className="bg-neutral-900/40">
+                                  <td className="px-4 py-3" colSpan={9}>
+                                    <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-neutral-400">
+                                      Vehicles for {booking.referenceCode ?? "this group"}
+                                    </p>
+                                    <div className="grid gap-2 md:grid-cols-2 xl:grid-cols-3">
+                                      {(groupUnitsByParent.get(booking.id) ?? []).map((unit) => (
+                                        <div
+                                          key={unit.id}
+                                          className="space-y-1.5 rounded-md border border-white/10 bg-neutral-950/70 px-3 py-2 text-xs"
+                                        >
+                                          <p className="font-semibold text-white">
+                                            Vehicle {unit.groupUnitIndex ?? "?"} of {unit.groupUnitCount ?? "?"} ·{" "}
+                                            {unit.vehicleName}
+                                          </p>
+                                          <p className="text-neutral-400">Payment: {unit.paymentStatus}</p>
+                                          <select
+                                            value={unit.status}
+                                            disabled={savingId === `${unit.id}:status`}
+                                            onChange={(event) =>
+                                              updateBookingStatus(unit.id, event.target.value as BookingStatus)
+                                            }
+                                            className="w-32 rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                          >
+                                            {BOOKING_STATUSES.map((status) => (
+                                              <option key={status} value={status}>
+                                                {status}
+                                              </option>
+                                            ))}
+                                          </select>
+                                          <input
+                                            key={`${unit.id}:${unit.assignment ?? ""}`}
+                                            defaultValue={unit.assignment ?? ""}
+                                            disabled={savingId === `${unit.id}:assignment`}
+                                            onBlur={(event) => {
+                                              if (event.target.value.trim() !== (unit.assignment ?? "")) {
+                                                updateAssignment(unit.id, event.target.value);
+                                              }
+                                            }}
+                                            placeholder="Driver / vehicle assignment"
+                                            className="w-full rounded-md border border-white/15 bg-neutral-950 px-2 py-1.5 text-xs text-white outline-none focus:border-amber-400"
+                                          />
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </td>
+                                </tr>
+                              ) : null}
+                            </Fragment>
                           ))
                         )}
                       </tbody>
@@ -929,8 +2711,8 @@ export default function AdminPage() {
                 <div className="rounded-xl border border-amber-500/25 bg-amber-500/10 p-3 text-sm text-amber-100">
                   <p className="font-semibold">Where to edit prices and photos</p>
                   <p className="mt-1">
-                    Use <span className="font-semibold">Base Fare (USD)</span> for pricing and <span className="font-semibold">Photo URL</span> for vehicle images.
-                    These values are used on both the Home fleet cards and the Booking vehicle selection.
+                    Use <span className="font-semibold">Base Fare (USD)</span> for point-to-point pricing, <span className="font-semibold">Hourly Rate</span> and <span className="font-semibold">Minimum Hours</span> for hourly service, and <span className="font-semibold">Photo URL</span> for vehicle images.
+                    These values are used on the Home fleet cards, the Booking vehicle selection and Stripe checkout pricing.
                   </p>
                 </div>
                 {hasFleetValidationErrors ? (
@@ -942,6 +2724,15 @@ export default function AdminPage() {
                     {invalidPhotoItems.length > 0 ? (
                       <p className="mt-1">Photo URL must be valid and loadable for: {invalidPhotoItems.map((item) => item.id).join(", ")}.</p>
                     ) : null}
+                    {invalidHourlyItems.length > 0 ? (
+                      <p className="mt-1">Hourly rate, minimum hours and overtime need fixing for: {invalidHourlyItems.map((item) => item.id).join(", ")}.</p>
+                    ) : null}
+                    {invalidCapacityItems.length > 0 ? (
+                      <p className="mt-1">Passenger and luggage capacity need fixing for: {invalidCapacityItems.map((item) => item.id).join(", ")}.</p>
+                    ) : null}
+                    {invalidInventoryItems.length > 0 ? (
+                      <p className="mt-1">Units and typical trip length need fixing for: {invalidInventoryItems.map((item) => item.id).join(", ")}.</p>
+                    ) : null}
                   </div>
                 ) : null}
                 {contentDraft.fleet.map((item, index) => {
@@ -949,7 +2740,12 @@ export default function AdminPage() {
                   const photoValue = (item.image ?? "").trim();
                   const hasInvalidPhoto =
                     !photoValue || !isValidHttpUrl(photoValue) || Boolean(imageLoadErrors[item.id]);
-                  const isItemValid = !hasInvalidPrice && !hasInvalidPhoto;
+                  const hourlyProblem = hourlyIssue(item);
+                  const hasInvalidHourly = hourlyProblem !== null;
+                  const hasInvalidCapacity = !(Number(item.maxPassengers) >= 1) || !(Number(item.maxLuggage) >= 0);
+                  const hasInvalidInventory = inventoryIssue(item) !== null;
+                  const isItemValid =
+                    !hasInvalidPrice && !hasInvalidPhoto && !hasInvalidHourly && !hasInvalidCapacity && !hasInvalidInventory;
 
                   return (
                     <article key={item.id} className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
@@ -971,26 +2767,112 @@ export default function AdminPage() {
 
                       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
                         <input
-                          value={item.name}
-                          onChange={(event) => updateFleetField(index, "name", event.target.value)}
-                          placeholder="Vehicle name"
+                          value={item.name}
+                          onChange={(event) => updateFleetField(index, "name", event.target.value)}
+                          placeholder="Vehicle name"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          value={item.type}
+                          onChange={(event) => updateFleetField(index, "type", event.target.value)}
+                          placeholder="Vehicle class"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.baseFare}
+                          onChange={(event) =>
+                            updateFleetField(index, "baseFare", Number(event.target.value || 0))
+                          }
+                          placeholder="Base Fare (USD)"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.hourlyRate}
+                          onChange={(event) =>
+                            updateFleetField(index, "hourlyRate", Number(event.target.value || 0))
+                          }
+                          placeholder="Hourly Rate (USD)"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          step="0.5"
+                          value={item.minimumHours}
+                          onChange={(event) =>
+                            updateFleetField(index, "minimumHours", Number(event.target.value || 0))
+                          }
+                          placeholder="Minimum Hours"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={item.overtimeRate}
+                          onChange={(event) =>
+                            updateFleetField(index, "overtimeRate", Number(event.target.value || 0))
+                          }
+                          placeholder="Overtime Rate (USD/h)"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          step="1"
+                          value={item.overtimeIncrementMinutes}
+                          onChange={(event) =>
+                            updateFleetField(index, "overtimeIncrementMinutes", Number(event.target.value || 0))
+                          }
+                          placeholder="Overtime increment (minutes)"
                           className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
                         />
                         <input
-                          value={item.type}
-                          onChange={(event) => updateFleetField(index, "type", event.target.value)}
-                          placeholder="Vehicle class"
+                          type="number"
+                          min={1}
+                          step="1"
+                          value={item.maxPassengers}
+                          onChange={(event) =>
+                            updateFleetField(index, "maxPassengers", Number(event.target.value || 0))
+                          }
+                          placeholder="Max Passengers"
                           className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
                         />
                         <input
                           type="number"
                           min={0}
-                          step="0.01"
-                          value={item.baseFare}
+                          step="1"
+                          value={item.maxLuggage}
                           onChange={(event) =>
-                            updateFleetField(index, "baseFare", Number(event.target.value || 0))
+                            updateFleetField(index, "maxLuggage", Number(event.target.value || 0))
                           }
-                          placeholder="Base Fare (USD)"
+                          placeholder="Max Suitcases"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="1"
+                          value={item.units}
+                          onChange={(event) => updateFleetField(index, "units", Number(event.target.value || 0))}
+                          placeholder="Units in fleet"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={15}
+                          step="15"
+                          value={item.typicalTripMinutes}
+                          onChange={(event) =>
+                            updateFleetField(index, "typicalTripMinutes", Number(event.target.value || 0))
+                          }
+                          placeholder="Typical trip (minutes)"
                           className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
                         />
                         <input
@@ -1013,9 +2895,11 @@ export default function AdminPage() {
                         />
                       </div>
 
-                      {(hasInvalidPrice || hasInvalidPhoto) ? (
+                      {(hasInvalidPrice || hasInvalidPhoto || hasInvalidHourly || hasInvalidCapacity) ? (
                         <div className="mt-3 rounded-lg border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
                           {hasInvalidPrice ? <p>Base Fare must be greater than $0.</p> : null}
+                          {hasInvalidHourly ? <p>{hourlyProblem}</p> : null}
+                          {hasInvalidCapacity ? <p>Max Passengers must be at least 1 and Max Suitcases 0 or more.</p> : null}
                           {hasInvalidPhoto ? (
                             <p>Photo URL must be a valid and loadable http/https image link.</p>
                           ) : null}
@@ -1057,6 +2941,23 @@ export default function AdminPage() {
                             <span className="font-semibold text-white">Current Price:</span>{" "}
                             {formatCurrency(Number(item.baseFare || 0))}
                           </p>
+                          <p>
+                            <span className="font-semibold text-white">Hourly:</span>{" "}
+                            {formatCurrency(Number(item.hourlyRate || 0))}/h · {item.minimumHours || 0} h minimum
+                          </p>
+                          <p>
+                            <span className="font-semibold text-white">Overtime:</span>{" "}
+                            {formatCurrency(Number(item.overtimeRate || 0))}/h in {item.overtimeIncrementMinutes || 0}-minute
+                            increments
+                          </p>
+                          <p>
+                            <span className="font-semibold text-white">Capacity:</span> {item.maxPassengers || 0}{" "}
+                            passengers · {item.maxLuggage || 0} suitcases
+                          </p>
+                          <p>
+                            <span className="font-semibold text-white">Inventory:</span> {item.units || 0} units ·{" "}
+                            {item.typicalTripMinutes || 0} min typical trip
+                          </p>
                           <p className="mt-1 break-all">
                             <span className="font-semibold text-white">Current Photo URL:</span>{" "}
                             {item.image || "—"}
@@ -1084,6 +2985,785 @@ export default function AdminPage() {
               </div>
             ) : null}
 
+            {activeSection === "rules" ? (
+              <section className="space-y-4">
+                <h2 className="text-2xl font-bold">Booking Rules</h2>
+                <p className="text-sm text-neutral-400">
+                  Limits on when customers can book online. The booking form, the booking API and the virtual
+                  concierge all apply the same rules; dispatch can still book anything by phone.
+                </p>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={saveBookingRules}
+                    disabled={rulesSaving || bookingRulesIssue(rulesDraft) !== null}
+                    className="rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {rulesSaving
+                      ? "Saving..."
+                      : bookingRulesIssue(rulesDraft) !== null
+                        ? "Fix validation errors to save"
+                        : "Save booking rules"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRulesDraft(defaultBookingRules)}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10"
+                  >
+                    Reset to defaults
+                  </button>
+                </div>
+
+                {bookingRulesIssue(rulesDraft) ? (
+                  <p className="rounded-lg border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+                    {bookingRulesIssue(rulesDraft)}
+                  </p>
+                ) : null}
+
+                <article className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                  <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-amber-400">Timing</p>
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                    <label className="space-y-1 text-xs text-neutral-400">
+                      <span>Default minimum notice (hours)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.5"
+                        value={rulesDraft.defaultMinNoticeHours}
+                        onChange={(event) =>
+                          setRulesDraft((previous) => ({
+                            ...previous,
+                            defaultMinNoticeHours: Number(event.target.value || 0),
+                          }))
+                        }
+                        className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </label>
+                    <label className="space-y-1 text-xs text-neutral-400">
+                      <span>Bookings open (days ahead)</span>
+                      <input
+                        type="number"
+                        min={1}
+                        step="1"
+                        value={rulesDraft.maxAdvanceDays}
+                        onChange={(event) =>
+                          setRulesDraft((previous) => ({ ...previous, maxAdvanceDays: Number(event.target.value || 0) }))
+                        }
+                        className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </label>
+                    <label className="space-y-1 text-xs text-neutral-400">
+                      <span>Pickups from</span>
+                      <input
+                        type="time"
+                        value={rulesDraft.openTime}
+                        onChange={(event) => setRulesDraft((previous) => ({ ...previous, openTime: event.target.value }))}
+                        className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </label>
+                    <label className="space-y-1 text-xs text-neutral-400">
+                      <span>Pickups until</span>
+                      <input
+                        type="time"
+                        value={rulesDraft.closeTime}
+                        onChange={(event) =>
+                          setRulesDraft((previous) => ({ ...previous, closeTime: event.target.value }))
+                        }
+                        className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </label>
+                  </div>
+                  <p className="mt-2 text-xs text-neutral-500">
+                    Use the same time for both to take pickups around the clock. A closing time earlier than the opening
+                    time runs past midnight.
+                  </p>
+                </article>
+
+                <article className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                  <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-amber-400">
+                    Minimum notice by vehicle (hours)
+                  </p>
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    {contentDraft.fleet.map((vehicle) => (
+                      <label key={vehicle.id} className="space-y-1 text-xs text-neutral-400">
+                        <span>{vehicle.name}</span>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.5"
+                          value={minNoticeHoursFor(rulesDraft, vehicle.id)}
+                          onChange={(event) =>
+                            setRulesDraft((previous) => ({
+                              ...previous,
+                              minNoticeHours: {
+                                ...previous.minNoticeHours,
+                                [vehicle.id]: Number(event.target.value || 0),
+                              },
+                            }))
+                          }
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </article>
+
+                <article className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                  <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-amber-400">Blackout dates</p>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setRulesDraft((previous) => ({
+                          ...previous,
+                          blackoutDates: [...previous.blackoutDates, { date: "", label: "" }],
+                        }))
+                      }
+                      className="rounded-lg border border-white/20 px-3 py-1 text-xs text-white transition hover:bg-white/10"
+                    >
+                      Add date
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {rulesDraft.blackoutDates.map((blackout, index) => (
+                      <div key={index} className="grid gap-2 sm:grid-cols-[12rem_1fr_auto]">
+                        <input
+                          type="date"
+                          value={blackout.date}
+                          onChange={(event) => updateBlackoutDate(index, { date: event.target.value })}
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          value={blackout.label}
+                          onChange={(event) => updateBlackoutDate(index, { label: event.target.value })}
+                          placeholder="Reason shown to customers (e.g. Bills home playoff game)"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setRulesDraft((previous) => ({
+                              ...previous,
+                              blackoutDates: previous.blackoutDates.filter((_, blackoutIndex) => blackoutIndex !== index),
+                            }))
+                          }
+                          className="rounded-lg border border-white/20 px-3 py-1 text-xs text-white transition hover:bg-white/10"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                    {rulesDraft.blackoutDates.length === 0 ? (
+                      <p className="text-sm text-neutral-400">No blackout dates.</p>
+                    ) : null}
+                  </div>
+                </article>
+              </section>
+            ) : null}
+
+            {activeSection === "places" ? (
+              <section className="space-y-4">
+                <h2 className="text-2xl font-bold">Places</h2>
+                <p className="text-sm text-neutral-400">
+                  Airports, hotels, venues and stadiums suggested as customers type a pickup or drop-off. A picked place
+                  is saved on the booking with its coordinates next to the typed address. Include the ZIP code in the
+                  street address so zone pricing recognises it.
+                </p>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={saveGazetteer}
+                    disabled={gazetteerSaving || gazetteerDraft.places.some((place) => placeIssue(place) !== null)}
+                    className="rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {gazetteerSaving
+                      ? "Saving..."
+                      : gazetteerDraft.places.some((place) => placeIssue(place) !== null)
+                        ? "Fix validation errors to save"
+                        : "Save places"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={addPlace}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10"
+                  >
+                    Add place
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setGazetteerDraft(defaultGazetteer)}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10"
+                  >
+                    Reset to defaults
+                  </button>
+                </div>
+
+                {gazetteerDraft.places.map((place, index) => {
+                  const issue = placeIssue(place);
+
+                  return (
+                    <article key={place.id} className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-amber-400">{place.id}</p>
+                        <div className="flex items-center gap-3">
+                          <label className="inline-flex items-center gap-2 text-xs text-neutral-300">
+                            <input
+                              type="checkbox"
+                              checked={place.active}
+                              onChange={(event) => updatePlace(index, { active: event.target.checked })}
+                            />
+                            Active
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => removePlace(index)}
+                            className="rounded-lg border border-white/20 px-3 py-1 text-xs text-white transition hover:bg-white/10"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="grid gap-3 sm:grid-cols-3">
+                        <input
+                          value={place.name}
+                          onChange={(event) => updatePlace(index, { name: event.target.value })}
+                          placeholder="Name shown to customers"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400 sm:col-span-2"
+                        />
+                        <select
+                          value={place.category}
+                          onChange={(event) => updatePlace(index, { category: event.target.value as PlaceCategory })}
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        >
+                          {(Object.keys(PLACE_CATEGORY_LABELS) as PlaceCategory[]).map((category) => (
+                            <option key={category} value={category}>
+                              {PLACE_CATEGORY_LABELS[category]}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          value={place.address}
+                          onChange={(event) => updatePlace(index, { address: event.target.value })}
+                          placeholder="Street address with ZIP code"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400 sm:col-span-2"
+                        />
+                        <input
+                          value={place.city}
+                          onChange={(event) => updatePlace(index, { city: event.target.value })}
+                          placeholder="City"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          step="0.0001"
+                          value={place.point.lat}
+                          onChange={(event) =>
+                            updatePlace(index, { point: { ...place.point, lat: Number(event.target.value || 0) } })
+                          }
+                          placeholder="Latitude"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          step="0.0001"
+                          value={place.point.lng}
+                          onChange={(event) =>
+                            updatePlace(index, { point: { ...place.point, lng: Number(event.target.value || 0) } })
+                          }
+                          placeholder="Longitude"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          value={place.aliases.join(",")}
+                          onChange={(event) => updatePlace(index, { aliases: splitList(event.target.value) })}
+                          placeholder="Other names customers type, comma separated"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                      </div>
+
+                      {issue ? (
+                        <p className="mt-3 rounded-lg border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+                          {issue}
+                        </p>
+                      ) : null}
+                    </article>
+                  );
+                })}
+
+                {gazetteerDraft.places.length === 0 ? (
+                  <p className="text-sm text-neutral-400">No places. Address inputs work as plain text.</p>
+                ) : null}
+              </section>
+            ) : null}
+
+            {activeSection === "surcharges" ? (
+              <section className="space-y-4">
+                <h2 className="text-2xl font-bold">Surcharges</h2>
+                <p className="text-sm text-neutral-400">
+                  Rules are evaluated against the pickup date, pickup time and addresses. Each applied rule appears as
+                  its own line in the Rental Summary and in Stripe checkout.
+                </p>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={savePricingDraft}
+                    disabled={pricingSaving || invalidSurchargeRules.length > 0 || invalidAddOns.length > 0}
+                    className="rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {pricingSaving
+                      ? "Saving..."
+                      : invalidSurchargeRules.length > 0 || invalidAddOns.length > 0
+                        ? "Fix validation errors to save"
+                        : "Save surcharges"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={addSurchargeRule}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10"
+                  >
+                    Add rule
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPricingDraft(defaultPricingConfig)}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10"
+                  >
+                    Reset to defaults
+                  </button>
+                </div>
+
+                {pricingDraft.surchargeRules.map((rule, index) => {
+                  const issue = surchargeRuleIssue(rule);
+
+                  return (
+                    <article key={rule.id} className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-amber-400">{rule.id}</p>
+                        <div className="flex items-center gap-3">
+                          <label className="inline-flex items-center gap-2 text-xs text-neutral-300">
+                            <input
+                              type="checkbox"
+                              checked={rule.enabled}
+                              onChange={(event) => updateSurchargeRule(index, { enabled: event.target.checked })}
+                            />
+                            Enabled
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => removeSurchargeRule(index)}
+                            className="rounded-lg border border-white/20 px-3 py-1 text-xs text-white transition hover:bg-white/10"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+                        <input
+                          value={rule.label}
+                          onChange={(event) => updateSurchargeRule(index, { label: event.target.value })}
+                          placeholder="Label shown to customers"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <select
+                          value={rule.kind}
+                          onChange={(event) =>
+                            updateSurchargeRule(index, { kind: event.target.value as SurchargeRuleKind })
+                          }
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        >
+                          {SURCHARGE_KINDS.map((kind) => (
+                            <option key={kind} value={kind}>
+                              {SURCHARGE_KIND_LABELS[kind]}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          value={rule.amountType}
+                          onChange={(event) =>
+                            updateSurchargeRule(index, {
+                              amountType: event.target.value as SurchargeRule["amountType"],
+                            })
+                          }
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        >
+                          <option value="fixed">Fixed (USD)</option>
+                          <option value="percent">Percent of fare</option>
+                        </select>
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={rule.amount}
+                          onChange={(event) =>
+                            updateSurchargeRule(index, { amount: Math.max(0, Number(event.target.value || 0)) })
+                          }
+                          placeholder="Amount"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                      </div>
+
+                      <div className="mt-3">
+                        {rule.kind === "late-night" ? (
+                          <div className="grid gap-3 sm:grid-cols-2">
+                            <label className="space-y-1 text-xs text-neutral-400">
+                              <span>Starts at</span>
+                              <input
+                                type="time"
+                                value={rule.startTime}
+                                onChange={(event) => updateSurchargeRule(index, { startTime: event.target.value })}
+                                className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                              />
+                            </label>
+                            <label className="space-y-1 text-xs text-neutral-400">
+                              <span>Ends at</span>
+                              <input
+                                type="time"
+                                value={rule.endTime}
+                                onChange={(event) => updateSurchargeRule(index, { endTime: event.target.value })}
+                                className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                              />
+                            </label>
+                          </div>
+                        ) : null}
+
+                        {rule.kind === "holiday" ? (
+                          <input
+                            value={rule.dates.join(",")}
+                            onChange={(event) => updateSurchargeRule(index, { dates: splitList(event.target.value) })}
+                            placeholder="Dates: MM-DD every year or YYYY-MM-DD once, comma separated"
+                            className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                          />
+                        ) : null}
+
+                        {rule.kind === "airport" ? (
+                          <div className="flex flex-wrap gap-4">
+                            {AIRPORT_ZONES.map((zone) => (
+                              <label key={zone.id} className="inline-flex items-center gap-2 text-xs text-neutral-300">
+                                <input
+                                  type="checkbox"
+                                  checked={rule.zoneIds.includes(zone.id)}
+                                  onChange={(event) =>
+                                    updateSurchargeRule(index, {
+                                      zoneIds: event.target.checked
+                                        ? [...rule.zoneIds, zone.id]
+                                        : rule.zoneIds.filter((zoneId) => zoneId !== zone.id),
+                                    })
+                                  }
+                                />
+                                {zone.name}
+                              </label>
+                            ))}
+                          </div>
+                        ) : null}
+
+                        {rule.kind === "toll" ? (
+                          <input
+                            value={rule.keywords.join(",")}
+                            onChange={(event) =>
+                              updateSurchargeRule(index, { keywords: splitList(event.target.value) })
+                            }
+                            placeholder="Address keywords that trigger the toll, comma separated"
+                            className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                          />
+                        ) : null}
+                      </div>
+
+                      {issue ? (
+                        <p className="mt-3 rounded-lg border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+                          {issue}
+                        </p>
+                      ) : null}
+                    </article>
+                  );
+                })}
+
+                {pricingDraft.surchargeRules.length === 0 ? (
+                  <p className="text-sm text-neutral-400">No surcharge rules. Fares are base and mileage only.</p>
+                ) : null}
+              </section>
+            ) : null}
+
+            {activeSection === "addons" ? (
+              <section className="space-y-4">
+                <h2 className="text-2xl font-bold">Add-ons</h2>
+                <p className="text-sm text-neutral-400">
+                  Extras customers can add on step 2. Leave every vehicle unchecked to offer an add-on with the whole
+                  fleet. Each selected add-on is its own line in the Rental Summary and in Stripe checkout.
+                </p>
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={savePricingDraft}
+                    disabled={pricingSaving || invalidSurchargeRules.length > 0 || invalidAddOns.length > 0}
+                    className="rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {pricingSaving
+                      ? "Saving..."
+                      : invalidSurchargeRules.length > 0 || invalidAddOns.length > 0
+                        ? "Fix validation errors to save"
+                        : "Save add-ons"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={addAddOn}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10"
+                  >
+                    Add add-on
+                  </button>
+                </div>
+
+                {pricingDraft.addOns.map((addOn, index) => {
+                  const issue = addOnIssue(addOn);
+
+                  return (
+                    <article key={addOn.id} className="rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                      <div className="mb-3 flex flex-wrap items-center justify-between gap-3">
+                        <p className="text-xs font-semibold uppercase tracking-wide text-amber-400">{addOn.id}</p>
+                        <div className="flex items-center gap-3">
+                          <label className="inline-flex items-center gap-2 text-xs text-neutral-300">
+                            <input
+                              type="checkbox"
+                              checked={addOn.active}
+                              onChange={(event) => updateAddOn(index, { active: event.target.checked })}
+                            />
+                            Active
+                          </label>
+                          <button
+                            type="button"
+                            onClick={() => removeAddOn(index)}
+                            className="rounded-lg border border-white/20 px-3 py-1 text-xs text-white transition hover:bg-white/10"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="grid gap-3 sm:grid-cols-3">
+                        <input
+                          value={addOn.name}
+                          onChange={(event) => updateAddOn(index, { name: event.target.value })}
+                          placeholder="Name shown to customers"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={addOn.price}
+                          onChange={(event) => updateAddOn(index, { price: Math.max(0, Number(event.target.value || 0)) })}
+                          placeholder="Price (USD)"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          step="1"
+                          value={addOn.maxQuantity}
+                          onChange={(event) =>
+                            updateAddOn(index, { maxQuantity: Math.max(0, Number(event.target.value || 0)) })
+                          }
+                          placeholder="Max quantity"
+                          className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                        />
+                      </div>
+
+                      <div className="mt-3 flex flex-wrap gap-4">
+                        {contentDraft.fleet.map((vehicle) => (
+                          <label key={vehicle.id} className="inline-flex items-center gap-2 text-xs text-neutral-300">
+                            <input
+                              type="checkbox"
+                              checked={addOn.vehicleIds.includes(vehicle.id)}
+                              onChange={(event) =>
+                                updateAddOn(index, {
+                                  vehicleIds: event.target.checked
+                                    ? [...addOn.vehicleIds, vehicle.id]
+                                    : addOn.vehicleIds.filter((vehicleId) => vehicleId !== vehicle.id),
+                                })
+                              }
+                            />
+                            {vehicle.name}
+                          </label>
+                        ))}
+                      </div>
+
+                      {issue ? (
+                        <p className="mt-3 rounded-lg border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200">
+                          {issue}
+                        </p>
+                      ) : null}
+                    </article>
+                  );
+                })}
+
+                {pricingDraft.addOns.length === 0 ? (
+                  <p className="text-sm text-neutral-400">No add-ons. The booking form hides the add-on picker.</p>
+                ) : null}
+              </section>
+            ) : null}
+
+            {activeSection === "promos" ? (
+              <section className="space-y-4">
+                <h2 className="text-2xl font-bold">Promo Codes</h2>
+                <p className="text-sm text-neutral-400">
+                  Codes are checked at checkout on the server. Redemptions count when a checkout session is created.
+                </p>
+
+                <article className="space-y-3 rounded-2xl border border-white/10 bg-neutral-950/70 p-4">
+                  <p className="text-xs font-semibold uppercase tracking-wide text-amber-400">New code</p>
+                  <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                    <input
+                      value={promoDraft.code}
+                      onChange={(event) => setPromoDraft((previous) => ({ ...previous, code: event.target.value }))}
+                      placeholder="Code (e.g. WEDDING25)"
+                      className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm uppercase text-white outline-none placeholder:normal-case focus:border-amber-400"
+                    />
+                    <select
+                      value={promoDraft.discountType}
+                      onChange={(event) =>
+                        setPromoDraft((previous) => ({
+                          ...previous,
+                          discountType: event.target.value as PromoDiscountType,
+                        }))
+                      }
+                      className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                    >
+                      <option value="percent">Percent off</option>
+                      <option value="fixed">Fixed amount (USD)</option>
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={promoDraft.amount}
+                      onChange={(event) =>
+                        setPromoDraft((previous) => ({ ...previous, amount: Number(event.target.value || 0) }))
+                      }
+                      placeholder="Discount"
+                      className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                    />
+                    <label className="space-y-1 text-xs text-neutral-400">
+                      <span>Expires after (optional)</span>
+                      <input
+                        type="date"
+                        value={promoDraft.expiresOn}
+                        onChange={(event) =>
+                          setPromoDraft((previous) => ({ ...previous, expiresOn: event.target.value }))
+                        }
+                        className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </label>
+                    <label className="space-y-1 text-xs text-neutral-400">
+                      <span>Usage cap (0 = unlimited)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step={1}
+                        value={promoDraft.maxRedemptions}
+                        onChange={(event) =>
+                          setPromoDraft((previous) => ({
+                            ...previous,
+                            maxRedemptions: Number(event.target.value || 0),
+                          }))
+                        }
+                        className="w-full rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </label>
+                    <input
+                      value={promoDraft.description}
+                      onChange={(event) =>
+                        setPromoDraft((previous) => ({ ...previous, description: event.target.value }))
+                      }
+                      placeholder="Internal note"
+                      className="w-full self-end rounded-lg border border-white/15 bg-neutral-900 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-4">
+                    <p className="text-xs text-neutral-400">Limit to vehicles (none = all):</p>
+                    {contentDraft.fleet.map((vehicle) => (
+                      <label key={vehicle.id} className="inline-flex items-center gap-2 text-xs text-neutral-300">
+                        <input
+                          type="checkbox"
+                          checked={promoDraft.vehicleIds.includes(vehicle.id)}
+                          onChange={(event) =>
+                            setPromoDraft((previous) => ({
+                              ...previous,
+                              vehicleIds: event.target.checked
+                                ? [...previous.vehicleIds, vehicle.id]
+                                : previous.vehicleIds.filter((vehicleId) => vehicleId !== vehicle.id),
+                            }))
+                          }
+                        />
+                        {vehicle.name}
+                      </label>
+                    ))}
+                  </div>
+                  <button
+                    type="button"
+                    onClick={createPromoCode}
+                    disabled={Boolean(promoSavingCode)}
+                    className="rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Create code
+                  </button>
+                </article>
+
+                {promoCodes.length === 0 ? (
+                  <p className="text-sm text-neutral-400">No promo codes yet.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {promoCodes.map((promo) => (
+                      <article
+                        key={promo.code}
+                        className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-white/10 bg-neutral-950/70 px-3 py-2"
+                      >
+                        <div>
+                          <p className="text-sm font-semibold text-white">
+                            {promo.code}{" "}
+                            <span className="font-normal text-neutral-400">
+                              {promo.discountType === "percent"
+                                ? `${promo.amount}% off`
+                                : `${formatCurrency(promo.amount)} off`}
+                            </span>
+                          </p>
+                          <p className="text-xs text-neutral-400">
+                            Used {promo.redemptionCount}
+                            {promo.maxRedemptions > 0 ? ` / ${promo.maxRedemptions}` : ""} • Expires{" "}
+                            {promo.expiresOn || "never"} •{" "}
+                            {promo.vehicleIds.length > 0 ? promo.vehicleIds.join(", ") : "all vehicles"}
+                            {promo.description ? ` • ${promo.description}` : ""}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            type="button"
+                            onClick={() => setPromoCodeActive(promo.code, !promo.active)}
+                            disabled={promoSavingCode === promo.code}
+                            className="rounded-lg border border-white/20 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            {promo.active ? "Deactivate" : "Activate"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => deletePromoCode(promo.code)}
+                            disabled={promoSavingCode === promo.code}
+                            className="rounded-lg border border-rose-500/40 px-3 py-1.5 text-xs font-semibold text-rose-200 transition hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </article>
+                    ))}
+                  </div>
+                )}
+              </section>
+            ) : null}
+
             {activeSection === "versions" ? (
               <section className="space-y-4">
                 <h2 className="text-2xl font-bold">Versions</h2>
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { AirportPickup } from "@/lib/airports";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { getFlightStatusProvider } from "@/lib/flight-status";
+
+// Looks up the booking's inbound flight and stores the result so every dispatcher sees it.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const provider = getFlightStatusProvider();
+
+    if (!provider) {
+      return NextResponse.json(
+        { error: "Flight status is not configured. Set FLIGHT_STATUS_PROVIDER to a registered provider." },
+        { status: 500 },
+      );
+    }
+
+    const { bookingId } = await params;
+    const bookingRef = requireAdminDb().collection("bookings").doc(bookingId);
+    const bookingSnapshot = await bookingRef.get();
+
+    if (!bookingSnapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    }
+
+    const booking = bookingSnapshot.data() ?? {};
+    const airportPickup = booking.airportPickup as AirportPickup | null | undefined;
+
+    if (!airportPickup) {
+      return NextResponse.json({ error: "This booking is not an airport pickup." }, { status: 400 });
+    }
+
+    const flightStatus = await provider.lookup({
+      airportCode: airportPickup.airportCode,
+      flightNumber: airportPickup.flightNumber,
+      serviceDate: booking.serviceDate ?? "",
+      pickupTime: booking.pickupTime ?? "",
+    });
+
+    await bookingRef.update({ flightStatus });
+
+    return NextResponse.json({ flightStatus });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to check flight status." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { OvertimeCharge } from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { GROUP_VEHICLE_ID } from "@/lib/group-bookings";
+import { fetchGroupUnits } from "@/lib/group-bookings-server";
+import { fetchLiveSiteContent } from "@/lib/live-site-content";
+import { OvertimeTerms, overtimeFare, roundCurrency, vehicleOvertimeTerms } from "@/lib/pricing";
+import { requireStripe, stripeConfigError } from "@/lib/stripe-server";
+
+const MAX_OVERTIME_MINUTES = 12 * 60;
+const MAX_REASON_LENGTH = 300;
+const CHARGEABLE_STATUSES = ["pending", "confirmed", "completed"];
+
+type OvertimeBody = {
+  minutes?: number;
+  reason?: string;
+};
+
+type OvertimeVehicle = {
+  vehicleName: string;
+  terms: OvertimeTerms | null;
+};
+
+// Opens a Stripe Checkout link for time past the booked hours on an hourly ride, at the overtime
+// terms stored when the ride was booked. A group booking is charged once for all its vehicles.
+// The link is copied from /admin and sent to the customer; the webhook marks the charge paid.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    if (stripeConfigError) {
+      return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+    }
+
+    const { bookingId } = await params;
+    const body = (await request.json()) as OvertimeBody;
+    const minutes = Number(body.minutes);
+    const reason = (body.reason ?? "").trim();
+
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_OVERTIME_MINUTES) {
+      return NextResponse.json(
+        { error: `Overtime must be a whole number of minutes up to ${MAX_OVERTIME_MINUTES}.` },
+        { status: 400 },
+      );
+    }
+
+    if (reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `The note must be ${MAX_REASON_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    const bookingRef = requireAdminDb().collection("bookings").doc(bookingId);
+    const bookingSnapshot = await bookingRef.get();
+
+    if (!bookingSnapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    }
+
+    const booking = bookingSnapshot.data() ?? {};
+
+    if (booking.tripType !== "hourly") {
+      return NextResponse.json({ error: "Overtime can only be charged on hourly bookings." }, { status: 400 });
+    }
+
+    if (booking.groupParentBookingId) {
+      return NextResponse.json({ error: "Charge overtime on the group booking." }, { status: 400 });
+    }
+
+    if (!CHARGEABLE_STATUSES.includes(booking.status)) {
+      return NextResponse.json({ error: "Overtime can only be charged on booked rides." }, { status: 409 });
+    }
+
+    const charges = Object.values((booking.overtimeCharges ?? {}) as Record<string, OvertimeCharge>);
+    const openCharge = charges.find(
+      (charge) => charge.status === "open" && new Date(charge.expiresAt).getTime() > Date.now(),
+    );
+
+    if (openCharge) {
+      return NextResponse.json(
+        { error: "This booking already has an open overtime link. Wait for it to be paid or to expire." },
+        { status: 409 },
+      );
+    }
+
+    // Bookings made before overtime terms were stored fall back to the vehicle's current terms.
+    const fleet = (await fetchLiveSiteContent()).fleet;
+    const termsFor = (vehicleId: string, stored: OvertimeTerms | null | undefined) => {
+      const vehicle = fleet.find((item) => item.id === vehicleId);
+      return stored ?? (vehicle ? vehicleOvertimeTerms(vehicle) : null);
+    };
+    const vehicles: OvertimeVehicle[] =
+      booking.vehicleId === GROUP_VEHICLE_ID
+        ? (await fetchGroupUnits(bookingId))
+            .filter((unit) => unit.get("status") !== "cancelled")
+            .map((unit) => ({
+              vehicleName: unit.get("vehicleName") ?? "Vehicle",
+              terms: termsFor(unit.get("vehicleId"), unit.get("overtimeTerms")),
+            }))
+        : [{ vehicleName: booking.vehicleName ?? "Vehicle", terms: termsFor(booking.vehicleId, booking.overtimeTerms) }];
+
+    if (!vehicles.length || vehicles.some((vehicle) => !vehicle.terms)) {
+      return NextResponse.json(
+        { error: "The overtime rate for this booking's vehicle could not be found." },
+        { status: 400 },
+      );
+    }
+
+    const lineItems: Stripe.Checkout.SessionCreateParams.LineItem[] = vehicles.map(({ vehicleName, terms }) => {
+      const fare = overtimeFare(terms!, minutes);
+
+      return {
+        quantity: 1,
+        price_data: {
+          currency: "usd",
+          unit_amount: Math.round(fare.amount * 100),
+          product_data: {
+            name: `Overtime · ${vehicleName} · ${fare.billedMinutes} min`,
+            description: `$${terms!.rate.toFixed(2)}/h in ${terms!.incrementMinutes}-minute increments`,
+          },
+        },
+      };
+    });
+    const amount = roundCurrency(
+      lineItems.reduce((total, item) => total + Number(item.price_data?.unit_amount ?? 0), 0) / 100,
+    );
+
+    // Numbered per booking, so a double submit reuses the same key and gets the same session.
+    const chargeId = `overtime-${charges.length + 1}`;
+    const metadata = { overtimeForBookingId: bookingId, overtimeChargeId: chargeId };
+    const referenceCode = encodeURIComponent(booking.referenceCode ?? "");
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? new URL(request.url).origin;
+    const session = await requireStripe().checkout.sessions.create(
+      {
+        mode: "payment",
+        success_url: `${appUrl}/booking/manage?ref=${referenceCode}`,
+        cancel_url: `${appUrl}/booking/manage?ref=${referenceCode}`,
+        customer_email: booking.customerEmail || undefined,
+        line_items: lineItems,
+        // Not `bookingId`, so the booking's own payment events never pick this charge up.
+        payment_intent_data: { metadata },
+        metadata,
+      },
+      { idempotencyKey: `booking-${bookingId}-${chargeId}-${minutes}` },
+    );
+
+    if (!session.url) {
+      return NextResponse.json({ error: "Stripe did not return a checkout URL." }, { status: 500 });
+    }
+
+    const overtimeCharge: OvertimeCharge = {
+      id: chargeId,
+      minutes,
+      amount,
+      reason,
+      status: "open",
+      checkoutUrl: session.url,
+      checkoutSessionId: session.id,
+      createdAt: new Date().toISOString(),
+      expiresAt: new Date(session.expires_at * 1000).toISOString(),
+      paidAt: null,
+    };
+
+    await bookingRef.update({ [`overtimeCharges.${chargeId}`]: overtimeCharge });
+
+    return NextResponse.json({ overtimeCharge });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to charge overtime." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { keepInventoryHold } from "@/lib/availability-server";
+import { OfflinePayment, RESUMABLE_PAYMENT_STATUSES } from "@/lib/bookings";
+import { mirrorSeriesPayment } from "@/lib/booking-series-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { mirrorGroupPayment } from "@/lib/group-bookings-server";
+import { roundCurrency } from "@/lib/pricing";
+
+const MAX_REASON_LENGTH = 300;
+const MAX_RECORDED_BY_LENGTH = 100;
+
+type PaymentBody = {
+  action?: "record" | "undo";
+  reason?: string;
+  recordedBy?: string;
+};
+
+// Marks a booking paid only for money taken outside Stripe, with the reason and the admin who
+// recorded it; `undo` takes back an offline payment recorded by mistake. Stripe payments are
+// set by checkout and the webhook, never here.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const { bookingId } = await params;
+    const body = (await request.json()) as PaymentBody;
+    const reason = (body.reason ?? "").trim();
+    const recordedBy = (body.recordedBy ?? "").trim();
+
+    if (body.action !== "record" && body.action !== "undo") {
+      return NextResponse.json({ error: "Invalid payment action." }, { status: 400 });
+    }
+
+    if (!reason || reason.length > MAX_REASON_LENGTH) {
+      return NextResponse.json(
+        { error: `Enter a reason of up to ${MAX_REASON_LENGTH} characters.` },
+        { status: 400 },
+      );
+    }
+
+    if (!recordedBy || recordedBy.length > MAX_RECORDED_BY_LENGTH) {
+      return NextResponse.json({ error: "Enter the name of the admin recording this payment." }, { status: 400 });
+    }
+
+    const bookingRef = requireAdminDb().collection("bookings").doc(bookingId);
+    const bookingSnapshot = await bookingRef.get();
+
+    if (!bookingSnapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    }
+
+    const booking = bookingSnapshot.data() ?? {};
+
+    if (booking.groupParentBookingId) {
+      return NextResponse.json({ error: "Record the payment on the group booking." }, { status: 400 });
+    }
+
+    if (
+      booking.seriesPaymentMode === "series" &&
+      booking.seriesLeadBookingId &&
+      booking.seriesLeadBookingId !== bookingId
+    ) {
+      return NextResponse.json({ error: "Record the payment on the first ride of the series." }, { status: 400 });
+    }
+
+    const log = {
+      action: body.action,
+      reason,
+      recordedBy,
+      recordedAt: new Date().toISOString(),
+    };
+
+    if (body.action === "undo") {
+      if (!booking.offlinePayment || booking.paymentStatus !== "paid") {
+        return NextResponse.json({ error: "This booking has no offline payment to undo." }, { status: 400 });
+      }
+
+      await bookingRef.update({
+        paymentStatus: "unpaid",
+        amountPaid: null,
+        paidAt: null,
+        offlinePayment: null,
+        offlinePaymentLog: FieldValue.arrayUnion(log),
+        paymentUpdatedAt: FieldValue.serverTimestamp(),
+      });
+      await mirrorSeriesPayment(booking, bookingId, "unpaid");
+      await mirrorGroupPayment(booking, bookingId, "unpaid");
+
+      return NextResponse.json({ paymentStatus: "unpaid" });
+    }
+
+    if (!RESUMABLE_PAYMENT_STATUSES.includes(booking.paymentStatus ?? "unpaid")) {
+      return NextResponse.json(
+        { error: "Only unpaid bookings can be marked paid by hand. Stripe payments update on their own." },
+        { status: 400 },
+      );
+    }
+
+    const offlinePayment: OfflinePayment = {
+      amount: roundCurrency(Number(booking.amountDue ?? booking.estimatedFare ?? 0)),
+      reason,
+      recordedBy,
+      recordedAt: log.recordedAt,
+    };
+
+    await bookingRef.update({
+      paymentStatus: "paid",
+      amountPaid: offlinePayment.amount,
+      paidAt: FieldValue.serverTimestamp(),
+      offlinePayment,
+      offlinePaymentLog: FieldValue.arrayUnion(log),
+      paymentUpdatedAt: FieldValue.serverTimestamp(),
+    });
+    await mirrorSeriesPayment(booking, bookingId, "paid");
+    await mirrorGroupPayment(booking, bookingId, "paid");
+
+    // A paid booking keeps its vehicle even if checkout was never opened.
+    if (booking.holdExpiresAt) {
+      await keepInventoryHold(booking, bookingId);
+    }
+
+    return NextResponse.json({ paymentStatus: "paid", offlinePayment });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to update payment status." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import {
+  BookingQuote,
+  cappedQuoteExpiry,
+  isQuoteStatus,
+  QuoteDraft,
+  quoteDraftIssue,
+  quoteDraftTotal,
+  quoteLines,
+  quotePickupIssue,
+} from "@/lib/quotes";
+
+type QuoteBody = Partial<QuoteDraft>;
+
+// Sends (or revises) the priced quote on a `quote_requested` booking. The booking's fare
+// fields take the quoted amount so every other view shows the price the customer accepts.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const { bookingId } = await params;
+    const body = (await request.json()) as QuoteBody;
+    const draft: QuoteDraft = {
+      lines: Array.isArray(body.lines)
+        ? body.lines.map((line) => ({ label: String(line?.label ?? ""), amount: Number(line?.amount) }))
+        : [],
+      expiresOn: String(body.expiresOn ?? ""),
+      message: String(body.message ?? "").trim(),
+    };
+    const issue = quoteDraftIssue(draft);
+
+    if (issue) {
+      return NextResponse.json({ error: issue }, { status: 400 });
+    }
+
+    const bookingRef = requireAdminDb().collection("bookings").doc(bookingId);
+    const bookingSnapshot = await bookingRef.get();
+
+    if (!bookingSnapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    }
+
+    const booking = bookingSnapshot.data() ?? {};
+
+    if (!isQuoteStatus(booking.status)) {
+      return NextResponse.json(
+        { error: "Only quote requests that the customer has not accepted can be quoted." },
+        { status: 409 },
+      );
+    }
+
+    if (quotePickupIssue(booking)) {
+      return NextResponse.json(
+        { error: "The pickup time for this request has passed, so it can no longer be quoted." },
+        { status: 409 },
+      );
+    }
+
+    const total = quoteDraftTotal(draft);
+    const quote: BookingQuote = {
+      lines: quoteLines(draft),
+      total,
+      message: draft.message,
+      expiresAt: cappedQuoteExpiry(draft.expiresOn, booking)!.toISOString(),
+      sentAt: new Date().toISOString(),
+      acceptedAt: null,
+    };
+
+    await bookingRef.update({
+      quote,
+      status: "quoted",
+      estimatedFare: total,
+      fareBreakdown: quote.lines,
+      amountDue: total,
+    });
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to send the quote." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { refundBookingPayment } from "@/lib/booking-payments-server";
+import { roundCurrency } from "@/lib/pricing";
+import { stripeConfigError } from "@/lib/stripe-server";
+
+type RefundBody = {
+  amount?: number;
+  reason?: string;
+};
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    if (stripeConfigError) {
+      return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+    }
+
+    const { bookingId } = await params;
+    const body = (await request.json()) as RefundBody;
+    const reason = (body.reason ?? "").trim();
+    const amount = roundCurrency(Number(body.amount));
+
+    if (!reason) {
+      return NextResponse.json({ error: "A refund reason is required." }, { status: 400 });
+    }
+
+    if (!Number.isFinite(amount) || amount <= 0) {
+      return NextResponse.json({ error: "Refund amount must be greater than $0." }, { status: 400 });
+    }
+
+    const result = await refundBookingPayment(bookingId, amount, reason);
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to issue refund." },
+      { status: 500 },
+    );
+  }
+}
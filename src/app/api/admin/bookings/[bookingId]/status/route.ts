@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { releaseCardHold } from "@/lib/booking-payments-server";
+import { BOOKING_STATUSES, BookingStatus } from "@/lib/bookings";
+import { mirrorSeriesPayment } from "@/lib/booking-series-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { cancelGroupUnits, mirrorGroupPayment } from "@/lib/group-bookings-server";
+import { requireStripe, stripeConfigError } from "@/lib/stripe-server";
+
+type StatusBody = {
+  status?: BookingStatus;
+};
+
+// Status changes on bookings holding an authorized card go through here so confirming
+// captures the hold and cancelling releases it before the booking is updated. A booking whose
+// hold expired cannot be confirmed until the customer pays again. Cancelling a group booking
+// also cancels its vehicles.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const { bookingId } = await params;
+    const body = (await request.json()) as StatusBody;
+    const status = body.status;
+
+    if (!status || !BOOKING_STATUSES.includes(status)) {
+      return NextResponse.json({ error: "Invalid booking status." }, { status: 400 });
+    }
+
+    const bookingRef = requireAdminDb().collection("bookings").doc(bookingId);
+    const bookingSnapshot = await bookingRef.get();
+
+    if (!bookingSnapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    }
+
+    const booking = bookingSnapshot.data() ?? {};
+    const paymentIntentId = booking.stripePaymentIntentId as string | undefined;
+    const holdsCard = booking.paymentStatus === "authorized" && Boolean(paymentIntentId);
+
+    if (status === "confirmed" && booking.paymentStatus === "authorization_expired") {
+      return NextResponse.json(
+        {
+          error:
+            "The card hold on this booking has expired. Ask the customer to complete payment again before confirming.",
+          paymentStatus: "authorization_expired",
+        },
+        { status: 409 },
+      );
+    }
+
+    if (!holdsCard || (status !== "confirmed" && status !== "cancelled")) {
+      await bookingRef.update({ status });
+
+      if (status === "cancelled") {
+        await cancelGroupUnits(booking, bookingId);
+      }
+
+      return NextResponse.json({ status, paymentStatus: booking.paymentStatus });
+    }
+
+    if (stripeConfigError) {
+      return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+    }
+
+    if (status === "confirmed") {
+      const stripe = requireStripe();
+      const intent = await stripe.paymentIntents.retrieve(paymentIntentId!);
+
+      // Uncaptured holds are cancelled by Stripe after about seven days.
+      if (intent.status !== "requires_capture" && intent.status !== "succeeded") {
+        await bookingRef.update({
+          paymentStatus: "authorization_expired",
+          paymentUpdatedAt: FieldValue.serverTimestamp(),
+        });
+        await mirrorSeriesPayment(booking, bookingId, "authorization_expired");
+        await mirrorGroupPayment(booking, bookingId, "authorization_expired");
+
+        return NextResponse.json(
+          {
+            error:
+              "The card hold on this booking has expired. Ask the customer to complete payment again before confirming.",
+            paymentStatus: "authorization_expired",
+          },
+          { status: 409 },
+        );
+      }
+
+      const captured =
+        intent.status === "requires_capture" ? await stripe.paymentIntents.capture(intent.id) : intent;
+
+      await bookingRef.update({
+        status,
+        paymentStatus: "paid",
+        amountPaid: captured.amount_received / 100,
+        paidAt: FieldValue.serverTimestamp(),
+        paymentUpdatedAt: FieldValue.serverTimestamp(),
+      });
+      await mirrorSeriesPayment(booking, bookingId, "paid");
+      await mirrorGroupPayment(booking, bookingId, "paid");
+
+      return NextResponse.json({ status, paymentStatus: "paid" });
+    }
+
+    if ((await releaseCardHold(bookingRef, booking, bookingId, { status })) === "paid") {
+      return NextResponse.json(
+        {
+          error: "This card hold was already captured in Stripe. Refund the payment before cancelling the booking.",
+          paymentStatus: "paid",
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({ status, paymentStatus: "released" });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to update booking status." },
+      { status: 500 },
+    );
+  }
+}
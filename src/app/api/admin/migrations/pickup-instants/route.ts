@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldPath, QuerySnapshot } from "firebase-admin/firestore";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { pickupInstantFields } from "@/lib/pickup-instant-server";
+
+// One Firestore batch holds at most 500 writes.
+const PAGE_SIZE = 400;
+
+// Backfills `pickupAt`, `returnPickupAt` and `pickupTimeZone` on bookings created before
+// they were stored. Bookings that already have them are left alone, so it is safe to run
+// again; bookings without a readable date and time are counted as skipped.
+export async function POST(request: NextRequest) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const db = requireAdminDb();
+    const base = db.collection("bookings").orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    let lastId: string | null = null;
+    let scanned = 0;
+    let updated = 0;
+    let skipped = 0;
+
+    while (true) {
+      const snapshot: QuerySnapshot = await (lastId ? base.startAfter(lastId) : base).get();
+
+      if (snapshot.empty) {
+        break;
+      }
+
+      const batch = db.batch();
+      let writes = 0;
+
+      for (const doc of snapshot.docs) {
+        const booking = doc.data();
+        scanned += 1;
+
+        if (booking.pickupTimeZone) {
+          continue;
+        }
+
+        const fields = pickupInstantFields({
+          serviceDate: booking.serviceDate ?? "",
+          pickupTime: booking.pickupTime ?? "",
+          returnLeg: booking.returnLeg ?? null,
+        });
+
+        if (!fields.pickupAt) {
+          skipped += 1;
+          continue;
+        }
+
+        batch.update(doc.ref, fields);
+        writes += 1;
+      }
+
+      if (writes > 0) {
+        await batch.commit();
+        updated += writes;
+      }
+
+      lastId = snapshot.docs[snapshot.docs.length - 1].id;
+    }
+
+    return NextResponse.json({ scanned, updated, skipped });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to backfill pickup times." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentData, FieldValue } from "firebase-admin/firestore";
+import { authorizeAdminRequest } from "@/lib/admin-auth";
+import { shiftDate } from "@/lib/availability";
+import {
+  isStripeRefundable,
+  refundableAmount,
+  refundBookingPayment,
+  releaseCardHold,
+} from "@/lib/booking-payments-server";
+import { MAX_INSTRUCTIONS_LENGTH } from "@/lib/booking-request";
+import { fetchSeriesBookings } from "@/lib/booking-series-server";
+import { RESUMABLE_PAYMENT_STATUSES } from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { fetchLivePricingConfig, fetchLiveSiteContent } from "@/lib/live-site-content";
+import { pickupInstant } from "@/lib/pickup-instant";
+import { pickupInstantFields } from "@/lib/pickup-instant-server";
+import { calculateFare, roundCurrency } from "@/lib/pricing";
+import { todayInNewYork } from "@/lib/promo-codes";
+import { daysBetween } from "@/lib/recurrence";
+import { stripeConfigError } from "@/lib/stripe-server";
+
+type SeriesBody = {
+  action?: "cancel" | "update";
+  scope?: "series" | "occurrence";
+  bookingId?: string;
+  serviceDate?: string;
+  pickupTime?: string;
+  specialInstructions?: string;
+};
+
+const EDITABLE_STATUSES = ["pending", "confirmed"];
+
+// A ride's part of a series charge: its fare with the same share of any promo discount.
+function seriesChargeShare(lead: DocumentData, ride: DocumentData) {
+  const amountDue = Number(lead.amountDue ?? 0);
+  const subtotal = amountDue + Number(lead.discountAmount ?? 0);
+
+  return subtotal > 0 ? roundCurrency((Number(ride.estimatedFare ?? 0) * amountDue) / subtotal) : 0;
+}
+
+// Edits and cancellations for a recurring series. Series scope touches every upcoming ride
+// that is still pending or confirmed; occurrence scope touches one ride. Dispatch edits are
+// not checked against booking rules or fleet availability, so dispatch can place rides the
+// online form would refuse.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ seriesId: string }> },
+) {
+  try {
+    const authError = authorizeAdminRequest(request);
+
+    if (authError) {
+      return NextResponse.json({ error: authError }, { status: 401 });
+    }
+
+    const { seriesId } = await params;
+    const body = (await request.json()) as SeriesBody;
+
+    if ((body.action !== "cancel" && body.action !== "update") || (body.scope !== "series" && body.scope !== "occurrence")) {
+      return NextResponse.json({ error: "Invalid series action." }, { status: 400 });
+    }
+
+    const seriesRef = requireAdminDb().collection("bookingSeries").doc(seriesId);
+    const seriesSnapshot = await seriesRef.get();
+
+    if (!seriesSnapshot.exists) {
+      return NextResponse.json({ error: "Series not found." }, { status: 404 });
+    }
+
+    const rides = await fetchSeriesBookings(seriesId);
+    const today = todayInNewYork();
+    const targets =
+      body.scope === "series"
+        ? rides.filter((ride) => EDITABLE_STATUSES.includes(ride.get("status")) && ride.get("serviceDate") >= today)
+        : rides.filter((ride) => ride.id === body.bookingId && EDITABLE_STATUSES.includes(ride.get("status")));
+
+    if (!targets.length) {
+      return NextResponse.json(
+        {
+          error:
+            body.scope === "series"
+              ? "This series has no upcoming rides left to change."
+              : "That ride is not part of this series or can no longer be changed.",
+        },
+        { status: 409 },
+      );
+    }
+
+    if (body.action === "cancel") {
+      const leadRide = rides.find((ride) => ride.id === targets[0].get("seriesLeadBookingId")) ?? null;
+      const holdsCard = (ride: (typeof rides)[number]) =>
+        ride.get("paymentStatus") === "authorized" && Boolean(ride.get("stripePaymentIntentId"));
+      const needsStripe =
+        targets.some(holdsCard) || [leadRide, ...targets].some((ride) => ride && isStripeRefundable(ride.data()));
+
+      if (needsStripe && stripeConfigError) {
+        return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+      }
+
+      for (const ride of targets) {
+        const booking = ride.data();
+        const isSeriesCharge = booking.seriesPaymentMode === "series";
+
+        // A series-charge hold sits on the lead ride and covers every ride, so it is only
+        // released when the whole series is cancelled.
+        const ownsHold = !isSeriesCharge || (body.scope === "series" && ride.id === booking.seriesLeadBookingId);
+
+        if (
+          ownsHold &&
+          holdsCard(ride) &&
+          (await releaseCardHold(ride.ref, booking, ride.id, { status: "cancelled" })) === "released"
+        ) {
+          continue;
+        }
+
+        // Stripe payments are refunded the way the admin refund action does it: a ride paid on
+        // its own gets back what is left of its payment, and a ride in a series charge gets back
+        // its share of the lead ride's payment. Offline payments are settled outside Stripe.
+        const payerId = isSeriesCharge ? booking.seriesLeadBookingId : ride.id;
+        const payer = payerId ? ((await ride.ref.parent.doc(payerId).get()).data() ?? {}) : {};
+
+        if (isStripeRefundable(payer)) {
+          const amount = isSeriesCharge
+            ? Math.min(seriesChargeShare(payer, booking), refundableAmount(payer))
+            : refundableAmount(payer);
+
+          if (amount > 0) {
+            const result = await refundBookingPayment(
+              payerId,
+              amount,
+              body.scope === "series" ? "Series cancelled by dispatch" : "Ride cancelled by dispatch",
+            );
+
+            if ("error" in result) {
+              return NextResponse.json({ error: result.error }, { status: result.status });
+            }
+          }
+        }
+
+        await ride.ref.update({ status: "cancelled" });
+      }
+
+      if (body.scope === "series") {
+        await seriesRef.update({ status: "cancelled", updatedAt: FieldValue.serverTimestamp() });
+      }
+
+      return NextResponse.json({ updated: targets.map((ride) => ride.id) });
+    }
+
+    const pickupTime = body.pickupTime?.trim() ?? "";
+    const serviceDate = body.scope === "occurrence" ? body.serviceDate?.trim() ?? "" : "";
+    const specialInstructions = typeof body.specialInstructions === "string" ? body.specialInstructions.trim() : null;
+
+    if (pickupTime && !/^\d{2}:\d{2}$/.test(pickupTime)) {
+      return NextResponse.json({ error: "Pickup time must be HH:MM." }, { status: 400 });
+    }
+
+    if (serviceDate && !/^\d{4}-\d{2}-\d{2}$/.test(serviceDate)) {
+      return NextResponse.json({ error: "Service date must be YYYY-MM-DD." }, { status: 400 });
+    }
+
+    if (specialInstructions && specialInstructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      return NextResponse.json(
+        { error: `Special instructions must be ${MAX_INSTRUCTIONS_LENGTH} characters or fewer.` },
+        { status: 400 },
+      );
+    }
+
+    if (!pickupTime && !serviceDate && specialInstructions === null) {
+      return NextResponse.json({ error: "Nothing to update." }, { status: 400 });
+    }
+
+    // Same parsing as new bookings, so a time like 99:99 or a date like 02-30 is refused
+    // instead of leaving the ride without a pickup instant.
+    if (
+      (pickupTime || serviceDate) &&
+      targets.some((ride) => !pickupInstant(serviceDate || ride.get("serviceDate"), pickupTime || ride.get("pickupTime")))
+    ) {
+      return NextResponse.json({ error: "Please enter a valid service date and pickup time." }, { status: 400 });
+    }
+
+    const [siteContent, pricingConfig] = await Promise.all([fetchLiveSiteContent(), fetchLivePricingConfig()]);
+
+    for (const ride of targets) {
+      const booking = ride.data();
+      const nextDate = serviceDate || booking.serviceDate;
+      const nextTime = pickupTime || booking.pickupTime;
+      const returnLeg =
+        booking.returnLeg && nextDate !== booking.serviceDate
+          ? {
+              ...booking.returnLeg,
+              serviceDate: shiftDate(booking.returnLeg.serviceDate, daysBetween(booking.serviceDate, nextDate)),
+            }
+          : (booking.returnLeg ?? null);
+      const update: Record<string, unknown> = {
+        serviceDate: nextDate,
+        pickupTime: nextTime,
+        ...pickupInstantFields({ serviceDate: nextDate, pickupTime: nextTime, returnLeg }),
+        ...(returnLeg ? { returnLeg } : {}),
+        ...(specialInstructions !== null ? { specialInstructions } : {}),
+      };
+
+      // Unpaid rides are repriced for the new time; paid rides keep the fare the customer paid.
+      if (RESUMABLE_PAYMENT_STATUSES.includes(booking.paymentStatus ?? "unpaid")) {
+        const quote = calculateFare(
+          siteContent.fleet,
+          {
+            vehicleId: booking.vehicleId,
+            serviceType: booking.tripType,
+            pickupAddress: booking.pickupAddress ?? "",
+            dropoffAddress: booking.dropoffAddress ?? "",
+            pickupPoint: booking.pickupPlace?.point ?? null,
+            dropoffPoint: booking.dropoffPlace?.point ?? null,
+            returnPickupAddress: returnLeg?.pickupAddress ?? "",
+            serviceDate: nextDate,
+            pickupTime: nextTime,
+            hours: booking.hours ?? undefined,
+            stops: booking.stops,
+            addOns: booking.addOns,
+          },
+          pricingConfig.surchargeRules,
+          pricingConfig.addOns,
+        );
+
+        if (quote) {
+          update.estimatedFare = quote.total;
+          update.fareBreakdown = quote.lines;
+        }
+      }
+
+      await ride.ref.update(update);
+    }
+
+    await seriesRef.update({ updatedAt: FieldValue.serverTimestamp() });
+
+    return NextResponse.json({ updated: targets.map((ride) => ride.id) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to update series." },
+      { status: 500 },
+    );
+  }
+}
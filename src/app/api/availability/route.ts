@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { fetchFleetAvailability } from "@/lib/availability-server";
+import { fetchLiveSiteContent } from "@/lib/live-site-content";
+import { isServiceType } from "@/lib/pricing";
+
+// Step 2 of the booking form uses this to mark vehicle classes that are sold out for the
+// requested time. Only counts per class are returned, never booking details.
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const tripType = params.get("serviceType");
+    const serviceDate = params.get("serviceDate") ?? "";
+    const pickupTime = params.get("pickupTime") ?? "";
+    const returnDate = params.get("returnDate") ?? "";
+    const returnTime = params.get("returnTime") ?? "";
+
+    if (!isServiceType(tripType) || Number.isNaN(Date.parse(`${serviceDate}T${pickupTime}:00Z`))) {
+      return NextResponse.json({ error: "Missing trip date and time." }, { status: 400 });
+    }
+
+    const siteContent = await fetchLiveSiteContent();
+    const availability = await fetchFleetAvailability(siteContent.fleet, {
+      tripType,
+      serviceDate,
+      pickupTime,
+      hours: Number(params.get("hours") ?? 0),
+      returnLeg: returnDate && returnTime ? { serviceDate: returnDate, pickupTime: returnTime } : null,
+    });
+
+    return NextResponse.json({ availability });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to check availability." },
+      { status: 500 },
+    );
+  }
+}
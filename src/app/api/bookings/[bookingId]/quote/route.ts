@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { unpaidHoldExpiresAt } from "@/lib/availability";
+import { fetchFleetAvailability } from "@/lib/availability-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { minNoticeHoursFor } from "@/lib/booking-rules";
+import { fetchLiveBookingRules, fetchLiveSiteContent } from "@/lib/live-site-content";
+import { BookingQuote, quoteAcceptIssue } from "@/lib/quotes";
+
+// The accept button on /booking/quote. Accepting turns the quote into a `pending` booking
+// that holds its vehicle, so availability is checked in the same transaction; the page then
+// opens checkout for the quoted total.
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const { bookingId } = await params;
+    const [siteContent, bookingRules] = await Promise.all([fetchLiveSiteContent(), fetchLiveBookingRules()]);
+    const db = requireAdminDb();
+    const bookingRef = db.collection("bookings").doc(bookingId);
+
+    const result = await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(bookingRef);
+
+      if (!snapshot.exists) {
+        return { error: "Booking not found.", status: 404 };
+      }
+
+      const booking = snapshot.data() ?? {};
+      const issue = quoteAcceptIssue(
+        {
+          status: booking.status,
+          quote: booking.quote,
+          serviceDate: booking.serviceDate,
+          pickupTime: booking.pickupTime,
+        },
+        minNoticeHoursFor(bookingRules, booking.vehicleId ?? ""),
+      );
+
+      if (issue) {
+        return { error: issue, status: 409 };
+      }
+
+      const vehicle = siteContent.fleet.find((item) => item.id === booking.vehicleId);
+      const availability = vehicle
+        ? await fetchFleetAvailability(
+            [vehicle],
+            {
+              tripType: booking.tripType,
+              serviceDate: booking.serviceDate,
+              pickupTime: booking.pickupTime,
+              hours: booking.hours ?? null,
+              billableHours: booking.billableHours ?? null,
+              returnLeg: booking.returnLeg ?? null,
+            },
+            transaction,
+          )
+        : null;
+
+      if (!vehicle || !availability || availability[vehicle.id].available <= 0) {
+        return {
+          error: "The quoted vehicle is no longer free at that time. Please contact dispatch to adjust your quote.",
+          status: 409,
+        };
+      }
+
+      const quote = booking.quote as BookingQuote;
+
+      transaction.update(bookingRef, {
+        status: "pending",
+        quote: { ...quote, acceptedAt: new Date().toISOString() },
+        holdExpiresAt: unpaidHoldExpiresAt(),
+      });
+
+      return { total: quote.total };
+    });
+
+    if ("error" in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json({ bookingId, status: "pending", total: result.total });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to accept the quote." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,69 @@
+import { NextResponse } from "next/server";
+import { RESUMABLE_PAYMENT_STATUSES } from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { isQuoteStatus } from "@/lib/quotes";
+
+// Backs the resume-payment link: bookings are not client-readable, so the booking page
+// loads the saved trip through here using the unguessable document id as the key. The id
+// ends up in redirect URLs and browser history, so the customer's name, contact details and
+// instructions are left out; the manage page shows them behind the reference code and email.
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ bookingId: string }> },
+) {
+  try {
+    const { bookingId } = await params;
+    const snapshot = await requireAdminDb().collection("bookings").doc(bookingId).get();
+
+    if (!snapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
+    }
+
+    const booking = snapshot.data() ?? {};
+    const paymentStatus = booking.paymentStatus ?? "unpaid";
+
+    return NextResponse.json({
+      booking: {
+        id: snapshot.id,
+        referenceCode: booking.referenceCode ?? "",
+        tripType: booking.tripType ?? "one-way",
+        serviceDate: booking.serviceDate ?? "",
+        pickupTime: booking.pickupTime ?? "",
+        hours: booking.hours ?? null,
+        returnLeg: booking.returnLeg ?? null,
+        stops: booking.stops ?? [],
+        addOns: (booking.addOns ?? []).map((addOn: { id: string; quantity: number }) => ({
+          id: addOn.id,
+          quantity: addOn.quantity,
+        })),
+        airportPickup: booking.airportPickup ?? null,
+        pickupAddress: booking.pickupAddress ?? "",
+        dropoffAddress: booking.dropoffAddress ?? "",
+        passengers: booking.passengers ?? 1,
+        luggage: booking.luggage ?? 0,
+        vehicleId: booking.vehicleId ?? "",
+        vehicleName: booking.vehicleName ?? "",
+        groupVehicles: booking.groupVehicles ?? null,
+        promoCode: booking.promoCode ?? null,
+        seriesPaymentMode: booking.seriesPaymentMode ?? null,
+        occurrenceCount: booking.occurrenceCount ?? null,
+        quote: booking.quote ?? null,
+        status: booking.status ?? "pending",
+        paymentStatus,
+      },
+      // A group's vehicle bookings are paid through their parent booking, and a quote is paid
+      // once the customer accepts it.
+      resumable:
+        !booking.groupParentBookingId &&
+        !isQuoteStatus(booking.status) &&
+        RESUMABLE_PAYMENT_STATUSES.includes(paymentStatus) &&
+        booking.status !== "cancelled" &&
+        booking.status !== "completed",
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to load booking." },
+      { status: 500 },
+    );
+  }
+}
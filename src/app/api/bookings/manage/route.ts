@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DocumentData, DocumentSnapshot, FieldValue } from "firebase-admin/firestore";
+import {
+  BookingStatus,
+  ChangeRequest,
+  customerCancellationIssue,
+  MAX_CHANGE_REQUEST_LENGTH,
+  normalizeReferenceCode,
+  PaymentStatus,
+  RefundRecord,
+  RESUMABLE_PAYMENT_STATUSES,
+} from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { cancelGroupUnits, mirrorGroupPayment } from "@/lib/group-bookings-server";
+import { roundCurrency } from "@/lib/pricing";
+import { releasePromoCode } from "@/lib/promo-codes-server";
+import { enforceRateLimit, MANAGE_BOOKING_RATE_LIMIT } from "@/lib/rate-limit-server";
+import { requireStripe, stripeConfigError } from "@/lib/stripe-server";
+
+type ManageAction = "lookup" | "request_change" | "cancel";
+
+type ManageBody = {
+  referenceCode?: string;
+  email?: string;
+  action?: ManageAction;
+  message?: string;
+};
+
+const NOT_FOUND_ERROR = "No booking matches that reference and email.";
+
+// One charge covers every ride in such a series, so a single ride can't be refunded here.
+const SERIES_CANCELLATION_ISSUE =
+  "Rides in a series paid as one charge are cancelled by dispatch. Please send a change request instead.";
+
+function cancellationIssueFor(booking: DocumentData) {
+  return booking.seriesPaymentMode === "series" && booking.status !== "cancelled" && booking.status !== "completed"
+    ? SERIES_CANCELLATION_ISSUE
+    : customerCancellationIssue({
+        status: booking.status,
+        serviceDate: booking.serviceDate,
+        pickupTime: booking.pickupTime,
+      });
+}
+
+function customerView(snapshot: DocumentSnapshot) {
+  const booking = snapshot.data() ?? {};
+  const status = booking.status as BookingStatus;
+  const paymentStatus = booking.paymentStatus as PaymentStatus;
+
+  return {
+    referenceCode: booking.referenceCode,
+    tripType: booking.tripType,
+    serviceDate: booking.serviceDate,
+    pickupTime: booking.pickupTime,
+    hours: booking.hours ?? null,
+    returnLeg: booking.returnLeg ?? null,
+    pickupAddress: booking.pickupAddress ?? "",
+    dropoffAddress: booking.dropoffAddress ?? "",
+    stops: booking.stops ?? [],
+    airportPickup: booking.airportPickup ?? null,
+    vehicleName: booking.vehicleName ?? "",
+    passengers: booking.passengers ?? 1,
+    luggage: booking.luggage ?? 0,
+    addOns: booking.addOns ?? [],
+    customerName: booking.customerName ?? "",
+    estimatedFare: Number(booking.estimatedFare ?? 0),
+    amountDue: Number(booking.amountDue ?? booking.estimatedFare ?? 0),
+    amountPaid: booking.amountPaid ?? null,
+    amountRefunded: booking.amountRefunded ?? null,
+    status,
+    paymentStatus,
+    changeRequests: (booking.changeRequests ?? []) as ChangeRequest[],
+    occurrenceIndex: booking.occurrenceIndex ?? null,
+    occurrenceCount: booking.occurrenceCount ?? null,
+    seriesFrequency: booking.seriesFrequency ?? null,
+    seriesPaymentMode: booking.seriesPaymentMode ?? null,
+    cancellationIssue: cancellationIssueFor(booking),
+    // A series paid as one charge is paid from its first ride; a quoted trip is accepted and
+    // paid from its quote page, and a quote still being priced has nothing to pay yet.
+    paymentLink:
+      RESUMABLE_PAYMENT_STATUSES.includes(paymentStatus) &&
+      status !== "cancelled" &&
+      status !== "completed" &&
+      status !== "quote_requested"
+        ? booking.quote
+          ? `/booking/quote?bookingId=${encodeURIComponent(snapshot.id)}`
+          : `/booking?bookingId=${encodeURIComponent(
+              booking.seriesPaymentMode === "series" ? booking.seriesLeadBookingId : snapshot.id,
+            )}`
+        : null,
+  };
+}
+
+// Customers can't read `bookings` from the client, so /booking/manage looks a booking up
+// here by its reference code and the email it was booked with.
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as ManageBody;
+    const referenceCode = normalizeReferenceCode(body.referenceCode ?? "");
+    const email = (body.email ?? "").trim().toLowerCase();
+    const action = body.action ?? "lookup";
+    // Counted per reference as well as per visitor, so one code cannot be probed from many IPs.
+    const limited = await enforceRateLimit(request, MANAGE_BOOKING_RATE_LIMIT, referenceCode);
+
+    if (limited) {
+      return limited;
+    }
+
+    if (!referenceCode || !email) {
+      return NextResponse.json({ error: "Enter your booking reference and email." }, { status: 400 });
+    }
+
+    const matches = await requireAdminDb()
+      .collection("bookings")
+      .where("referenceCode", "==", referenceCode)
+      .limit(1)
+      .get();
+    const bookingSnapshot = matches.docs[0];
+
+    // A wrong email gets the same answer as a wrong reference so codes can't be probed.
+    if (!bookingSnapshot || String(bookingSnapshot.get("customerEmail") ?? "").trim().toLowerCase() !== email) {
+      return NextResponse.json({ error: NOT_FOUND_ERROR }, { status: 404 });
+    }
+
+    const bookingRef = bookingSnapshot.ref;
+    const booking = bookingSnapshot.data() ?? {};
+
+    if (action === "lookup") {
+      return NextResponse.json({ booking: customerView(bookingSnapshot) });
+    }
+
+    if (action === "request_change") {
+      const message = (body.message ?? "").trim();
+
+      if (!message) {
+        return NextResponse.json({ error: "Tell us what you would like to change." }, { status: 400 });
+      }
+
+      if (message.length > MAX_CHANGE_REQUEST_LENGTH) {
+        return NextResponse.json(
+          { error: `Change requests are limited to ${MAX_CHANGE_REQUEST_LENGTH} characters.` },
+          { status: 400 },
+        );
+      }
+
+      if (booking.status === "cancelled" || booking.status === "completed") {
+        return NextResponse.json({ error: `This booking is ${booking.status}.` }, { status: 409 });
+      }
+
+      const changeRequest: ChangeRequest = { message, createdAt: new Date().toISOString() };
+
+      await bookingRef.update({
+        changeRequests: FieldValue.arrayUnion(changeRequest),
+        changeRequestedAt: FieldValue.serverTimestamp(),
+      });
+
+      return NextResponse.json({ booking: customerView(await bookingRef.get()) });
+    }
+
+    if (action !== "cancel") {
+      return NextResponse.json({ error: "Unsupported action." }, { status: 400 });
+    }
+
+    const cancellationIssue = cancellationIssueFor(booking);
+
+    if (cancellationIssue) {
+      return NextResponse.json({ error: cancellationIssue }, { status: 409 });
+    }
+
+    const paymentIntentId = booking.stripePaymentIntentId as string | undefined;
+    const paymentStatus = booking.paymentStatus as PaymentStatus;
+    const needsStripe =
+      (paymentIntentId && ["authorized", "paid", "partially_refunded"].includes(paymentStatus)) ||
+      Boolean(booking.stripeCheckoutSessionId);
+
+    if (needsStripe && stripeConfigError) {
+      return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+    }
+
+    const update: Record<string, unknown> = {
+      status: "cancelled",
+      cancelledBy: "customer",
+      cancelledAt: FieldValue.serverTimestamp(),
+    };
+
+    if (paymentIntentId && paymentStatus === "authorized") {
+      const stripe = requireStripe();
+      const intent = await stripe.paymentIntents.retrieve(paymentIntentId);
+
+      if (intent.status === "requires_capture") {
+        await stripe.paymentIntents.cancel(intent.id, { cancellation_reason: "requested_by_customer" });
+      }
+
+      update.paymentStatus = "released";
+      update.releasedAt = FieldValue.serverTimestamp();
+      update.paymentUpdatedAt = FieldValue.serverTimestamp();
+    } else if (paymentIntentId && (paymentStatus === "paid" || paymentStatus === "partially_refunded")) {
+      // Cancelling inside the policy window refunds whatever has not been refunded yet.
+      const amountPaid = Number(booking.amountPaid ?? booking.amountDue ?? booking.estimatedFare ?? 0);
+      const amountRefunded = Number(booking.amountRefunded ?? 0);
+      const refundable = roundCurrency(amountPaid - amountRefunded);
+
+      if (refundable > 0) {
+        const refund = await requireStripe().refunds.create({
+          payment_intent: paymentIntentId,
+          amount: Math.round(refundable * 100),
+          reason: "requested_by_customer",
+          metadata: { bookingId: bookingRef.id, reason: "Cancelled by customer" },
+        });
+
+        const record: RefundRecord = {
+          id: refund.id,
+          amount: refund.amount / 100,
+          reason: "Cancelled by customer",
+          status: refund.status ?? "pending",
+          createdAt: new Date().toISOString(),
+        };
+
+        update.refunds = FieldValue.arrayUnion(record);
+
+        // Pending refunds are settled by the charge.refunded webhook, as with admin refunds.
+        if (refund.status === "succeeded") {
+          update.amountRefunded = roundCurrency(amountRefunded + record.amount);
+          update.paymentStatus = "refunded";
+          update.paymentUpdatedAt = FieldValue.serverTimestamp();
+        }
+      }
+    } else if (booking.stripeCheckoutSessionId) {
+      // An unpaid checkout left open could still be completed after the booking is cancelled.
+      const stripe = requireStripe();
+      const session = await stripe.checkout.sessions.retrieve(booking.stripeCheckoutSessionId);
+
+      if (session.status === "open") {
+        await stripe.checkout.sessions.expire(session.id);
+      }
+
+      update.stripeCheckoutSessionId = null;
+      update.checkoutSessionStatus = "expired";
+    }
+
+    await bookingRef.update(update);
+
+    if (update.paymentStatus) {
+      await mirrorGroupPayment(booking, bookingRef.id, update.paymentStatus as PaymentStatus);
+    }
+
+    await cancelGroupUnits(booking, bookingRef.id);
+
+    if (booking.promoCode) {
+      await releasePromoCode(booking.promoCode, bookingRef.id);
+    }
+
+    return NextResponse.json({ booking: customerView(await bookingRef.get()) });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to load this booking." },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,567 @@
+import { NextRequest, NextResponse } from "next/server";
+import { FieldValue } from "firebase-admin/firestore";
+import {
+  availabilityDateRange,
+  fleetAvailability,
+  shiftDate,
+  TripTiming,
+  unpaidHoldExpiresAt,
+} from "@/lib/availability";
+import { fetchBookedTrips } from "@/lib/availability-server";
+import { BookingRequest, bookingRequestIssue, parseBookingRequest } from "@/lib/booking-request";
+import { bookingRuleIssue, BookingRules } from "@/lib/booking-rules";
+import { HONEYPOT_FIELD } from "@/lib/bot-protection";
+import { botProofIssue } from "@/lib/bot-protection-server";
+import { generateReferenceCode } from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import {
+  calculateGroupFare,
+  GROUP_VEHICLE_ID,
+  groupCapacityIssue,
+  groupFareLines,
+  groupVehicleCount,
+  GroupVehicleSelection,
+  groupVehiclesLabel,
+} from "@/lib/group-bookings";
+import {
+  fetchLiveBookingRules,
+  fetchLiveGazetteer,
+  fetchLivePricingConfig,
+  fetchLiveSiteContent,
+} from "@/lib/live-site-content";
+import { pickupInstantFields } from "@/lib/pickup-instant-server";
+import { bookedPlace, findPlace, Gazetteer, placeMatchesAddress } from "@/lib/places";
+import { calculateFare, FareQuote, normalizeStops, roundCurrency, unmappedRouteIssue } from "@/lib/pricing";
+import { PricingConfig } from "@/lib/pricing-config";
+import { BOOKING_RATE_LIMIT, enforceRateLimit } from "@/lib/rate-limit-server";
+import { daysBetween, recurrenceDates } from "@/lib/recurrence";
+import { SiteContent, vehicleCapacityIssue } from "@/lib/site-content";
+
+const REFERENCE_CODE_ATTEMPTS = 5;
+
+// Firestore "in" queries accept at most 30 values.
+const REFERENCE_CODE_QUERY_LIMIT = 30;
+
+async function uniqueReferenceCodes(count: number) {
+  const bookings = requireAdminDb().collection("bookings");
+  const codes = new Set<string>();
+
+  for (let attempt = 0; attempt < REFERENCE_CODE_ATTEMPTS && codes.size < count; attempt += 1) {
+    const candidates = new Set<string>();
+
+    while (candidates.size < count - codes.size) {
+      const referenceCode = generateReferenceCode();
+
+      if (!codes.has(referenceCode)) {
+        candidates.add(referenceCode);
+      }
+    }
+
+    const batch = Array.from(candidates);
+
+    for (let index = 0; index < batch.length; index += REFERENCE_CODE_QUERY_LIMIT) {
+      const chunk = batch.slice(index, index + REFERENCE_CODE_QUERY_LIMIT);
+      const existing = await bookings.where("referenceCode", "in", chunk).get();
+      existing.docs.forEach((doc) => candidates.delete(doc.get("referenceCode")));
+    }
+
+    candidates.forEach((referenceCode) => codes.add(referenceCode));
+  }
+
+  if (codes.size < count) {
+    throw new Error("Unable to assign a booking reference. Please try again.");
+  }
+
+  return Array.from(codes);
+}
+
+// Unknown or retired place ids are dropped and the typed address is priced instead; an id
+// whose place no longer matches the typed address is refused rather than priced as that place.
+function pickedPlaces(input: BookingRequest, gazetteer: Gazetteer) {
+  const pickupPlace = findPlace(gazetteer.places, input.pickupPlaceId);
+  const dropoffPlace =
+    input.serviceType === "hourly" ? null : findPlace(gazetteer.places, input.dropoffPlaceId);
+
+  if (pickupPlace && !placeMatchesAddress(pickupPlace, input.pickupAddress)) {
+    return { error: "The pickup address does not match the place you picked. Please choose it again." };
+  }
+
+  if (dropoffPlace && !placeMatchesAddress(dropoffPlace, input.dropoffAddress)) {
+    return { error: "The drop-off address does not match the place you picked. Please choose it again." };
+  }
+
+  return { pickupPlace, dropoffPlace };
+}
+
+type LiveConfig = {
+  siteContent: SiteContent;
+  pricingConfig: PricingConfig;
+  bookingRules: BookingRules;
+  gazetteer: Gazetteer;
+};
+
+// A group booking is one parent booking (the customer's reference, price and payment) plus
+// one booking per vehicle, linked by `groupParentBookingId`. The vehicle bookings hold fleet
+// inventory and are dispatched on their own; the parent holds none.
+async function createGroupBooking(
+  input: BookingRequest,
+  groupVehicles: GroupVehicleSelection[],
+  { siteContent, pricingConfig, bookingRules, gazetteer }: LiveConfig,
+) {
+  const vehicles = groupVehicles.map((selection) => siteContent.fleet.find((item) => item.id === selection.vehicleId));
+
+  if (vehicles.some((vehicle) => !vehicle)) {
+    return NextResponse.json({ error: "Please review your vehicles." }, { status: 400 });
+  }
+
+  const returnLeg = input.serviceType === "round-trip" ? input.returnLeg : null;
+  const trip = { serviceDate: input.serviceDate, pickupTime: input.pickupTime, returnLeg };
+
+  for (const vehicle of vehicles) {
+    const ruleIssue = vehicle ? bookingRuleIssue(bookingRules, trip, vehicle) : null;
+
+    if (ruleIssue) {
+      return NextResponse.json({ error: ruleIssue, ruleIssue: true }, { status: 400 });
+    }
+  }
+
+  const capacityIssue = groupCapacityIssue(siteContent.fleet, groupVehicles, input.passengers, input.luggage);
+
+  if (capacityIssue) {
+    return NextResponse.json({ error: capacityIssue }, { status: 400 });
+  }
+
+  const places = pickedPlaces(input, gazetteer);
+
+  if ("error" in places) {
+    return NextResponse.json({ error: places.error }, { status: 400 });
+  }
+
+  const { pickupPlace, dropoffPlace } = places;
+  const isHourly = input.serviceType === "hourly";
+  const stops = normalizeStops(input.stops);
+  const groupQuote = calculateGroupFare(
+    siteContent.fleet,
+    {
+      serviceType: input.serviceType,
+      pickupAddress: input.pickupAddress,
+      dropoffAddress: input.dropoffAddress,
+      pickupPoint: pickupPlace?.point ?? null,
+      dropoffPoint: dropoffPlace?.point ?? null,
+      returnPickupAddress: returnLeg?.pickupAddress ?? "",
+      serviceDate: input.serviceDate,
+      pickupTime: input.pickupTime,
+      hours: input.hours ?? undefined,
+      stops,
+    },
+    groupVehicles,
+    pricingConfig.surchargeRules,
+  );
+
+  if (!groupQuote) {
+    return NextResponse.json(
+      { error: "We could not price this trip. Please review your trip details." },
+      { status: 400 },
+    );
+  }
+
+  const routeIssue = unmappedRouteIssue(groupQuote.quotes[0]);
+
+  if (routeIssue) {
+    return NextResponse.json({ error: routeIssue }, { status: 400 });
+  }
+
+  const [referenceCode] = await uniqueReferenceCodes(1);
+  const db = requireAdminDb();
+  const parentRef = db.collection("bookings").doc();
+  const unitCount = groupVehicleCount(groupVehicles);
+  const sharedTrip = {
+    tripType: input.serviceType,
+    serviceDate: input.serviceDate,
+    pickupTime: input.pickupTime,
+    ...pickupInstantFields(trip),
+    hours: isHourly ? input.hours : null,
+    returnLeg,
+    pickupAddress: input.pickupAddress,
+    dropoffAddress: isHourly ? "" : input.dropoffAddress,
+    pickupPlace: pickupPlace ? bookedPlace(pickupPlace) : null,
+    dropoffPlace: dropoffPlace ? bookedPlace(dropoffPlace) : null,
+    stops,
+    airportPickup: input.airportPickup,
+    customerName: input.customerName,
+    customerEmail: input.customerEmail,
+    customerPhone: input.customerPhone,
+    specialInstructions: input.specialInstructions,
+    holdExpiresAt: unpaidHoldExpiresAt(),
+    source: "web-booking",
+  };
+
+  const soldOut = await db.runTransaction(async (transaction) => {
+    const timings: TripTiming[] = groupQuote.quotes.map((quote) => ({
+      tripType: input.serviceType,
+      serviceDate: input.serviceDate,
+      pickupTime: input.pickupTime,
+      hours: input.hours,
+      billableHours: quote.hourly?.billableHours ?? null,
+      returnLeg,
+    }));
+    const bookedTrips = await fetchBookedTrips(availabilityDateRange(timings[0]), transaction);
+
+    for (const [index, line] of groupQuote.lines.entries()) {
+      const vehicle = siteContent.fleet.find((item) => item.id === line.vehicleId);
+      const available = vehicle ? fleetAvailability([vehicle], timings[index], bookedTrips)[vehicle.id].available : 0;
+
+      if (available < line.quantity) {
+        return { vehicleName: line.vehicleName, available };
+      }
+    }
+
+    transaction.create(parentRef, {
+      ...sharedTrip,
+      passengers: input.passengers,
+      luggage: input.luggage,
+      addOns: [],
+      vehicleId: GROUP_VEHICLE_ID,
+      vehicleName: groupVehiclesLabel(groupQuote.lines),
+      groupVehicles: groupQuote.lines,
+      groupUnitCount: unitCount,
+      estimatedFare: groupQuote.total,
+      fareBreakdown: groupFareLines(groupQuote),
+      routeEstimate: groupQuote.quotes[0].route,
+      billableHours: groupQuote.quotes[0].hourly?.billableHours ?? null,
+      referenceCode,
+      status: "pending",
+      paymentStatus: "unpaid",
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    let unitIndex = 0;
+
+    groupQuote.lines.forEach((line, index) => {
+      const quote = groupQuote.quotes[index];
+
+      for (let copy = 0; copy < line.quantity; copy += 1) {
+        unitIndex += 1;
+
+        // Passenger and luggage counts are for the whole party; dispatch splits them.
+        transaction.create(db.collection("bookings").doc(), {
+          ...sharedTrip,
+          passengers: input.passengers,
+          luggage: input.luggage,
+          addOns: [],
+          vehicleId: line.vehicleId,
+          vehicleName: line.vehicleName,
+          estimatedFare: line.unitFare,
+          fareBreakdown: quote.lines,
+          routeEstimate: quote.route,
+          billableHours: quote.hourly?.billableHours ?? null,
+          overtimeTerms: quote.hourly?.overtime ?? null,
+          groupParentBookingId: parentRef.id,
+          groupReferenceCode: referenceCode,
+          groupUnitIndex: unitIndex,
+          groupUnitCount: unitCount,
+          assignment: "",
+          status: "pending",
+          paymentStatus: "unpaid",
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      }
+    });
+
+    return null;
+  });
+
+  if (soldOut) {
+    return NextResponse.json(
+      {
+        error:
+          soldOut.available > 0
+            ? `Only ${soldOut.available} ${soldOut.vehicleName} ${soldOut.available === 1 ? "is" : "are"} free at that time. Please adjust your vehicles or time.`
+            : `${soldOut.vehicleName} is fully booked at that time. Please choose other vehicles or another time.`,
+        soldOut: true,
+      },
+      { status: 409 },
+    );
+  }
+
+  return NextResponse.json({
+    bookingId: parentRef.id,
+    referenceCode,
+    estimatedFare: groupQuote.total,
+    seriesId: null,
+    occurrenceCount: 1,
+    seriesTotal: groupQuote.total,
+    groupUnitCount: unitCount,
+  });
+}
+
+// Bookings are only created here: the client sends trip and contact details, and status,
+// payment state, price, timestamps and the reference code are set server-side. A recurring
+// request creates one booking per occurrence, linked by a `bookingSeries` document; a group
+// request creates a parent booking and one booking per vehicle; a quote request is saved as
+// `quote_requested` for dispatch to price.
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(request, BOOKING_RATE_LIMIT);
+
+    if (limited) {
+      return limited;
+    }
+
+    const body = ((await request.json()) ?? {}) as Record<string, unknown>;
+
+    // Bots that fill the hidden field get the same vague answer as a failed proof, so the
+    // response does not say which check caught them.
+    const botIssue = body[HONEYPOT_FIELD]
+      ? "We could not verify this browser. Please refresh the page and try again."
+      : await botProofIssue(body.botProof);
+
+    if (botIssue) {
+      return NextResponse.json({ error: botIssue }, { status: 400 });
+    }
+
+    const input = parseBookingRequest(body);
+    const issue = bookingRequestIssue(input);
+
+    if (issue) {
+      return NextResponse.json({ error: issue }, { status: 400 });
+    }
+
+    const [siteContent, pricingConfig, bookingRules, gazetteer] = await Promise.all([
+      fetchLiveSiteContent(),
+      fetchLivePricingConfig(),
+      fetchLiveBookingRules(),
+      fetchLiveGazetteer(),
+    ]);
+
+    if (input.groupVehicles) {
+      return await createGroupBooking(input, input.groupVehicles, {
+        siteContent,
+        pricingConfig,
+        bookingRules,
+        gazetteer,
+      });
+    }
+
+    const vehicle = siteContent.fleet.find((item) => item.id === input.vehicleId);
+
+    if (!vehicle) {
+      return NextResponse.json({ error: "Please select a vehicle." }, { status: 400 });
+    }
+
+    const isHourly = input.serviceType === "hourly";
+    const baseReturnLeg = input.serviceType === "round-trip" ? input.returnLeg : null;
+    const serviceDates = input.recurrence ? recurrenceDates(input.serviceDate, input.recurrence) : [input.serviceDate];
+    const occurrences = serviceDates.map((serviceDate) => ({
+      serviceDate,
+      returnLeg: baseReturnLeg
+        ? {
+            ...baseReturnLeg,
+            serviceDate: shiftDate(baseReturnLeg.serviceDate, daysBetween(input.serviceDate, serviceDate)),
+          }
+        : null,
+    }));
+    const isSeries = occurrences.length > 1;
+
+    for (const occurrence of occurrences) {
+      const ruleIssue = bookingRuleIssue(
+        bookingRules,
+        { serviceDate: occurrence.serviceDate, pickupTime: input.pickupTime, returnLeg: occurrence.returnLeg },
+        vehicle,
+      );
+
+      if (ruleIssue) {
+        return NextResponse.json(
+          { error: isSeries ? `Ride on ${occurrence.serviceDate}: ${ruleIssue}` : ruleIssue, ruleIssue: true },
+          { status: 400 },
+        );
+      }
+    }
+
+    const capacityIssue = vehicleCapacityIssue(vehicle, input.passengers, input.luggage);
+
+    if (capacityIssue) {
+      return NextResponse.json(
+        { error: `${capacityIssue} Please choose a larger vehicle.` },
+        { status: 400 },
+      );
+    }
+
+    const places = pickedPlaces(input, gazetteer);
+
+    if ("error" in places) {
+      return NextResponse.json({ error: places.error }, { status: 400 });
+    }
+
+    const { pickupPlace, dropoffPlace } = places;
+    const stops = normalizeStops(input.stops);
+    const quotes: FareQuote[] = [];
+
+    for (const occurrence of occurrences) {
+      const quote = calculateFare(
+        siteContent.fleet,
+        {
+          vehicleId: vehicle.id,
+          serviceType: input.serviceType,
+          pickupAddress: input.pickupAddress,
+          dropoffAddress: input.dropoffAddress,
+          pickupPoint: pickupPlace?.point ?? null,
+          dropoffPoint: dropoffPlace?.point ?? null,
+          returnPickupAddress: occurrence.returnLeg?.pickupAddress ?? "",
+          serviceDate: occurrence.serviceDate,
+          pickupTime: input.pickupTime,
+          hours: input.hours ?? undefined,
+          stops,
+          addOns: input.addOns,
+        },
+        pricingConfig.surchargeRules,
+        pricingConfig.addOns,
+      );
+
+      if (!quote || quote.total <= 0) {
+        return NextResponse.json(
+          { error: "We could not price this trip. Please review your trip details." },
+          { status: 400 },
+        );
+      }
+
+      quotes.push(quote);
+    }
+
+    // Every ride of a series shares the itinerary, so the first quote speaks for all of them.
+    const routeIssue = input.quoteRequest ? null : unmappedRouteIssue(quotes[0]);
+
+    if (routeIssue) {
+      return NextResponse.json({ error: routeIssue }, { status: 400 });
+    }
+
+    const referenceCodes = await uniqueReferenceCodes(occurrences.length);
+    const db = requireAdminDb();
+    const bookingRefs = occurrences.map(() => db.collection("bookings").doc());
+    const seriesRef = isSeries ? db.collection("bookingSeries").doc() : null;
+    const seriesTotal = roundCurrency(quotes.reduce((total, quote) => total + quote.total, 0));
+    const holdExpiresAt = unpaidHoldExpiresAt();
+    const timings: TripTiming[] = occurrences.map((occurrence, index) => ({
+      tripType: input.serviceType,
+      serviceDate: occurrence.serviceDate,
+      pickupTime: input.pickupTime,
+      hours: input.hours,
+      billableHours: quotes[index].hourly?.billableHours ?? null,
+      returnLeg: occurrence.returnLeg,
+    }));
+
+    const soldOutDate = await db.runTransaction(async (transaction) => {
+      // A quote request holds no vehicle; availability is checked when the customer accepts the quote.
+      if (!input.quoteRequest) {
+        const bookedTrips = await fetchBookedTrips(
+          {
+            from: availabilityDateRange(timings[0]).from,
+            to: availabilityDateRange(timings[timings.length - 1]).to,
+          },
+          transaction,
+        );
+
+        for (const timing of timings) {
+          if (fleetAvailability([vehicle], timing, bookedTrips)[vehicle.id].available <= 0) {
+            return timing.serviceDate;
+          }
+        }
+      }
+
+      if (seriesRef && input.recurrence) {
+        transaction.create(seriesRef, {
+          recurrence: input.recurrence,
+          paymentMode: input.seriesPaymentMode,
+          bookingIds: bookingRefs.map((ref) => ref.id),
+          occurrenceCount: occurrences.length,
+          seriesTotal,
+          vehicleId: vehicle.id,
+          customerEmail: input.customerEmail,
+          status: "active",
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      }
+
+      occurrences.forEach((occurrence, index) => {
+        const quote = quotes[index];
+
+        transaction.create(bookingRefs[index], {
+          tripType: input.serviceType,
+          serviceDate: occurrence.serviceDate,
+          pickupTime: input.pickupTime,
+          ...pickupInstantFields({
+            serviceDate: occurrence.serviceDate,
+            pickupTime: input.pickupTime,
+            returnLeg: occurrence.returnLeg,
+          }),
+          hours: isHourly ? input.hours : null,
+          billableHours: quote.hourly?.billableHours ?? null,
+          overtimeTerms: quote.hourly?.overtime ?? null,
+          returnLeg: occurrence.returnLeg,
+          pickupAddress: input.pickupAddress,
+          dropoffAddress: isHourly ? "" : input.dropoffAddress,
+          pickupPlace: pickupPlace ? bookedPlace(pickupPlace) : null,
+          dropoffPlace: dropoffPlace ? bookedPlace(dropoffPlace) : null,
+          stops,
+          airportPickup: input.airportPickup,
+          passengers: input.passengers,
+          luggage: input.luggage,
+          addOns: quote.addOns,
+          vehicleId: vehicle.id,
+          vehicleName: vehicle.name,
+          estimatedFare: quote.total,
+          fareBreakdown: quote.lines,
+          routeEstimate: quote.route,
+          customerName: input.customerName,
+          customerEmail: input.customerEmail,
+          customerPhone: input.customerPhone,
+          specialInstructions: input.specialInstructions,
+          holdExpiresAt: input.quoteRequest ? null : holdExpiresAt,
+          referenceCode: referenceCodes[index],
+          ...(seriesRef && input.recurrence
+            ? {
+                seriesId: seriesRef.id,
+                seriesLeadBookingId: bookingRefs[0].id,
+                seriesFrequency: input.recurrence.frequency,
+                seriesPaymentMode: input.seriesPaymentMode,
+                occurrenceIndex: index + 1,
+                occurrenceCount: occurrences.length,
+              }
+            : {}),
+          // The instant fare stays on a quote request as a starting point for dispatch's price.
+          status: input.quoteRequest ? "quote_requested" : "pending",
+          paymentStatus: "unpaid",
+          source: "web-booking",
+          createdAt: FieldValue.serverTimestamp(),
+        });
+      });
+
+      return null;
+    });
+
+    if (soldOutDate) {
+      return NextResponse.json(
+        {
+          error: `${vehicle.name} is fully booked ${isSeries ? `on ${soldOutDate}` : "at that time"}. Please choose another vehicle or time.`,
+          soldOut: true,
+        },
+        { status: 409 },
+      );
+    }
+
+    return NextResponse.json({
+      bookingId: bookingRefs[0].id,
+      referenceCode: referenceCodes[0],
+      estimatedFare: quotes[0].total,
+      seriesId: seriesRef?.id ?? null,
+      occurrenceCount: occurrences.length,
+      seriesTotal,
+      quoteRequested: input.quoteRequest,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to save booking." },
+      { status: 500 },
+    );
+  }
+}
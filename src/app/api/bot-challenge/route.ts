@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { issueBotChallenge } from "@/lib/bot-protection-server";
+
+// The booking form fetches a proof-of-work challenge when the customer reaches step 3 and
+// solves it in the background; POST /api/bookings checks the answer.
+export async function GET() {
+  return NextResponse.json(issueBotChallenge(), { headers: { "Cache-Control": "no-store" } });
+}
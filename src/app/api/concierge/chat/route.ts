@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from "next/server";
 import OpenAI from "openai";
 import { conciergeKnowledge } from "@/lib/concierge-knowledge";
+import { MAX_ITINERARY_STOPS } from "@/lib/pricing";
+import { CONCIERGE_RATE_LIMIT, enforceRateLimit } from "@/lib/rate-limit-server";
+
+// Every message is an OpenAI call, so what one visitor can send is capped in size as well as rate.
+const MAX_MESSAGE_LENGTH = 1000;
+const MAX_HISTORY_MESSAGES = 10;
+// The booking context is client-supplied, so only known fields reach the prompt, each bounded.
+const MAX_CONTEXT_TEXT_LENGTH = 200;
+const MAX_CONTEXT_VEHICLE_CLASSES = 10;
+const MAX_CONTEXT_BLACKOUT_DATES = 20;
 
 type ConciergeRole = "user" | "assistant";
 
+const CONCIERGE_ROLES: ConciergeRole[] = ["user", "assistant"];
+
 type ConciergeMessage = {
   role: ConciergeRole;
   text: string;
@@ -13,16 +25,90 @@ type ConciergeContext = {
   bookingStep?: number;
   serviceTypeLabel?: string;
   passengers?: number;
+  luggage?: number;
   selectedVehicleName?: string;
   estimatedFare?: number;
+  pickupAddress?: string;
+  stops?: { address: string; waitMinutes: number }[];
+  dropoffAddress?: string;
+  bookingRuleIssue?: string;
+  bookingRules?: {
+    minNoticeHours: Record<string, number>;
+    maxAdvanceDays: number;
+    operatingHours: string;
+    blackoutDates: { date: string; label: string }[];
+  };
 };
 
 type ChatRequestBody = {
   message?: string;
   history?: ConciergeMessage[];
-  context?: ConciergeContext;
+  context?: unknown;
 };
 
+function contextText(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, MAX_CONTEXT_TEXT_LENGTH) : undefined;
+}
+
+function contextNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function sanitizeContext(raw: unknown): ConciergeContext | undefined {
+  if (!raw || typeof raw !== "object") {
+    return undefined;
+  }
+
+  const context = raw as Record<string, unknown>;
+  const rules = context.bookingRules as Record<string, unknown> | null | undefined;
+  let bookingRules: ConciergeContext["bookingRules"];
+
+  if (rules && typeof rules === "object") {
+    const minNoticeHours: Record<string, number> = {};
+
+    Object.entries((rules.minNoticeHours as Record<string, unknown> | null) ?? {})
+      .slice(0, MAX_CONTEXT_VEHICLE_CLASSES)
+      .forEach(([vehicleClass, hours]) => {
+        const value = contextNumber(hours);
+
+        if (value !== undefined) {
+          minNoticeHours[vehicleClass.slice(0, MAX_CONTEXT_TEXT_LENGTH)] = value;
+        }
+      });
+
+    bookingRules = {
+      minNoticeHours,
+      maxAdvanceDays: contextNumber(rules.maxAdvanceDays) ?? 0,
+      operatingHours: contextText(rules.operatingHours) ?? "",
+      blackoutDates: (Array.isArray(rules.blackoutDates) ? rules.blackoutDates : [])
+        .slice(0, MAX_CONTEXT_BLACKOUT_DATES)
+        .map((blackout) => ({
+          date: contextText(blackout?.date) ?? "",
+          label: contextText(blackout?.label) ?? "",
+        })),
+    };
+  }
+
+  return {
+    bookingStep: contextNumber(context.bookingStep),
+    serviceTypeLabel: contextText(context.serviceTypeLabel),
+    passengers: contextNumber(context.passengers),
+    luggage: contextNumber(context.luggage),
+    selectedVehicleName: contextText(context.selectedVehicleName),
+    estimatedFare: contextNumber(context.estimatedFare),
+    pickupAddress: contextText(context.pickupAddress),
+    stops: Array.isArray(context.stops)
+      ? context.stops.slice(0, MAX_ITINERARY_STOPS).map((stop) => ({
+          address: contextText(stop?.address) ?? "",
+          waitMinutes: contextNumber(stop?.waitMinutes) ?? 0,
+        }))
+      : undefined,
+    dropoffAddress: contextText(context.dropoffAddress),
+    bookingRuleIssue: contextText(context.bookingRuleIssue),
+    bookingRules,
+  };
+}
+
 function buildSystemPrompt(context?: ConciergeContext) {
   return [
     "You are the virtual concierge for a premium black car service brand.",
@@ -33,7 +119,11 @@ function buildSystemPrompt(context?: ConciergeContext) {
     "Never invent exact pricing unless the booking context provides an estimate.",
     "If uncertain, state that dispatch will confirm the final details after submission.",
     "Keep answers concise, polished, and customer-facing in US English.",
-    "If user asks for vehicle recommendation, use passenger count and trip style.",
+    "If user asks for vehicle recommendation, use passenger count, luggage count and trip style.",
+    "The booking context lists the itinerary in order: pickup, any intermediate stops with wait minutes, then drop-off.",
+    "Stops are added in step 1; each stop carries a flat stop fee and wait time is billed at the vehicle's hourly rate.",
+    "The booking context includes the booking rules (minimum notice per vehicle, how far ahead bookings open, operating hours, blackout dates).",
+    "If bookingRuleIssue is present, the requested time was rejected: explain that reason using the rules and suggest a time, date or vehicle that would work.",
     "Return plain text only.",
     "",
     `Business knowledge: ${JSON.stringify(conciergeKnowledge)}`,
@@ -59,6 +149,24 @@ function fallbackReply(message: string, context?: ConciergeContext) {
     return "Final pricing is confirmed during checkout and reviewed by dispatch after submission.";
   }
 
+  if (
+    context?.bookingRuleIssue &&
+    ["why", "can't", "cannot", "time", "date", "book", "notice"].some((word) => normalized.includes(word))
+  ) {
+    const rules = context.bookingRules;
+    const hours = rules ? ` We take online pickups ${rules.operatingHours}, up to ${rules.maxAdvanceDays} days ahead.` : "";
+    return `${context.bookingRuleIssue}${hours} Dispatch can help with anything outside these rules.`;
+  }
+
+  if (normalized.includes("stop")) {
+    const stopCount = context?.stops?.length ?? 0;
+    if (stopCount > 0) {
+      return `Your itinerary has ${stopCount} stop${stopCount === 1 ? "" : "s"} between pickup and drop-off; each stop and any wait time is included in your estimate.`;
+    }
+
+    return "You can add up to five stops with optional wait times in step 1, and they are priced into your estimate.";
+  }
+
   if (normalized.includes("step") || normalized.includes("next")) {
     return "I can guide you step-by-step: trip details, vehicle selection, then confirmation and payment.";
   }
@@ -68,6 +176,12 @@ function fallbackReply(message: string, context?: ConciergeContext) {
 
 export async function POST(request: NextRequest) {
   try {
+    const limited = await enforceRateLimit(request, CONCIERGE_RATE_LIMIT);
+
+    if (limited) {
+      return limited;
+    }
+
     const body = (await request.json()) as ChatRequestBody;
     const userMessage = body.message?.trim();
 
@@ -75,15 +189,26 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Missing message." }, { status: 400 });
     }
 
+    if (userMessage.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Please keep messages under ${MAX_MESSAGE_LENGTH} characters.` },
+        { status: 400 },
+      );
+    }
+
+    const context = sanitizeContext(body.context);
     const apiKey = process.env.OPENAI_API_KEY;
 
     if (!apiKey) {
-      return NextResponse.json({ reply: fallbackReply(userMessage, body.context) });
+      return NextResponse.json({ reply: fallbackReply(userMessage, context) });
     }
 
     const client = new OpenAI({ apiKey });
 
-    const history = (body.history ?? []).slice(-10);
+    // History is client-supplied too; entries with any other role (e.g. "system") are dropped.
+    const history = (Array.isArray(body.history) ? body.history : [])
+      .filter((item) => CONCIERGE_ROLES.includes(item?.role))
+      .slice(-MAX_HISTORY_MESSAGES);
 
     const completion = await client.chat.completions.create({
       model: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
@@ -91,11 +216,11 @@ export async function POST(request: NextRequest) {
       messages: [
         {
           role: "system",
-          content: buildSystemPrompt(body.context),
+          content: buildSystemPrompt(context),
         },
         ...history.map((item) => ({
           role: item.role,
-          content: item.text,
+          content: String(item.text ?? "").slice(0, MAX_MESSAGE_LENGTH),
         })),
         {
           role: "user",
@@ -104,7 +229,7 @@ export async function POST(request: NextRequest) {
       ],
     });
 
-    const reply = completion.choices[0]?.message?.content?.trim() ?? fallbackReply(userMessage, body.context);
+    const reply = completion.choices[0]?.message?.content?.trim() ?? fallbackReply(userMessage, context);
 
     return NextResponse.json({ reply });
   } catch (error) {
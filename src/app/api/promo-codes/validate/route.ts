@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { normalizePromoCodeInput, todayInNewYork } from "@/lib/promo-codes";
+import { previewPromoCode } from "@/lib/promo-codes-server";
+import { enforceRateLimit, PROMO_CODE_RATE_LIMIT } from "@/lib/rate-limit-server";
+
+type ValidateBody = {
+  code?: string;
+  vehicleId?: string;
+  subtotal?: number;
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const limited = await enforceRateLimit(request, PROMO_CODE_RATE_LIMIT);
+
+    if (limited) {
+      return limited;
+    }
+
+    const body = (await request.json()) as ValidateBody;
+    const code = normalizePromoCodeInput(body.code ?? "");
+    const subtotal = Number(body.subtotal);
+
+    if (!code || !body.vehicleId || !Number.isFinite(subtotal) || subtotal <= 0) {
+      return NextResponse.json({ error: "Enter a promo code after choosing your vehicle." }, { status: 400 });
+    }
+
+    const result = await previewPromoCode(code, {
+      vehicleId: body.vehicleId,
+      subtotal,
+      today: todayInNewYork(),
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to check this promo code." },
+      { status: 500 },
+    );
+  }
+}
@@ -1,113 +1,540 @@
 import { NextRequest, NextResponse } from "next/server";
+import { DocumentData, DocumentReference } from "firebase-admin/firestore";
 import Stripe from "stripe";
+import { BookedAddOn } from "@/lib/add-ons";
+import { holdLapsed } from "@/lib/availability";
+import { keepInventoryHold } from "@/lib/availability-server";
+import { fetchLiveBookingRules, fetchLivePricingConfig, fetchLiveSiteContent } from "@/lib/live-site-content";
+import { minNoticeHoursFor } from "@/lib/booking-rules";
+import { RESUMABLE_PAYMENT_STATUSES } from "@/lib/bookings";
+import { fetchSeriesBookings } from "@/lib/booking-series-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import {
+  calculateGroupFare,
+  GROUP_VEHICLE_ID,
+  groupCapacityIssue,
+  groupFareLines,
+  normalizeGroupVehicles,
+} from "@/lib/group-bookings";
+import {
+  calculateFare,
+  faresMatch,
+  ItineraryStop,
+  normalizeStops,
+  roundCurrency,
+  ServiceType,
+  unmappedRouteIssue,
+} from "@/lib/pricing";
+import { normalizePromoCodeInput, todayInNewYork } from "@/lib/promo-codes";
+import { releasePromoCode, reservePromoCode } from "@/lib/promo-codes-server";
+import { BookingQuote, isQuoteStatus, quoteExpired, quotePickupIssue } from "@/lib/quotes";
+import { CHECKOUT_RATE_LIMIT, enforceRateLimit } from "@/lib/rate-limit-server";
+import { vehicleCapacityIssue } from "@/lib/site-content";
+import { requireStripe, stripeCaptureMethod, stripeConfigError } from "@/lib/stripe-server";
 
-type ServiceType = "one-way" | "round-trip" | "hourly";
-
+// The trip, vehicle and contact details come from the stored booking; the request only says
+// which booking to pay, the fare the customer saw and an optional promo code.
 type CheckoutBody = {
   bookingId?: string;
-  vehicleId?: string;
-  serviceType?: ServiceType;
   estimatedFare?: number;
-  customerName?: string;
-  customerEmail?: string;
+  promoCode?: string;
 };
 
-const vehicleBaseFare: Record<string, number> = {
-  sedan: 120,
-  suv: 145,
-  sprinter: 220,
-};
+// An abandoned checkout frees its vehicles when the session expires (see the webhook), so
+// sessions close after about an hour instead of Stripe's default 24.
+const CHECKOUT_SESSION_MINUTES = 60;
+const CHECKOUT_EXPIRY_STEP_SECONDS = 10 * 60;
 
-const serviceMultiplier: Record<ServiceType, number> = {
-  "one-way": 1,
-  "round-trip": 2,
-  hourly: 3,
+type CheckoutSessionOptions = {
+  bookingId: string;
+  bookingRef: DocumentReference;
+  booking: DocumentData;
+  amountDue: number;
+  promoCode: string;
+  discountAmount: number;
+  discountLabel: string;
+  customerEmail?: string;
+  lineItems: Stripe.Checkout.SessionCreateParams.LineItem[];
+  metadata: Record<string, string>;
 };
 
-const serviceLabel: Record<ServiceType, string> = {
-  "one-way": "One Way",
-  "round-trip": "Round Trip",
-  hourly: "Hourly",
-};
+// Shared by fare and quote checkouts once the amount is settled: reuses or replaces the
+// booking's previous session, then creates the new one and records it on the booking.
+async function openCheckoutSession(
+  request: NextRequest,
+  {
+    bookingId,
+    bookingRef,
+    booking,
+    amountDue,
+    promoCode,
+    discountAmount,
+    discountLabel,
+    customerEmail,
+    lineItems,
+    metadata,
+  }: CheckoutSessionOptions,
+) {
+  const stripe = requireStripe();
+  const captureMethod = stripeCaptureMethod();
 
-const vehicleLabel: Record<string, string> = {
-  sedan: "Luxury Sedan",
-  suv: "Premium SUV",
-  sprinter: "Executive Van",
-};
+  // Resuming a cancelled checkout reopens the same session while it is still valid for
+  // this amount; otherwise the old session is expired so it cannot be paid alongside the new one.
+  if (booking.stripeCheckoutSessionId) {
+    const previousSession = await stripe.checkout.sessions.retrieve(booking.stripeCheckoutSessionId);
+
+    if (previousSession.status === "open" && previousSession.url) {
+      if (previousSession.amount_total === Math.round(amountDue * 100)) {
+        return NextResponse.json({ url: previousSession.url });
+      }
+
+      await bookingRef.update({ stripeCheckoutSessionId: null, checkoutSessionStatus: "replaced" });
+      await stripe.checkout.sessions.expire(previousSession.id);
+    }
+  }
+
+  // One idempotency key per booking checkout attempt, so double submits get the same session.
+  const checkoutAttempt = Number(booking.checkoutAttempts ?? 0) + 1;
+  const idempotencyPrefix = `booking-${bookingId}-checkout-${checkoutAttempt}`;
+
+  // Stripe line items cannot be negative, so the promo is applied as a single-use coupon. The key
+  // names the code and amount, since a failed attempt can be retried with a different promo.
+  const coupon =
+    discountAmount > 0
+      ? await stripe.coupons.create(
+          {
+            amount_off: Math.round(discountAmount * 100),
+            currency: "usd",
+            duration: "once",
+            max_redemptions: 1,
+            name: discountLabel.slice(0, 40),
+          },
+          {
+            idempotencyKey: `${idempotencyPrefix}-coupon-${promoCode}-${Math.round(discountAmount * 100)}`,
+          },
+        )
+      : null;
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? new URL(request.url).origin;
+  // Rounded up so a double submit sends the same parameters under the same idempotency key.
+  const expiresAt =
+    Math.ceil((Date.now() / 1000 + CHECKOUT_SESSION_MINUTES * 60) / CHECKOUT_EXPIRY_STEP_SECONDS) *
+    CHECKOUT_EXPIRY_STEP_SECONDS;
+
+  const session = await stripe.checkout.sessions.create(
+    {
+      mode: "payment",
+      success_url: `${appUrl}/booking?checkout=success&bookingId=${bookingId}&sessionId={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${appUrl}/booking?checkout=cancelled&bookingId=${bookingId}`,
+      customer_email: customerEmail,
+      line_items: lineItems,
+      discounts: coupon ? [{ coupon: coupon.id }] : undefined,
+      payment_intent_data: {
+        capture_method: captureMethod,
+        metadata: { bookingId },
+      },
+      metadata: { ...metadata, captureMethod },
+      expires_at: expiresAt,
+    },
+    { idempotencyKey: `${idempotencyPrefix}-${expiresAt}-${coupon?.id ?? "none"}-${Math.round(amountDue * 100)}` },
+  );
+
+  if (!session.url) {
+    return NextResponse.json({ error: "Stripe did not return a checkout URL." }, { status: 500 });
+  }
+
+  await bookingRef.update({
+    stripeCheckoutSessionId: session.id,
+    checkoutSessionStatus: "open",
+    checkoutAttempts: checkoutAttempt,
+    paymentCaptureMethod: captureMethod,
+  });
+
+  if (booking.holdExpiresAt) {
+    await keepInventoryHold(booking, bookingId);
+  }
+
+  return NextResponse.json({ url: session.url });
+}
+
+// A quoted trip is charged the total dispatch quoted and the customer accepted, one Stripe
+// line per quote line. Promo codes do not apply to quotes.
+async function checkoutQuotedBooking(
+  request: NextRequest,
+  body: CheckoutBody,
+  bookingRef: DocumentReference,
+  booking: DocumentData,
+) {
+  const quote = booking.quote as BookingQuote;
+
+  if (!quote.acceptedAt) {
+    return NextResponse.json({ error: "Please accept the quote before paying." }, { status: 409 });
+  }
+
+  if (quoteExpired(quote)) {
+    return NextResponse.json(
+      { error: "This quote has expired. Please contact dispatch for an updated price." },
+      { status: 409 },
+    );
+  }
+
+  const bookingRules = await fetchLiveBookingRules();
+  const pickupIssue = quotePickupIssue(booking, minNoticeHoursFor(bookingRules, booking.vehicleId ?? ""));
+
+  if (pickupIssue) {
+    return NextResponse.json({ error: pickupIssue }, { status: 409 });
+  }
+
+  const estimatedFareFromRequest = Number(body.estimatedFare);
+
+  if (!Number.isFinite(estimatedFareFromRequest) || !faresMatch(estimatedFareFromRequest, quote.total)) {
+    return NextResponse.json(
+      {
+        error: `Your quoted total is $${quote.total.toFixed(2)}. Please review the quote and pay again.`,
+        quotedFare: quote.total,
+      },
+      { status: 409 },
+    );
+  }
+
+  await bookingRef.update({
+    estimatedFare: quote.total,
+    fareBreakdown: quote.lines,
+    promoCode: null,
+    discountAmount: 0,
+    amountDue: quote.total,
+  });
+
+  return openCheckoutSession(request, {
+    bookingId: bookingRef.id,
+    bookingRef,
+    booking,
+    amountDue: quote.total,
+    promoCode: "",
+    discountAmount: 0,
+    discountLabel: "",
+    customerEmail: booking.customerEmail,
+    lineItems: quote.lines.map((line) => ({
+      quantity: 1,
+      price_data: {
+        currency: "usd",
+        unit_amount: Math.round(line.amount * 100),
+        product_data: {
+          name: line.label,
+          description: `Quoted trip · ${booking.serviceDate} at ${booking.pickupTime}`,
+        },
+      },
+    })),
+    metadata: {
+      bookingId: bookingRef.id,
+      referenceCode: booking.referenceCode ?? "",
+      vehicleId: booking.vehicleId ?? "",
+      serviceType: booking.tripType ?? "",
+      quotedFare: quote.total.toFixed(2),
+      quoteSentAt: quote.sentAt,
+      promoCode: "",
+      discountAmount: "0.00",
+      customerName: booking.customerName ?? "",
+      customerEmail: booking.customerEmail ?? "",
+    },
+  });
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    if (stripeConfigError) {
+      return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+    }
 
-    if (!stripeSecretKey) {
-      return NextResponse.json(
-        { error: "Stripe is not configured. Missing STRIPE_SECRET_KEY." },
-        { status: 500 },
-      );
+    const limited = await enforceRateLimit(request, CHECKOUT_RATE_LIMIT);
+
+    if (limited) {
+      return limited;
     }
 
     const body = (await request.json()) as CheckoutBody;
 
-    if (!body.bookingId || !body.vehicleId || !body.serviceType) {
+    if (!body.bookingId) {
       return NextResponse.json(
         { error: "Missing required checkout fields." },
         { status: 400 },
       );
     }
 
-    if (!(body.vehicleId in vehicleBaseFare) || !(body.serviceType in serviceMultiplier)) {
-      return NextResponse.json({ error: "Invalid vehicle or service type." }, { status: 400 });
+    const bookingRef = requireAdminDb().collection("bookings").doc(body.bookingId);
+    const bookingSnapshot = await bookingRef.get();
+
+    if (!bookingSnapshot.exists) {
+      return NextResponse.json({ error: "Booking not found." }, { status: 404 });
     }
 
-    const fallbackAmountUsd = vehicleBaseFare[body.vehicleId] * serviceMultiplier[body.serviceType];
-    const estimatedFareFromRequest = Number(body.estimatedFare ?? 0);
-    const amountUsd =
-      Number.isFinite(estimatedFareFromRequest) && estimatedFareFromRequest > 0
-        ? estimatedFareFromRequest
-        : fallbackAmountUsd;
-    const unitAmount = Math.round(amountUsd * 100);
+    const booking = bookingSnapshot.data() ?? {};
+
+    if (!RESUMABLE_PAYMENT_STATUSES.includes(booking.paymentStatus ?? "unpaid")) {
+      return NextResponse.json({ error: "This booking has already been paid." }, { status: 409 });
+    }
+
+    if (booking.status === "cancelled" || booking.status === "completed") {
+      return NextResponse.json({ error: "This booking can no longer be paid online." }, { status: 409 });
+    }
+
+    // The vehicle was released because checkout was never opened; the trip has to be booked again.
+    if (holdLapsed(booking)) {
+      return NextResponse.json(
+        { error: "We could not hold this vehicle any longer. Please start a new booking." },
+        { status: 409 },
+      );
+    }
+
+    if (booking.quote) {
+      return await checkoutQuotedBooking(request, body, bookingRef, booking);
+    }
+
+    if (isQuoteStatus(booking.status)) {
+      return NextResponse.json(
+        { error: "Dispatch has not sent a quote for this booking yet." },
+        { status: 409 },
+      );
+    }
+
+    if (booking.groupParentBookingId) {
+      return NextResponse.json(
+        { error: "This vehicle is paid with its group booking. Please pay from the group booking link." },
+        { status: 409 },
+      );
+    }
+
+    // The trip is priced from the booking document, never from the request, so a client cannot
+    // pay for a cheaper trip under this booking id. The body only carries the fare the
+    // customer was shown and an optional promo code.
+    const [siteContent, pricingConfig] = await Promise.all([
+      fetchLiveSiteContent(),
+      fetchLivePricingConfig(),
+    ]);
+    const tripInput = {
+      serviceType: booking.tripType as ServiceType,
+      pickupAddress: booking.pickupAddress ?? "",
+      dropoffAddress: booking.dropoffAddress ?? "",
+      pickupPoint: booking.pickupPlace?.point ?? null,
+      dropoffPoint: booking.dropoffPlace?.point ?? null,
+      returnPickupAddress: booking.returnLeg?.pickupAddress ?? "",
+      serviceDate: booking.serviceDate ?? "",
+      pickupTime: booking.pickupTime ?? "",
+      hours: booking.hours ?? undefined,
+      stops: (booking.stops ?? []) as ItineraryStop[],
+    };
+    const passengers = Number(booking.passengers ?? 1);
+    const luggage = Number(booking.luggage ?? 0);
+
+    // A group booking is priced per class from the quantities stored on its parent booking.
+    const isGroup = booking.vehicleId === GROUP_VEHICLE_ID;
+    const groupVehicles = isGroup ? normalizeGroupVehicles(booking.groupVehicles ?? []) : [];
+    const groupQuote = isGroup
+      ? calculateGroupFare(siteContent.fleet, tripInput, groupVehicles, pricingConfig.surchargeRules)
+      : null;
+    const singleQuote = isGroup
+      ? null
+      : calculateFare(
+          siteContent.fleet,
+          {
+            ...tripInput,
+            vehicleId: booking.vehicleId ?? "",
+            addOns: ((booking.addOns ?? []) as BookedAddOn[]).map(({ id, quantity }) => ({ id, quantity })),
+          },
+          pricingConfig.surchargeRules,
+          pricingConfig.addOns,
+        );
+    const quote = singleQuote ?? groupQuote?.quotes[0];
+
+    if (!quote || (isGroup && !groupQuote)) {
+      return NextResponse.json(
+        { error: "We could not price this booking. Please contact dispatch." },
+        { status: 400 },
+      );
+    }
+
+    const routeIssue = unmappedRouteIssue(quote);
+
+    if (routeIssue) {
+      return NextResponse.json({ error: routeIssue }, { status: 400 });
+    }
+
+    const fareTotal = groupQuote?.total ?? quote.total;
+    const vehicle = siteContent.fleet.find((item) => item.id === quote.vehicleId);
+    const capacityIssue = isGroup
+      ? groupCapacityIssue(siteContent.fleet, groupVehicles, passengers, luggage)
+      : vehicle
+        ? vehicleCapacityIssue(vehicle, passengers, luggage)
+        : null;
+
+    if (capacityIssue) {
+      return NextResponse.json(
+        { error: isGroup ? capacityIssue : `${capacityIssue} Please choose a larger vehicle.` },
+        { status: 400 },
+      );
+    }
+
+    const estimatedFareFromRequest = Number(body.estimatedFare);
+
+    if (!Number.isFinite(estimatedFareFromRequest) || !faresMatch(estimatedFareFromRequest, fareTotal)) {
+      return NextResponse.json(
+        {
+          error: `Your fare changed to $${fareTotal.toFixed(2)} since you started booking. Please review the updated summary and confirm again.`,
+          quotedFare: fareTotal,
+        },
+        { status: 409 },
+      );
+    }
+
+    const unitAmount = Math.round(fareTotal * 100);
 
     if (unitAmount <= 0) {
       return NextResponse.json({ error: "Invalid checkout amount." }, { status: 400 });
     }
 
-    const stripe = new Stripe(stripeSecretKey);
+    // A series paid as one charge is checked out from its first ride and covers every ride
+    // still booked, each at the fare stored when the series was created.
+    const isSeriesCharge = Boolean(booking.seriesId) && booking.seriesPaymentMode === "series";
 
-    const appUrl = process.env.NEXT_PUBLIC_APP_URL ?? new URL(request.url).origin;
+    if (isSeriesCharge && booking.seriesLeadBookingId !== body.bookingId) {
+      return NextResponse.json(
+        { error: "This ride is paid with its series. Please pay from the first ride of the series." },
+        { status: 409 },
+      );
+    }
 
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      success_url: `${appUrl}/booking?checkout=success&bookingId=${body.bookingId}`,
-      cancel_url: `${appUrl}/booking?checkout=cancelled&bookingId=${body.bookingId}`,
-      customer_email: body.customerEmail,
-      line_items: [
-        {
-          quantity: 1,
-          price_data: {
-            currency: "usd",
-            unit_amount: unitAmount,
-            product_data: {
-              name: `${vehicleLabel[body.vehicleId]} · ${serviceLabel[body.serviceType]}`,
-              description: "WNY Black Car premium reservation",
+    const seriesRides = isSeriesCharge
+      ? (await fetchSeriesBookings(booking.seriesId)).filter((ride) => ride.get("status") !== "cancelled")
+      : [];
+    const rideFare = (ride: (typeof seriesRides)[number]) =>
+      ride.id === body.bookingId ? quote.total : Number(ride.get("estimatedFare") ?? 0);
+    const subtotal = isSeriesCharge
+      ? roundCurrency(seriesRides.reduce((total, ride) => total + rideFare(ride), 0))
+      : fareTotal;
+
+    const promoCode = normalizePromoCodeInput(body.promoCode ?? "");
+    let discountAmount = 0;
+    let discountLabel = "";
+
+    if (promoCode) {
+      const promoResult = await reservePromoCode(promoCode, body.bookingId, {
+        vehicleId: isGroup ? GROUP_VEHICLE_ID : quote.vehicleId,
+        subtotal,
+        today: todayInNewYork(),
+      });
+
+      if (!promoResult.ok) {
+        return NextResponse.json({ error: promoResult.error, promoError: true }, { status: 400 });
+      }
+
+      discountAmount = promoResult.discountAmount;
+      discountLabel = promoResult.label;
+    }
+
+    // A retry with another code, or none, gives back the slot the earlier attempt reserved.
+    if (booking.promoCode && booking.promoCode !== promoCode) {
+      await releasePromoCode(booking.promoCode, body.bookingId);
+    }
+
+    const amountDue = roundCurrency(subtotal - discountAmount);
+
+    await bookingRef.update({
+      estimatedFare: fareTotal,
+      fareBreakdown: groupQuote ? groupFareLines(groupQuote) : quote.lines,
+      addOns: groupQuote ? [] : quote.addOns,
+      promoCode: promoCode || null,
+      discountAmount,
+      amountDue,
+    });
+
+    const sessionOptions: CheckoutSessionOptions = {
+      bookingId: body.bookingId,
+      bookingRef,
+      booking,
+      amountDue,
+      promoCode,
+      discountAmount,
+      discountLabel,
+      customerEmail: booking.customerEmail,
+      lineItems: isSeriesCharge
+        ? seriesRides.map((ride) => ({
+            quantity: 1,
+            price_data: {
+              currency: "usd",
+              unit_amount: Math.round(rideFare(ride) * 100),
+              product_data: {
+                name: `Ride on ${ride.get("serviceDate")} at ${ride.get("pickupTime")}`,
+                description: `Recurring series · ${ride.get("vehicleName") ?? "WNY Black Car"}`,
+              },
             },
-          },
-        },
-      ],
+          }))
+        : groupQuote
+          ? groupQuote.lines.map((line) => ({
+              quantity: line.quantity,
+              price_data: {
+                currency: "usd",
+                unit_amount: Math.round(line.unitFare * 100),
+                product_data: {
+                  name: line.vehicleName,
+                  description: `Group booking · ${booking.serviceDate} at ${booking.pickupTime}`,
+                },
+              },
+            }))
+          : quote.lines.map((line) => {
+              // Add-ons are sold per unit, so Stripe shows their quantity instead of a lump sum.
+              const addOn = quote.addOns.find((item) => line.code === `addon:${item.id}`);
+
+              return {
+                quantity: addOn?.quantity ?? 1,
+                price_data: {
+                  currency: "usd",
+                  unit_amount: Math.round((addOn?.unitPrice ?? line.amount) * 100),
+                  product_data: {
+                    name: addOn?.name ?? line.label,
+                    description: addOn ? "Add-on" : "WNY Black Car premium reservation",
+                  },
+                },
+              };
+            }),
       metadata: {
         bookingId: body.bookingId,
-        vehicleId: body.vehicleId,
-        serviceType: body.serviceType,
-        customerName: body.customerName ?? "",
-        customerEmail: body.customerEmail ?? "",
+        referenceCode: booking.referenceCode ?? "",
+        vehicleId: booking.vehicleId ?? "",
+        serviceType: booking.tripType ?? "",
+        quotedFare: fareTotal.toFixed(2),
+        groupVehicles: groupQuote
+          ? groupQuote.lines.map((line) => `${line.vehicleId}x${line.quantity}`).join(",")
+          : "",
+        seriesId: isSeriesCharge ? booking.seriesId : "",
+        seriesRides: isSeriesCharge ? seriesRides.length.toString() : "",
+        promoCode,
+        discountAmount: discountAmount.toFixed(2),
+        routeMiles: quote.route?.miles?.toString() ?? "",
+        stopCount: normalizeStops(tripInput.stops).length.toString(),
+        returnPickup: booking.returnLeg ? `${booking.returnLeg.serviceDate} ${booking.returnLeg.pickupTime}` : "",
+        billableHours: quote.hourly?.billableHours.toString() ?? "",
+        customerName: booking.customerName ?? "",
+        customerEmail: booking.customerEmail ?? "",
       },
-    });
+    };
 
-    if (!session.url) {
-      return NextResponse.json({ error: "Stripe did not return a checkout URL." }, { status: 500 });
-    }
+    // The promo slot was reserved above; if Stripe does not open a session it is given back so a
+    // limited-use code is not used up by a checkout that never happened.
+    try {
+      const response = await openCheckoutSession(request, sessionOptions);
 
-    return NextResponse.json({ url: session.url });
+      if (!response.ok && promoCode) {
+        await releasePromoCode(promoCode, body.bookingId);
+      }
+
+      return response;
+    } catch (sessionError) {
+      if (promoCode) {
+        await releasePromoCode(promoCode, body.bookingId);
+      }
+
+      throw sessionError;
+    }
   } catch (error) {
     return NextResponse.json(
       {
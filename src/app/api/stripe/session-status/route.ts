@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { requireStripe, stripeConfigError } from "@/lib/stripe-server";
+
+// Lets the booking page confirm a redirect with Stripe instead of trusting `?checkout=success`.
+export async function GET(request: NextRequest) {
+  try {
+    if (stripeConfigError) {
+      return NextResponse.json({ error: stripeConfigError }, { status: 500 });
+    }
+
+    const sessionId = request.nextUrl.searchParams.get("sessionId");
+    const bookingId = request.nextUrl.searchParams.get("bookingId");
+
+    if (!sessionId || !bookingId) {
+      return NextResponse.json({ error: "Missing checkout session." }, { status: 400 });
+    }
+
+    const session = await requireStripe().checkout.sessions.retrieve(sessionId);
+
+    if (session.metadata?.bookingId !== bookingId) {
+      return NextResponse.json({ error: "Checkout session does not match this booking." }, { status: 404 });
+    }
+
+    const bookingSnapshot = await requireAdminDb().collection("bookings").doc(bookingId).get();
+
+    // Manual-capture sessions complete as "unpaid"; the intent shows whether the hold succeeded.
+    const intentId =
+      typeof session.payment_intent === "string" ? session.payment_intent : session.payment_intent?.id;
+    const paymentIntent =
+      session.metadata?.captureMethod === "manual" && intentId
+        ? await requireStripe().paymentIntents.retrieve(intentId)
+        : null;
+
+    return NextResponse.json({
+      sessionStatus: session.status,
+      sessionPaymentStatus: session.payment_status,
+      paymentIntentStatus: paymentIntent?.status ?? null,
+      bookingPaymentStatus: bookingSnapshot.get("paymentStatus") ?? null,
+      referenceCode: bookingSnapshot.get("referenceCode") ?? null,
+    });
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to verify checkout session." },
+      { status: 500 },
+    );
+  }
+}
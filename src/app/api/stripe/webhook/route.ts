@@ -0,0 +1,419 @@
+import { NextRequest, NextResponse } from "next/server";
+import Stripe from "stripe";
+import { DocumentData, FieldValue } from "firebase-admin/firestore";
+import { OvertimeCharge, PaymentStatus } from "@/lib/bookings";
+import { fetchSeriesBookings, mirrorSeriesPayment } from "@/lib/booking-series-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { cancelGroupUnits, mirrorGroupPayment } from "@/lib/group-bookings-server";
+import { releasePromoCode } from "@/lib/promo-codes-server";
+import { requireStripe } from "@/lib/stripe-server";
+
+type BookingUpdate = Record<string, unknown>;
+
+type PendingEvent = {
+  bookingId: string;
+  buildUpdate: (booking: DocumentData) => BookingUpdate | null;
+  afterApply?: (booking: DocumentData) => Promise<void>;
+};
+
+type EventOutcome = "applied" | "ignored" | "duplicate" | "booking-missing" | "unhandled";
+
+const SETTLED_PAYMENT_STATUSES: PaymentStatus[] = ["paid", "partially_refunded", "refunded"];
+
+function paymentIntentId(value: string | Stripe.PaymentIntent | null) {
+  if (!value) return null;
+  return typeof value === "string" ? value : value.id;
+}
+
+async function findBookingIdByPaymentIntent(intentId: string | null) {
+  if (!intentId) return null;
+
+  const snapshot = await requireAdminDb()
+    .collection("bookings")
+    .where("stripePaymentIntentId", "==", intentId)
+    .limit(1)
+    .get();
+
+  return snapshot.empty ? null : snapshot.docs[0].id;
+}
+
+// Card holds last about seven days; Stripe reports the exact deadline on the charge.
+async function authorizationExpiresAt(intent: Stripe.PaymentIntent) {
+  const chargeId = typeof intent.latest_charge === "string" ? intent.latest_charge : intent.latest_charge?.id;
+  const charge = chargeId ? await requireStripe().charges.retrieve(chargeId) : null;
+  const captureBefore = charge?.payment_method_details?.card?.capture_before;
+  const expiresAt = captureBefore ? captureBefore * 1000 : intent.created * 1000 + 7 * 24 * 60 * 60 * 1000;
+
+  return new Date(expiresAt).toISOString();
+}
+
+// A new booking whose first checkout expired unpaid gives its vehicles back. Later rides of a
+// series that is already underway, and bookings dispatch has confirmed, are kept.
+function releasesVehicleOnExpiry(booking: DocumentData, bookingId: string) {
+  return (
+    booking.status === "pending" &&
+    ["unpaid", "failed"].includes(booking.paymentStatus ?? "unpaid") &&
+    (!booking.seriesId || booking.seriesLeadBookingId === bookingId)
+  );
+}
+
+async function cancelUnpaidSeriesRides(booking: DocumentData) {
+  if (!booking.seriesId) {
+    return;
+  }
+
+  const batch = requireAdminDb().batch();
+  const rides = await fetchSeriesBookings(booking.seriesId);
+
+  for (const ride of rides) {
+    if (ride.get("status") === "pending" && ["unpaid", "failed"].includes(ride.get("paymentStatus") ?? "unpaid")) {
+      batch.update(ride.ref, {
+        status: "cancelled",
+        cancelledBy: "checkout_expired",
+        cancelledAt: FieldValue.serverTimestamp(),
+      });
+    }
+  }
+
+  await batch.commit();
+}
+
+function sessionPaid(session: Stripe.Checkout.Session) {
+  return session.payment_status === "paid" || session.payment_status === "no_payment_required";
+}
+
+// Overtime is paid through its own checkout (POST /api/admin/bookings/<bookingId>/overtime); its
+// events only settle that charge and never touch the booking's own payment.
+function overtimeEvent(
+  session: Stripe.Checkout.Session,
+  settle: (charge: OvertimeCharge) => Partial<OvertimeCharge> | null,
+): PendingEvent | null {
+  const bookingId = session.metadata?.overtimeForBookingId;
+  const chargeId = session.metadata?.overtimeChargeId;
+  if (!bookingId || !chargeId) return null;
+
+  return {
+    bookingId,
+    buildUpdate: (booking) => {
+      const charge = (booking.overtimeCharges ?? {})[chargeId] as OvertimeCharge | undefined;
+      const changes = charge && charge.checkoutSessionId === session.id ? settle(charge) : null;
+
+      return changes
+        ? Object.fromEntries(
+            Object.entries(changes).map(([field, value]) => [`overtimeCharges.${chargeId}.${field}`, value]),
+          )
+        : null;
+    },
+  };
+}
+
+async function describeEvent(event: Stripe.Event): Promise<PendingEvent | null> {
+  switch (event.type) {
+    case "checkout.session.completed":
+    case "checkout.session.async_payment_succeeded": {
+      const session = event.data.object;
+
+      if (session.metadata?.overtimeChargeId) {
+        return overtimeEvent(session, (charge) =>
+          sessionPaid(session) && charge.status !== "paid"
+            ? { status: "paid", paidAt: new Date().toISOString() }
+            : null,
+        );
+      }
+
+      const bookingId = session.metadata?.bookingId;
+      if (!bookingId) return null;
+
+      return {
+        bookingId,
+        buildUpdate: (booking) => {
+          const update: BookingUpdate = {
+            stripeCheckoutSessionId: session.id,
+            stripePaymentIntentId: paymentIntentId(session.payment_intent),
+            checkoutSessionStatus: "complete",
+          };
+
+          // Async methods (e.g. bank debits) complete the session before the money arrives.
+          if (sessionPaid(session) && !["refunded", "partially_refunded"].includes(booking.paymentStatus)) {
+            update.paymentStatus = "paid";
+            update.amountPaid = (session.amount_total ?? 0) / 100;
+            update.paidAt = FieldValue.serverTimestamp();
+          }
+
+          return update;
+        },
+      };
+    }
+
+    case "checkout.session.async_payment_failed": {
+      const session = event.data.object;
+
+      if (session.metadata?.overtimeChargeId) {
+        return overtimeEvent(session, (charge) => (charge.status === "paid" ? null : { status: "failed" }));
+      }
+
+      const bookingId = session.metadata?.bookingId;
+      if (!bookingId) return null;
+
+      return {
+        bookingId,
+        buildUpdate: (booking) =>
+          SETTLED_PAYMENT_STATUSES.includes(booking.paymentStatus)
+            ? null
+            : {
+                paymentStatus: "failed",
+                lastPaymentError: "The payment method was declined after checkout.",
+              },
+      };
+    }
+
+    case "checkout.session.expired": {
+      const session = event.data.object;
+
+      if (session.metadata?.overtimeChargeId) {
+        return overtimeEvent(session, (charge) => (charge.status === "open" ? { status: "expired" } : null));
+      }
+
+      const bookingId = session.metadata?.bookingId;
+      if (!bookingId) return null;
+
+      return {
+        bookingId,
+        // A newer checkout session may already have replaced this one.
+        buildUpdate: (booking) => {
+          if (booking.stripeCheckoutSessionId !== session.id) {
+            return null;
+          }
+
+          if (!releasesVehicleOnExpiry(booking, bookingId)) {
+            return { checkoutSessionStatus: "expired" };
+          }
+
+          // An accepted quote goes back to `quoted`, so accepting it again re-checks the vehicle.
+          if (booking.quote) {
+            return {
+              checkoutSessionStatus: "expired",
+              status: "quoted",
+              quote: { ...booking.quote, acceptedAt: null },
+            };
+          }
+
+          return {
+            checkoutSessionStatus: "expired",
+            status: "cancelled",
+            cancelledBy: "checkout_expired",
+            cancelledAt: FieldValue.serverTimestamp(),
+          };
+        },
+        afterApply: async (booking) => {
+          if (booking.promoCode && booking.paymentStatus !== "paid") {
+            await releasePromoCode(booking.promoCode, bookingId);
+          }
+
+          if (releasesVehicleOnExpiry(booking, bookingId) && !booking.quote) {
+            await cancelGroupUnits(booking, bookingId);
+            await cancelUnpaidSeriesRides(booking);
+          }
+        },
+      };
+    }
+
+    case "payment_intent.payment_failed": {
+      const intent = event.data.object;
+      const bookingId = intent.metadata?.bookingId ?? (await findBookingIdByPaymentIntent(intent.id));
+      if (!bookingId) return null;
+
+      return {
+        bookingId,
+        buildUpdate: (booking) =>
+          SETTLED_PAYMENT_STATUSES.includes(booking.paymentStatus)
+            ? null
+            : {
+                paymentStatus: "failed",
+                stripePaymentIntentId: intent.id,
+                lastPaymentError: intent.last_payment_error?.message ?? "The card payment failed.",
+              },
+      };
+    }
+
+    case "payment_intent.amount_capturable_updated": {
+      const intent = event.data.object;
+      const bookingId = intent.metadata?.bookingId ?? (await findBookingIdByPaymentIntent(intent.id));
+      if (!bookingId || intent.status !== "requires_capture") return null;
+
+      const expiresAt = await authorizationExpiresAt(intent);
+
+      // A customer whose earlier hold expired pays again through a new checkout, so that hold
+      // replaces the expired one.
+      return {
+        bookingId,
+        buildUpdate: (booking) =>
+          ["unpaid", "failed", "authorization_expired"].includes(booking.paymentStatus)
+            ? {
+                paymentStatus: "authorized",
+                stripePaymentIntentId: intent.id,
+                amountAuthorized: intent.amount_capturable / 100,
+                authorizedAt: FieldValue.serverTimestamp(),
+                authorizationExpiresAt: expiresAt,
+              }
+            : null,
+      };
+    }
+
+    case "payment_intent.succeeded": {
+      const intent = event.data.object;
+      const bookingId = intent.metadata?.bookingId ?? (await findBookingIdByPaymentIntent(intent.id));
+      if (!bookingId) return null;
+
+      // Only covers holds captured outside /admin (e.g. from the Stripe dashboard);
+      // immediate-capture payments are settled by checkout.session.completed.
+      return {
+        bookingId,
+        buildUpdate: (booking) =>
+          booking.paymentStatus === "authorized"
+            ? {
+                paymentStatus: "paid",
+                amountPaid: intent.amount_received / 100,
+                paidAt: FieldValue.serverTimestamp(),
+              }
+            : null,
+      };
+    }
+
+    case "payment_intent.canceled": {
+      const intent = event.data.object;
+      const bookingId = intent.metadata?.bookingId ?? (await findBookingIdByPaymentIntent(intent.id));
+      if (!bookingId) return null;
+
+      return {
+        bookingId,
+        buildUpdate: (booking) =>
+          booking.paymentStatus === "authorized"
+            ? {
+                paymentStatus: intent.cancellation_reason === "automatic" ? "authorization_expired" : "released",
+                releasedAt: FieldValue.serverTimestamp(),
+              }
+            : null,
+      };
+    }
+
+    case "charge.refunded": {
+      const charge = event.data.object;
+      const intentId = paymentIntentId(charge.payment_intent);
+      const bookingId = charge.metadata?.bookingId ?? (await findBookingIdByPaymentIntent(intentId));
+      if (!bookingId) return null;
+
+      return {
+        bookingId,
+        buildUpdate: () => ({
+          amountRefunded: charge.amount_refunded / 100,
+          paymentStatus: charge.refunded ? "refunded" : "partially_refunded",
+          ...(charge.refunded ? { refundedAt: FieldValue.serverTimestamp() } : {}),
+        }),
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+// Each Stripe event id is recorded in the same transaction as the booking update, so
+// redelivered events are acknowledged without touching the booking twice.
+async function applyEventOnce(event: Stripe.Event, pending: PendingEvent): Promise<EventOutcome> {
+  const db = requireAdminDb();
+  const eventRef = db.collection("stripeEvents").doc(event.id);
+  const bookingRef = db.collection("bookings").doc(pending.bookingId);
+  let appliedBooking: DocumentData | null = null;
+  let appliedPaymentStatus: PaymentStatus | null = null;
+
+  const outcome = await db.runTransaction<EventOutcome>(async (transaction) => {
+    const [eventSnapshot, bookingSnapshot] = await Promise.all([
+      transaction.get(eventRef),
+      transaction.get(bookingRef),
+    ]);
+
+    if (eventSnapshot.exists) {
+      return "duplicate";
+    }
+
+    const record = {
+      type: event.type,
+      bookingId: pending.bookingId,
+      processedAt: FieldValue.serverTimestamp(),
+    };
+
+    if (!bookingSnapshot.exists) {
+      transaction.create(eventRef, { ...record, outcome: "booking-missing" });
+      return "booking-missing";
+    }
+
+    const booking = bookingSnapshot.data() ?? {};
+    const update = pending.buildUpdate(booking);
+
+    if (update) {
+      transaction.update(bookingRef, {
+        ...update,
+        lastStripeEventId: event.id,
+        paymentUpdatedAt: FieldValue.serverTimestamp(),
+      });
+      appliedBooking = booking;
+      appliedPaymentStatus = (update.paymentStatus as PaymentStatus | undefined) ?? null;
+    }
+
+    transaction.create(eventRef, { ...record, outcome: update ? "applied" : "ignored" });
+    return update ? "applied" : "ignored";
+  });
+
+  if (outcome === "applied" && appliedBooking && pending.afterApply) {
+    await pending.afterApply(appliedBooking);
+  }
+
+  if (outcome === "applied" && appliedBooking && appliedPaymentStatus) {
+    await mirrorSeriesPayment(appliedBooking, pending.bookingId, appliedPaymentStatus);
+    await mirrorGroupPayment(appliedBooking, pending.bookingId, appliedPaymentStatus);
+  }
+
+  return outcome;
+}
+
+export async function POST(request: NextRequest) {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    return NextResponse.json(
+      { error: "Stripe webhook is not configured. Missing STRIPE_WEBHOOK_SECRET." },
+      { status: 500 },
+    );
+  }
+
+  const signature = request.headers.get("stripe-signature");
+
+  if (!signature) {
+    return NextResponse.json({ error: "Missing Stripe signature." }, { status: 400 });
+  }
+
+  let event: Stripe.Event;
+
+  try {
+    event = requireStripe().webhooks.constructEvent(await request.text(), signature, webhookSecret);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Invalid Stripe signature." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const pending = await describeEvent(event);
+    const outcome: EventOutcome = pending ? await applyEventOnce(event, pending) : "unhandled";
+
+    return NextResponse.json({ received: true, outcome });
+  } catch (error) {
+    // A non-2xx response makes Stripe retry the delivery later.
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Unable to process Stripe event." },
+      { status: 500 },
+    );
+  }
+}
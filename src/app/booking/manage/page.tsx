@@ -0,0 +1,371 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Calendar, MapPin, Search } from "lucide-react";
+import {
+  BookingStatus,
+  ChangeRequest,
+  CUSTOMER_CANCELLATION_NOTICE_HOURS,
+  MAX_CHANGE_REQUEST_LENGTH,
+  PaymentStatus,
+  ReturnLeg,
+} from "@/lib/bookings";
+import { BookedAddOn } from "@/lib/add-ons";
+import { CLIENT_SESSION_HEADER, clientSessionId } from "@/lib/bot-protection";
+import { ItineraryStop, SERVICE_LABELS, ServiceType } from "@/lib/pricing";
+import {
+  RECURRENCE_FREQUENCY_LABELS,
+  RecurrenceFrequency,
+  SERIES_PAYMENT_LABELS,
+  SeriesPaymentMode,
+} from "@/lib/recurrence";
+
+type ManagedBooking = {
+  referenceCode: string;
+  tripType: ServiceType;
+  serviceDate: string;
+  pickupTime: string;
+  hours: number | null;
+  returnLeg: ReturnLeg | null;
+  pickupAddress: string;
+  dropoffAddress: string;
+  stops: ItineraryStop[];
+  vehicleName: string;
+  passengers: number;
+  luggage: number;
+  addOns: BookedAddOn[];
+  customerName: string;
+  estimatedFare: number;
+  amountDue: number;
+  amountPaid: number | null;
+  amountRefunded: number | null;
+  status: BookingStatus;
+  paymentStatus: PaymentStatus;
+  changeRequests: ChangeRequest[];
+  occurrenceIndex: number | null;
+  occurrenceCount: number | null;
+  seriesFrequency: RecurrenceFrequency | null;
+  seriesPaymentMode: SeriesPaymentMode | null;
+  cancellationIssue: string | null;
+  paymentLink: string | null;
+};
+
+type ManageAction = "lookup" | "request_change" | "cancel";
+
+const STATUS_LABELS: Record<BookingStatus, string> = {
+  quote_requested: "Quote requested, dispatch is pricing your trip",
+  quoted: "Quote sent, waiting for your acceptance",
+  pending: "Pending dispatch review",
+  confirmed: "Confirmed",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const PAYMENT_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Not paid yet",
+  authorized: "Card authorized, charged when dispatch confirms",
+  authorization_expired: "Card hold expired, payment needed",
+  released: "Card hold released",
+  paid: "Paid",
+  failed: "Payment failed",
+  partially_refunded: "Partially refunded",
+  refunded: "Refunded",
+};
+
+function formatCurrency(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+export default function ManageBookingPage() {
+  const [referenceCode, setReferenceCode] = useState("");
+  const [email, setEmail] = useState("");
+  const [booking, setBooking] = useState<ManagedBooking | null>(null);
+  const [changeMessage, setChangeMessage] = useState("");
+  const [pendingAction, setPendingAction] = useState<ManageAction | null>(null);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    const reference = new URLSearchParams(window.location.search).get("ref");
+
+    if (reference) {
+      setReferenceCode(reference);
+    }
+  }, []);
+
+  async function runAction(action: ManageAction) {
+    setError("");
+    setMessage("");
+
+    try {
+      setPendingAction(action);
+
+      const response = await fetch("/api/bookings/manage", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [CLIENT_SESSION_HEADER]: clientSessionId(),
+        },
+        body: JSON.stringify({
+          referenceCode,
+          email,
+          action,
+          message: action === "request_change" ? changeMessage : undefined,
+        }),
+      });
+
+      const data = (await response.json()) as { booking?: ManagedBooking; error?: string };
+
+      if (!response.ok || !data.booking) {
+        if (action === "lookup") {
+          setBooking(null);
+        }
+
+        setError(data.error ?? "Unable to load this booking right now.");
+        return;
+      }
+
+      setBooking(data.booking);
+
+      if (action === "request_change") {
+        setChangeMessage("");
+        setMessage("Change request sent. Dispatch will contact you to confirm.");
+      }
+
+      if (action === "cancel") {
+        setMessage("Your booking has been cancelled.");
+      }
+    } catch {
+      setError("Unable to reach the booking desk right now.");
+    } finally {
+      setPendingAction(null);
+    }
+  }
+
+  function handleLookup(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    runAction("lookup");
+  }
+
+  function handleCancel() {
+    if (!window.confirm("Cancel this booking? Any payment will be released or refunded.")) {
+      return;
+    }
+
+    runAction("cancel");
+  }
+
+  const isClosed = booking?.status === "cancelled" || booking?.status === "completed";
+
+  return (
+    <div className="min-h-screen bg-neutral-950 text-white selection:bg-amber-500 selection:text-black">
+      <header className="fixed inset-x-0 top-0 z-40 border-b border-white/10 bg-black/80 backdrop-blur-md">
+        <div className="mx-auto flex h-20 max-w-7xl items-center justify-between px-6">
+          <div>
+            <p className="text-sm font-semibold tracking-[0.22em] text-white">
+              WNY <span className="text-amber-500">BLACK CAR</span>
+            </p>
+            <p className="text-xs text-neutral-400">Manage Your Booking</p>
+          </div>
+
+          <div className="hidden items-center gap-8 md:flex">
+            <Link href="/" className="text-sm text-neutral-300 transition-colors hover:text-amber-400">
+              Home
+            </Link>
+            <Link href="/booking" className="text-sm text-neutral-300 transition-colors hover:text-amber-400">
+              Book a Ride
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-6 pb-12 pt-28 lg:pb-16">
+        <section className="rounded-3xl border border-white/10 bg-neutral-900/70 p-6 lg:p-8">
+          <p className="inline-flex rounded-full bg-amber-500/15 px-3 py-1 text-xs font-semibold tracking-[0.14em] text-amber-400">
+            MANAGE BOOKING
+          </p>
+          <h1 className="mt-4 text-3xl font-bold">Find your reservation</h1>
+          <p className="mt-2 text-sm text-neutral-300">
+            Enter the booking reference from your confirmation and the email you booked with.
+          </p>
+
+          <form className="mt-6 grid gap-3 sm:grid-cols-[1fr_1.4fr_auto]" onSubmit={handleLookup}>
+            <input
+              value={referenceCode}
+              onChange={(event) => setReferenceCode(event.target.value.toUpperCase())}
+              placeholder="Reference (e.g. K7M2QX)"
+              autoComplete="off"
+              className="w-full rounded-xl border border-white/15 bg-neutral-950 px-4 py-3 text-sm uppercase tracking-[0.2em] text-white outline-none focus:border-amber-400"
+            />
+            <input
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="Email address"
+              autoComplete="email"
+              className="w-full rounded-xl border border-white/15 bg-neutral-950 px-4 py-3 text-sm text-white outline-none focus:border-amber-400"
+            />
+            <button
+              type="submit"
+              disabled={pendingAction !== null || !referenceCode.trim() || !email.trim()}
+              className="inline-flex items-center justify-center gap-2 rounded-xl bg-amber-500 px-5 py-3 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              <Search className="h-4 w-4" />
+              {pendingAction === "lookup" ? "Searching..." : "Find booking"}
+            </button>
+          </form>
+
+          {error ? (
+            <p className="mt-4 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-sm text-rose-200">
+              {error}
+            </p>
+          ) : null}
+
+          {message ? (
+            <p className="mt-4 rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              {message}
+            </p>
+          ) : null}
+        </section>
+
+        {booking ? (
+          <section className="space-y-5 rounded-3xl border border-white/10 bg-neutral-900/70 p-6 lg:p-8">
+            <div className="flex flex-wrap items-start justify-between gap-3">
+              <div>
+                <p className="text-xs uppercase tracking-[0.18em] text-neutral-400">Reference</p>
+                <p className="text-2xl font-bold tracking-[0.2em] text-amber-400">{booking.referenceCode}</p>
+                {booking.occurrenceIndex && booking.occurrenceCount ? (
+                  <p className="mt-1 text-xs text-neutral-400">
+                    Ride {booking.occurrenceIndex} of {booking.occurrenceCount}
+                    {booking.seriesFrequency ? ` · ${RECURRENCE_FREQUENCY_LABELS[booking.seriesFrequency]}` : ""}
+                    {booking.seriesPaymentMode ? ` · ${SERIES_PAYMENT_LABELS[booking.seriesPaymentMode]}` : ""}
+                  </p>
+                ) : null}
+              </div>
+              <div className="text-right text-sm">
+                <p className="font-semibold text-white">{STATUS_LABELS[booking.status] ?? booking.status}</p>
+                <p className="text-neutral-400">{PAYMENT_LABELS[booking.paymentStatus] ?? booking.paymentStatus}</p>
+              </div>
+            </div>
+
+            <div className="grid gap-4 rounded-2xl border border-white/10 bg-neutral-950/70 p-4 text-sm sm:grid-cols-2">
+              <div className="space-y-1">
+                <p className="inline-flex items-center gap-2 text-neutral-400">
+                  <Calendar className="h-4 w-4" /> {SERVICE_LABELS[booking.tripType] ?? booking.tripType}
+                </p>
+                <p className="text-white">
+                  {booking.serviceDate} at {booking.pickupTime}
+                  {booking.hours ? ` · ${booking.hours} hr` : ""}
+                </p>
+                {booking.returnLeg ? (
+                  <p className="text-neutral-300">
+                    Return {booking.returnLeg.serviceDate} at {booking.returnLeg.pickupTime} from{" "}
+                    {booking.returnLeg.pickupAddress}
+                  </p>
+                ) : null}
+                <p className="text-neutral-300">
+                  {booking.vehicleName} · {booking.passengers} passengers · {booking.luggage} bags
+                </p>
+              </div>
+
+              <div className="space-y-1">
+                <p className="inline-flex items-center gap-2 text-neutral-400">
+                  <MapPin className="h-4 w-4" /> Route
+                </p>
+                <p className="text-white">{booking.pickupAddress}</p>
+                {booking.stops.map((stop, index) => (
+                  <p key={`${stop.address}-${index}`} className="text-neutral-300">
+                    Stop {index + 1}: {stop.address}
+                    {stop.waitMinutes > 0 ? ` (${stop.waitMinutes} min wait)` : ""}
+                  </p>
+                ))}
+                {booking.dropoffAddress ? <p className="text-white">{booking.dropoffAddress}</p> : null}
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              {booking.addOns.map((addOn) => (
+                <p key={addOn.id} className="text-neutral-300">
+                  {addOn.quantity} × {addOn.name}
+                </p>
+              ))}
+              {booking.status === "quote_requested" ? (
+                <p className="text-neutral-300">Dispatch is preparing your price and will send you a quote to accept.</p>
+              ) : (
+                <p className="text-neutral-300">
+                  {booking.status === "quoted" ? "Quoted total" : "Total due"}{" "}
+                  <span className="font-semibold text-amber-400">{formatCurrency(booking.amountDue)}</span>
+                  {booking.amountPaid !== null ? ` · Paid ${formatCurrency(booking.amountPaid)}` : ""}
+                  {booking.amountRefunded ? ` · Refunded ${formatCurrency(booking.amountRefunded)}` : ""}
+                </p>
+              )}
+            </div>
+
+            {booking.paymentLink ? (
+              <Link
+                href={booking.paymentLink}
+                className="inline-flex rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400"
+              >
+                {booking.status === "quoted" ? "Review and accept quote" : "Complete payment"}
+              </Link>
+            ) : null}
+
+            {booking.changeRequests.length > 0 ? (
+              <div className="space-y-2">
+                <p className="text-xs uppercase tracking-[0.18em] text-neutral-400">Your change requests</p>
+                {booking.changeRequests.map((request) => (
+                  <p
+                    key={request.createdAt}
+                    className="rounded-xl border border-white/10 bg-neutral-950/70 px-3 py-2 text-sm text-neutral-200"
+                  >
+                    {request.message}
+                    <span className="mt-1 block text-xs text-neutral-500">
+                      {new Date(request.createdAt).toLocaleString("en-US")}
+                    </span>
+                  </p>
+                ))}
+              </div>
+            ) : null}
+
+            {!isClosed ? (
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.18em] text-neutral-400">Request a change</p>
+                <textarea
+                  value={changeMessage}
+                  onChange={(event) => setChangeMessage(event.target.value)}
+                  maxLength={MAX_CHANGE_REQUEST_LENGTH}
+                  rows={3}
+                  placeholder="New pickup time, extra passengers, a different address..."
+                  className="w-full rounded-xl border border-white/15 bg-neutral-950 px-4 py-3 text-sm text-white outline-none focus:border-amber-400"
+                />
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={() => runAction("request_change")}
+                    disabled={pendingAction !== null || !changeMessage.trim()}
+                    className="rounded-xl border border-white/20 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {pendingAction === "request_change" ? "Sending..." : "Send change request"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={pendingAction !== null || booking.cancellationIssue !== null}
+                    className="rounded-xl border border-rose-500/40 px-5 py-2.5 text-sm font-semibold text-rose-200 transition hover:bg-rose-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {pendingAction === "cancel" ? "Cancelling..." : "Cancel booking"}
+                  </button>
+                </div>
+                <p className="text-xs text-neutral-400">
+                  {booking.cancellationIssue ??
+                    `Free cancellation up to ${CUSTOMER_CANCELLATION_NOTICE_HOURS} hours before pickup. Card holds are released and payments refunded in full.`}
+                </p>
+              </div>
+            ) : null}
+          </section>
+        ) : null}
+      </main>
+    </div>
+  );
+}
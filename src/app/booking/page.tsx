@@ -1,8 +1,8 @@
 "use client";
 
 import Link from "next/link";
-import { useEffect, useMemo, useState } from "react";
-import { addDoc, collection, doc, onSnapshot, serverTimestamp } from "firebase/firestore";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { doc, onSnapshot } from "firebase/firestore";
 import {
   ArrowRight,
   Briefcase,
@@ -11,33 +11,185 @@ import {
   Clock3,
   MapPin,
   Navigation,
+  Plane,
+  Plus,
   Users,
+  X,
 } from "lucide-react";
-import { firebaseConfigError, firestoreDb } from "@/lib/firebase";
+import {
+  contactDetailsIssues,
+  ContactField,
+  formatPhoneNumber,
+  MAX_EMAIL_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_PHONE_LENGTH,
+  normalizeEmail,
+} from "@/lib/contact-details";
+import { firestoreDb } from "@/lib/firebase";
+import PlaceAutocomplete from "@/components/place-autocomplete";
 import VirtualConcierge from "@/components/virtual-concierge";
-import { defaultSiteContent, SiteContent, SiteFleetItem } from "@/lib/site-content";
-
-type ServiceType = "one-way" | "round-trip" | "hourly";
+import {
+  BotProof,
+  CLIENT_SESSION_HEADER,
+  clientSessionId,
+  HONEYPOT_FIELD,
+  solveBotChallenge,
+} from "@/lib/bot-protection";
+import { defaultSiteContent, normalizeSiteContent, SiteContent, vehicleCapacityIssue } from "@/lib/site-content";
+import {
+  calculateFare,
+  ItineraryStop,
+  MAX_HOURLY_HOURS,
+  MAX_ITINERARY_STOPS,
+  normalizeStops,
+  SERVICE_LABELS,
+  ServiceType,
+  STOP_WAIT_OPTIONS,
+  unmappedRouteIssue,
+  vehicleOvertimeTerms,
+} from "@/lib/pricing";
+import { defaultPricingConfig, normalizePricingConfig, PricingConfig } from "@/lib/pricing-config";
+import { ReturnLeg, returnLegIssue } from "@/lib/bookings";
+import { AddOnSelection, isAddOnAvailable } from "@/lib/add-ons";
+import { VehicleAvailability } from "@/lib/availability";
+import {
+  bookingRuleIssue,
+  BookingRules,
+  defaultBookingRules,
+  lastBookableDate,
+  minNoticeHoursFor,
+  normalizeBookingRules,
+  operatingHoursLabel,
+} from "@/lib/booking-rules";
+import { MAX_LUGGAGE, MAX_PASSENGERS, nowInNewYork } from "@/lib/booking-request";
+import {
+  MAX_SERIES_OCCURRENCES,
+  Recurrence,
+  RECURRENCE_FREQUENCY_LABELS,
+  RecurrenceEnd,
+  recurrenceDates,
+  RecurrenceFrequency,
+  recurrenceIssue,
+  SERIES_PAYMENT_LABELS,
+  SeriesPaymentMode,
+} from "@/lib/recurrence";
+import { AirportPickup, airportPickupIssue, AIRPORTS, findAirport, normalizeFlightNumber } from "@/lib/airports";
+import { defaultGazetteer, findPlace, Gazetteer, normalizeGazetteer } from "@/lib/places";
+import { formatInTimeZone, pickupInstant, SERVICE_TIME_ZONE } from "@/lib/pickup-instant";
+import { BookingQuote } from "@/lib/quotes";
+import {
+  calculateGroupFare,
+  GROUP_VEHICLE_ID,
+  groupCapacityIssue,
+  groupFareLines,
+  groupVehicleCount,
+  GroupVehicleLine,
+  GroupVehicleSelection,
+  groupVehiclesLabel,
+  MAX_GROUP_LUGGAGE,
+  MAX_GROUP_PASSENGERS,
+  MAX_GROUP_VEHICLES,
+  normalizeGroupVehicles,
+} from "@/lib/group-bookings";
 
 type BookingFormState = {
   serviceType: ServiceType;
   serviceDate: string;
   pickupAddress: string;
   dropoffAddress: string;
+  pickupPlaceId: string | null;
+  dropoffPlaceId: string | null;
+  stops: ItineraryStop[];
+  airportPickup: AirportPickup | null;
+  addOns: AddOnSelection[];
   pickupTime: string;
+  hours: number;
+  returnDate: string;
+  returnTime: string;
+  returnPickupAddress: string;
   passengers: number;
+  luggage: number;
   fullName: string;
   email: string;
   phone: string;
   specialInstructions: string;
+  repeats: boolean;
+  recurrenceFrequency: RecurrenceFrequency;
+  recurrenceEndType: RecurrenceEnd;
+  recurrenceEndDate: string;
+  recurrenceCount: number;
+  seriesPaymentMode: SeriesPaymentMode;
+  groupBooking: boolean;
+  groupVehicles: GroupVehicleSelection[];
 };
 
 const SERVICE_OPTIONS: { value: ServiceType; label: string }[] = [
-  { value: "one-way", label: "One Way" },
-  { value: "round-trip", label: "Round Trip" },
-  { value: "hourly", label: "Hourly" },
+  { value: "one-way", label: SERVICE_LABELS["one-way"] },
+  { value: "round-trip", label: SERVICE_LABELS["round-trip"] },
+  { value: "hourly", label: SERVICE_LABELS.hourly },
 ];
 
+type AppliedPromo = {
+  code: string;
+  label: string;
+  discountAmount: number;
+  vehicleId: string;
+  subtotal: number;
+};
+
+type ResumableBooking = {
+  id: string;
+  tripType: ServiceType;
+  serviceDate: string;
+  pickupTime: string;
+  hours: number | null;
+  returnLeg: ReturnLeg | null;
+  stops: ItineraryStop[];
+  airportPickup: AirportPickup | null;
+  addOns: AddOnSelection[];
+  pickupAddress: string;
+  dropoffAddress: string;
+  passengers: number;
+  luggage: number;
+  vehicleId: string;
+  groupVehicles: GroupVehicleLine[] | null;
+  promoCode: string | null;
+  seriesPaymentMode: SeriesPaymentMode | null;
+  occurrenceCount: number | null;
+  quote: BookingQuote | null;
+};
+
+const EMPTY_FORM_STATE: BookingFormState = {
+  serviceType: "one-way",
+  serviceDate: "",
+  pickupAddress: "",
+  dropoffAddress: "",
+  pickupPlaceId: null,
+  dropoffPlaceId: null,
+  stops: [],
+  airportPickup: null,
+  addOns: [],
+  pickupTime: "",
+  hours: 3,
+  returnDate: "",
+  returnTime: "",
+  returnPickupAddress: "",
+  passengers: 2,
+  luggage: 1,
+  fullName: "",
+  email: "",
+  phone: "",
+  specialInstructions: "",
+  repeats: false,
+  recurrenceFrequency: "weekdays",
+  recurrenceEndType: "count",
+  recurrenceEndDate: "",
+  recurrenceCount: 10,
+  seriesPaymentMode: "per_ride",
+  groupBooking: false,
+  groupVehicles: [],
+};
+
 export default function BookingPage() {
   const [selectedVehicle, setSelectedVehicle] = useState<string>("");
   const [bookingStep, setBookingStep] = useState<1 | 2 | 3>(1);
@@ -46,18 +198,23 @@ export default function BookingPage() {
   const [submitError, setSubmitError] = useState<string>("");
   const [checkoutStatus, setCheckoutStatus] = useState<string | null>(null);
   const [siteContent, setSiteContent] = useState<SiteContent>(defaultSiteContent);
-  const [formState, setFormState] = useState<BookingFormState>({
-    serviceType: "one-way",
-    serviceDate: "",
-    pickupAddress: "",
-    dropoffAddress: "",
-    pickupTime: "",
-    passengers: 2,
-    fullName: "",
-    email: "",
-    phone: "",
-    specialInstructions: "",
-  });
+  const [pricingConfig, setPricingConfig] = useState<PricingConfig>(defaultPricingConfig);
+  const [bookingRules, setBookingRules] = useState<BookingRules>(defaultBookingRules);
+  const [gazetteer, setGazetteer] = useState<Gazetteer>(defaultGazetteer);
+  const [formState, setFormState] = useState<BookingFormState>(EMPTY_FORM_STATE);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [promoError, setPromoError] = useState("");
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+  const [resumeBookingId, setResumeBookingId] = useState("");
+  const [resumedSeriesRides, setResumedSeriesRides] = useState(0);
+  const [bookingReference, setBookingReference] = useState("");
+  const [availability, setAvailability] = useState<Record<string, VehicleAvailability> | null>(null);
+  const [viewerTimeZone, setViewerTimeZone] = useState("");
+  const [honeypot, setHoneypot] = useState("");
+  // Contact errors show once a field has been left or a submit was tried, not while typing.
+  const [contactTouched, setContactTouched] = useState<Partial<Record<ContactField, boolean>>>({});
+  const botProofRef = useRef<Promise<BotProof> | null>(null);
 
   const currentDateUs = useMemo(() => {
     return new Intl.DateTimeFormat("en-US", {
@@ -72,21 +229,332 @@ export default function BookingPage() {
   const fleetOptions = siteContent.fleet;
 
   const selected = fleetOptions.find((vehicle) => vehicle.id === selectedVehicle) ?? null;
+  // Picked gazetteer places are priced from their coordinates, as the server does.
+  const pickupPoint = findPlace(gazetteer.places, formState.pickupPlaceId)?.point ?? null;
+  const dropoffPoint =
+    formState.serviceType === "hourly" ? null : (findPlace(gazetteer.places, formState.dropoffPlaceId)?.point ?? null);
+
+  const selectedCapacityIssue = selected
+    ? vehicleCapacityIssue(selected, formState.passengers, formState.luggage)
+    : null;
+
+  const selectedSoldOut = selected ? availability?.[selected.id]?.available === 0 : false;
+
+  const ruleTrip = {
+    serviceDate: formState.serviceDate,
+    pickupTime: formState.pickupTime,
+    returnLeg:
+      formState.serviceType === "round-trip"
+        ? { serviceDate: formState.returnDate, pickupTime: formState.returnTime }
+        : null,
+  };
+  const tripRuleIssue =
+    formState.serviceDate && formState.pickupTime ? bookingRuleIssue(bookingRules, ruleTrip, null) : null;
+  const selectedRuleIssue =
+    selected && formState.serviceDate && formState.pickupTime
+      ? bookingRuleIssue(bookingRules, ruleTrip, selected)
+      : null;
+
+  const fareQuote = useMemo(
+    () =>
+      selected
+        ? calculateFare(
+            fleetOptions,
+            {
+              vehicleId: selected.id,
+              serviceType: formState.serviceType,
+              pickupAddress: formState.pickupAddress,
+              dropoffAddress: formState.dropoffAddress,
+              pickupPoint,
+              dropoffPoint,
+              returnPickupAddress: formState.returnPickupAddress,
+              serviceDate: formState.serviceDate,
+              pickupTime: formState.pickupTime,
+              hours: formState.hours,
+              stops: formState.stops,
+              addOns: formState.addOns,
+            },
+            pricingConfig.surchargeRules,
+            pricingConfig.addOns,
+          )
+        : null,
+    [
+      fleetOptions,
+      selected,
+      pricingConfig.surchargeRules,
+      pricingConfig.addOns,
+      formState.serviceType,
+      formState.pickupAddress,
+      formState.dropoffAddress,
+      pickupPoint,
+      dropoffPoint,
+      formState.returnPickupAddress,
+      formState.serviceDate,
+      formState.pickupTime,
+      formState.hours,
+      formState.stops,
+      formState.addOns,
+    ],
+  );
 
-  const serviceMultiplier = useMemo(() => {
-    if (formState.serviceType === "round-trip") return 2;
-    if (formState.serviceType === "hourly") return 3;
-    return 1;
-  }, [formState.serviceType]);
+  const availableAddOns = selected
+    ? pricingConfig.addOns.filter((addOn) => isAddOnAvailable(addOn, selected.id))
+    : [];
+
+  const isGroupBooking = formState.groupBooking;
+
+  const groupQuote = useMemo(
+    () =>
+      isGroupBooking && formState.groupVehicles.length > 0
+        ? calculateGroupFare(
+            fleetOptions,
+            {
+              serviceType: formState.serviceType,
+              pickupAddress: formState.pickupAddress,
+              dropoffAddress: formState.dropoffAddress,
+              pickupPoint,
+              dropoffPoint,
+              returnPickupAddress: formState.returnPickupAddress,
+              serviceDate: formState.serviceDate,
+              pickupTime: formState.pickupTime,
+              hours: formState.hours,
+              stops: formState.stops,
+            },
+            formState.groupVehicles,
+            pricingConfig.surchargeRules,
+          )
+        : null,
+    [
+      isGroupBooking,
+      fleetOptions,
+      pricingConfig.surchargeRules,
+      formState.groupVehicles,
+      formState.serviceType,
+      formState.pickupAddress,
+      formState.dropoffAddress,
+      pickupPoint,
+      dropoffPoint,
+      formState.returnPickupAddress,
+      formState.serviceDate,
+      formState.pickupTime,
+      formState.hours,
+      formState.stops,
+    ],
+  );
 
-  const estimatedFare = useMemo(
-    () => (selected ? selected.baseFare * serviceMultiplier : 0),
-    [selected, serviceMultiplier],
+  // The first problem with the chosen vehicles: combined capacity, then free units, then rules.
+  const groupIssue = isGroupBooking
+    ? (groupCapacityIssue(fleetOptions, formState.groupVehicles, formState.passengers, formState.luggage) ??
+      formState.groupVehicles
+        .map((selection) => {
+          const vehicle = fleetOptions.find((item) => item.id === selection.vehicleId);
+          const available = availability?.[selection.vehicleId]?.available;
+
+          if (!vehicle) {
+            return null;
+          }
+
+          if (available !== undefined && selection.quantity > available) {
+            return available === 0
+              ? `${vehicle.name} is fully booked at that time.`
+              : `Only ${available} ${vehicle.name} ${available === 1 ? "is" : "are"} free at that time.`;
+          }
+
+          return formState.serviceDate && formState.pickupTime
+            ? bookingRuleIssue(bookingRules, ruleTrip, vehicle)
+            : null;
+        })
+        .find(Boolean) ??
+      null)
+    : null;
+
+  const groupLabel = groupQuote ? groupVehiclesLabel(groupQuote.lines) : "";
+
+  // What the summary shows for route and hours; a group shares one itinerary.
+  const displayQuote = isGroupBooking ? (groupQuote?.quotes[0] ?? null) : fareQuote;
+  const routeIssue = displayQuote ? unmappedRouteIssue(displayQuote) : null;
+  const summaryLines = isGroupBooking ? (groupQuote ? groupFareLines(groupQuote) : []) : (fareQuote?.lines ?? []);
+
+  const estimatedFare = isGroupBooking ? (groupQuote?.total ?? 0) : (fareQuote?.total ?? 0);
+  const promoVehicleId = isGroupBooking ? GROUP_VEHICLE_ID : selected?.id;
+
+  const isHourly = formState.serviceType === "hourly";
+  const isRoundTrip = formState.serviceType === "round-trip";
+  const itineraryStops = normalizeStops(formState.stops);
+  const hasBlankStop = formState.stops.some((stop) => !stop.address.trim());
+  const airportIssue = airportPickupIssue(formState.airportPickup);
+  const contactIssues = contactDetailsIssues({
+    fullName: formState.fullName,
+    email: formState.email,
+    phone: formState.phone,
+  });
+  const visibleContactIssue = (field: ContactField) => (contactTouched[field] ? contactIssues[field] : undefined);
+
+  // The return pickup defaults to the outbound drop-off when left blank.
+  const returnLeg: ReturnLeg | null = isRoundTrip
+    ? {
+        serviceDate: formState.returnDate,
+        pickupTime: formState.returnTime,
+        pickupAddress: formState.returnPickupAddress.trim() || formState.dropoffAddress.trim(),
+      }
+    : null;
+
+  const returnIssue = isRoundTrip ? returnLegIssue(formState, returnLeg) : null;
+
+  const recurrence: Recurrence | null =
+    formState.repeats && !resumeBookingId
+      ? {
+          frequency: formState.recurrenceFrequency,
+          endType: formState.recurrenceEndType,
+          endDate: formState.recurrenceEndDate,
+          count: formState.recurrenceCount,
+        }
+      : null;
+  const seriesIssue = recurrence && formState.serviceDate ? recurrenceIssue(formState.serviceDate, recurrence) : null;
+  const seriesDates = useMemo(
+    () =>
+      formState.repeats && !resumeBookingId && formState.serviceDate && !seriesIssue
+        ? recurrenceDates(formState.serviceDate, {
+            frequency: formState.recurrenceFrequency,
+            endType: formState.recurrenceEndType,
+            endDate: formState.recurrenceEndDate,
+            count: formState.recurrenceCount,
+          })
+        : [],
+    [
+      formState.repeats,
+      formState.serviceDate,
+      formState.recurrenceFrequency,
+      formState.recurrenceEndType,
+      formState.recurrenceEndDate,
+      formState.recurrenceCount,
+      resumeBookingId,
+      seriesIssue,
+    ],
   );
 
+  // Surcharges can differ by date, so each ride in a series is priced on its own.
+  const seriesTotal = useMemo(() => {
+    if (!selected || seriesDates.length < 2) {
+      return 0;
+    }
+
+    const total = seriesDates.reduce((sum, serviceDate) => {
+      const quote = calculateFare(
+        fleetOptions,
+        {
+          vehicleId: selected.id,
+          serviceType: formState.serviceType,
+          pickupAddress: formState.pickupAddress,
+          dropoffAddress: formState.dropoffAddress,
+          pickupPoint,
+          dropoffPoint,
+          returnPickupAddress: formState.returnPickupAddress,
+          serviceDate,
+          pickupTime: formState.pickupTime,
+          hours: formState.hours,
+          stops: formState.stops,
+          addOns: formState.addOns,
+        },
+        pricingConfig.surchargeRules,
+        pricingConfig.addOns,
+      );
+
+      return sum + (quote?.total ?? 0);
+    }, 0);
+
+    return Math.round(total * 100) / 100;
+  }, [
+    fleetOptions,
+    selected,
+    seriesDates,
+    pricingConfig.surchargeRules,
+    pricingConfig.addOns,
+    formState.serviceType,
+    formState.pickupAddress,
+    formState.dropoffAddress,
+    pickupPoint,
+    dropoffPoint,
+    formState.returnPickupAddress,
+    formState.pickupTime,
+    formState.hours,
+    formState.stops,
+    formState.addOns,
+  ]);
+
+  const chargesSeries = seriesDates.length > 1 && formState.seriesPaymentMode === "series";
+
+  // What checkout charges now: the first ride, or every ride when the series is paid at once.
+  const chargeSubtotal = chargesSeries ? seriesTotal : estimatedFare;
+
+  // A promo preview only holds for the fare it was checked against.
+  const activePromo =
+    appliedPromo && appliedPromo.vehicleId === promoVehicleId && appliedPromo.subtotal === chargeSubtotal
+      ? appliedPromo
+      : null;
+
+  const amountDue = Math.max(0, chargeSubtotal - (activePromo?.discountAmount ?? 0));
+
+  // Customers booking from another time zone see their local equivalent of the Buffalo pickup.
+  const pickup = pickupInstant(formState.serviceDate, formState.pickupTime);
+  const localPickupLabel =
+    pickup && viewerTimeZone && viewerTimeZone !== SERVICE_TIME_ZONE ? formatInTimeZone(pickup, viewerTimeZone) : "";
+
+  // Read after mount so the server render and the first client render match.
+  useEffect(() => {
+    setViewerTimeZone(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  }, []);
+
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
-    setCheckoutStatus(params.get("checkout"));
+    const status = params.get("checkout");
+
+    if (status !== "success") {
+      setCheckoutStatus(status);
+
+      const bookingId = params.get("bookingId");
+
+      if (bookingId) {
+        loadBookingForPayment(bookingId);
+      }
+
+      return;
+    }
+
+    setCheckoutStatus("verifying");
+
+    const verifyParams = new URLSearchParams({
+      sessionId: params.get("sessionId") ?? "",
+      bookingId: params.get("bookingId") ?? "",
+    });
+
+    fetch(`/api/stripe/session-status?${verifyParams.toString()}`)
+      .then(async (response) => {
+        const data = (await response.json()) as {
+          sessionPaymentStatus?: string;
+          paymentIntentStatus?: string | null;
+          referenceCode?: string | null;
+        };
+
+        if (!response.ok) {
+          setCheckoutStatus("unverified");
+          return;
+        }
+
+        setBookingReference(data.referenceCode ?? "");
+
+        if (data.paymentIntentStatus === "requires_capture") {
+          setCheckoutStatus("authorized");
+          return;
+        }
+
+        setCheckoutStatus(
+          data.sessionPaymentStatus === "paid" || data.sessionPaymentStatus === "no_payment_required"
+            ? "success"
+            : "processing",
+        );
+      })
+      .catch(() => setCheckoutStatus("unverified"));
   }, []);
 
   useEffect(() => {
@@ -102,33 +570,59 @@ export default function BookingPage() {
         return;
       }
 
-      const data = snapshot.data() as Partial<SiteContent>;
-
-      const mergedFleet: SiteFleetItem[] = (data.fleet ?? defaultSiteContent.fleet).map((item, index) => {
-        const fallback = defaultSiteContent.fleet[index] ?? defaultSiteContent.fleet[0];
-        return {
-          id: item.id ?? fallback.id,
-          name: item.name ?? fallback.name,
-          type: item.type ?? fallback.type,
-          seats: item.seats ?? fallback.seats,
-          luggage: item.luggage ?? fallback.luggage,
-          image: item.image ?? fallback.image,
-          description: item.description ?? fallback.description,
-          baseFare: Number(item.baseFare ?? fallback.baseFare),
-        };
-      });
+      setSiteContent(normalizeSiteContent(snapshot.data() as Partial<SiteContent>));
+    });
 
-      setSiteContent({
-        home: {
-          ...defaultSiteContent.home,
-          ...(data.home ?? {}),
-        },
-        booking: {
-          ...defaultSiteContent.booking,
-          ...(data.booking ?? {}),
-        },
-        fleet: mergedFleet,
-      });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!firestoreDb) {
+      return;
+    }
+
+    const pricingRef = doc(firestoreDb, "pricingConfig", "main");
+
+    const unsubscribe = onSnapshot(pricingRef, (snapshot) => {
+      setPricingConfig(
+        snapshot.exists()
+          ? normalizePricingConfig(snapshot.data() as Partial<PricingConfig>)
+          : defaultPricingConfig,
+      );
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!firestoreDb) {
+      return;
+    }
+
+    const rulesRef = doc(firestoreDb, "bookingRules", "main");
+
+    const unsubscribe = onSnapshot(rulesRef, (snapshot) => {
+      setBookingRules(
+        snapshot.exists()
+          ? normalizeBookingRules(snapshot.data() as Partial<BookingRules>)
+          : defaultBookingRules,
+      );
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!firestoreDb) {
+      return;
+    }
+
+    const gazetteerRef = doc(firestoreDb, "gazetteer", "main");
+
+    const unsubscribe = onSnapshot(gazetteerRef, (snapshot) => {
+      setGazetteer(
+        snapshot.exists() ? normalizeGazetteer(snapshot.data() as Partial<Gazetteer>) : defaultGazetteer,
+      );
     });
 
     return () => unsubscribe();
@@ -140,79 +634,518 @@ export default function BookingPage() {
     }
   }, [fleetOptions, selectedVehicle]);
 
+  // A resumed booking already holds its vehicle, so it is not checked against itself.
+  useEffect(() => {
+    if (bookingStep === 1 || resumeBookingId || !formState.serviceDate || !formState.pickupTime) {
+      setAvailability(null);
+      return;
+    }
+
+    const params = new URLSearchParams({
+      serviceType: formState.serviceType,
+      serviceDate: formState.serviceDate,
+      pickupTime: formState.pickupTime,
+      hours: String(formState.hours),
+      returnDate: formState.returnDate,
+      returnTime: formState.returnTime,
+    });
+    let cancelled = false;
+
+    fetch(`/api/availability?${params.toString()}`)
+      .then(async (response) => {
+        const data = (await response.json()) as { availability?: Record<string, VehicleAvailability> };
+
+        if (!cancelled) {
+          setAvailability(response.ok ? (data.availability ?? null) : null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setAvailability(null);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [
+    bookingStep,
+    resumeBookingId,
+    formState.serviceType,
+    formState.serviceDate,
+    formState.pickupTime,
+    formState.hours,
+    formState.returnDate,
+    formState.returnTime,
+  ]);
+
+  // The proof-of-work for a new booking is solved while the customer fills in step 3, so
+  // submitting rarely waits on it. Resumed bookings already exist and skip it.
+  useEffect(() => {
+    if (bookingStep !== 3 || resumeBookingId || botProofRef.current) {
+      return;
+    }
+
+    const proof = solveBotChallenge();
+    botProofRef.current = proof;
+    proof.catch(() => {
+      if (botProofRef.current === proof) {
+        botProofRef.current = null;
+      }
+    });
+  }, [bookingStep, resumeBookingId]);
+
+  // Reloads a saved booking from a cancelled checkout (or a link sent by dispatch) so the
+  // customer pays for that document instead of creating a new one.
+  async function loadBookingForPayment(bookingId: string) {
+    try {
+      const response = await fetch(`/api/bookings/${encodeURIComponent(bookingId)}`);
+      const data = (await response.json()) as {
+        booking?: ResumableBooking;
+        resumable?: boolean;
+        error?: string;
+      };
+
+      if (!response.ok || !data.booking) {
+        setSubmitError(data.error ?? "We could not find that booking. Please start a new one.");
+        return;
+      }
+
+      // Quoted trips are accepted and paid for the quoted total on their own page.
+      if (data.booking.quote) {
+        window.location.replace(`/booking/quote?bookingId=${encodeURIComponent(data.booking.id)}`);
+        return;
+      }
+
+      if (!data.resumable) {
+        setCheckoutStatus(null);
+        setSubmitMessage("This booking is already paid or closed. Contact dispatch if anything looks wrong.");
+        return;
+      }
+
+      const booking = data.booking;
+
+      setFormState({
+        ...EMPTY_FORM_STATE,
+        serviceType: booking.tripType,
+        serviceDate: booking.serviceDate,
+        pickupAddress: booking.pickupAddress,
+        dropoffAddress: booking.dropoffAddress,
+        stops: booking.stops ?? [],
+        airportPickup: booking.airportPickup ?? null,
+        addOns: booking.addOns ?? [],
+        pickupTime: booking.pickupTime,
+        hours: booking.hours ?? EMPTY_FORM_STATE.hours,
+        returnDate: booking.returnLeg?.serviceDate ?? "",
+        returnTime: booking.returnLeg?.pickupTime ?? "",
+        returnPickupAddress: booking.returnLeg?.pickupAddress ?? "",
+        passengers: booking.passengers,
+        luggage: booking.luggage,
+        groupBooking: Boolean(booking.groupVehicles),
+        groupVehicles: (booking.groupVehicles ?? []).map((line) => ({
+          vehicleId: line.vehicleId,
+          quantity: line.quantity,
+        })),
+      });
+      setSelectedVehicle(booking.groupVehicles ? "" : booking.vehicleId);
+      setPromoInput(booking.promoCode ?? "");
+      setResumeBookingId(booking.id);
+      setResumedSeriesRides(booking.seriesPaymentMode === "series" ? (booking.occurrenceCount ?? 0) : 0);
+      setBookingStep(3);
+    } catch {
+      setSubmitError("Unable to load your saved booking right now.");
+    }
+  }
+
+  function startNewBooking() {
+    setResumeBookingId("");
+    setResumedSeriesRides(0);
+    setFormState(EMPTY_FORM_STATE);
+    setContactTouched({});
+    setPromoInput("");
+    setAppliedPromo(null);
+    setSelectedVehicle("");
+    setCheckoutStatus(null);
+    setSubmitError("");
+    setSubmitMessage("");
+    setBookingStep(1);
+    window.history.replaceState(null, "", "/booking");
+  }
+
+  // Airport places in the gazetteer are keyed by code (buf-airport), so airport pickups keep
+  // coordinates too.
+  function airportPlaceId(code: string) {
+    return findPlace(gazetteer.places, `${code.toLowerCase()}-airport`)?.id ?? null;
+  }
+
+  // Airport mode pins the pickup address to the chosen airport so fares use its zone.
+  function setAirportPickupEnabled(enabled: boolean) {
+    setFormState((previous) => {
+      if (!enabled) {
+        return { ...previous, airportPickup: null, pickupAddress: "", pickupPlaceId: null };
+      }
+
+      const airport = AIRPORTS[0];
+
+      return {
+        ...previous,
+        pickupAddress: airport.address,
+        pickupPlaceId: airportPlaceId(airport.code),
+        airportPickup: {
+          airportCode: airport.code,
+          airline: "",
+          flightNumber: "",
+          terminal: airport.terminals[0],
+          meetAndGreet: false,
+        },
+      };
+    });
+  }
+
+  function updateAirportPickup(update: Partial<AirportPickup>) {
+    setFormState((previous) => {
+      if (!previous.airportPickup) {
+        return previous;
+      }
+
+      const airportPickup = { ...previous.airportPickup, ...update };
+      const airport = findAirport(airportPickup.airportCode);
+
+      if (update.airportCode && airport) {
+        airportPickup.terminal = airport.terminals[0];
+      }
+
+      return {
+        ...previous,
+        airportPickup,
+        pickupAddress: airport?.address ?? previous.pickupAddress,
+        pickupPlaceId: airport ? airportPlaceId(airport.code) : previous.pickupPlaceId,
+      };
+    });
+  }
+
+  // Group bookings and repeating trips are exclusive, and groups take no add-ons.
+  function setGroupBooking(enabled: boolean) {
+    setFormState((previous) => ({
+      ...previous,
+      groupBooking: enabled,
+      groupVehicles: enabled ? previous.groupVehicles : [],
+      repeats: enabled ? false : previous.repeats,
+      addOns: enabled ? [] : previous.addOns,
+      passengers: enabled ? previous.passengers : Math.min(previous.passengers, MAX_PASSENGERS),
+      luggage: enabled ? previous.luggage : Math.min(previous.luggage, MAX_LUGGAGE),
+    }));
+    setSelectedVehicle("");
+  }
+
+  function setGroupQuantity(vehicleId: string, quantity: number) {
+    setFormState((previous) => ({
+      ...previous,
+      groupVehicles: normalizeGroupVehicles([
+        ...previous.groupVehicles.filter((selection) => selection.vehicleId !== vehicleId),
+        { vehicleId, quantity },
+      ]),
+    }));
+  }
+
+  function setAddOnQuantity(addOnId: string, quantity: number) {
+    setFormState((previous) => ({
+      ...previous,
+      addOns: [
+        ...previous.addOns.filter((addOn) => addOn.id !== addOnId),
+        ...(quantity > 0 ? [{ id: addOnId, quantity }] : []),
+      ],
+    }));
+  }
+
+  function updateStop(index: number, stop: Partial<ItineraryStop>) {
+    setFormState((previous) => ({
+      ...previous,
+      stops: previous.stops.map((item, itemIndex) => (itemIndex === index ? { ...item, ...stop } : item)),
+    }));
+  }
+
+  function addStop() {
+    setFormState((previous) =>
+      previous.stops.length >= MAX_ITINERARY_STOPS
+        ? previous
+        : { ...previous, stops: [...previous.stops, { address: "", waitMinutes: 0 }] },
+    );
+  }
+
+  function moveStop(index: number, direction: -1 | 1) {
+    setFormState((previous) => {
+      const target = index + direction;
+
+      if (target < 0 || target >= previous.stops.length) {
+        return previous;
+      }
+
+      const stops = [...previous.stops];
+      [stops[index], stops[target]] = [stops[target], stops[index]];
+      return { ...previous, stops };
+    });
+  }
+
+  function removeStop(index: number) {
+    setFormState((previous) => ({
+      ...previous,
+      stops: previous.stops.filter((_, itemIndex) => itemIndex !== index),
+    }));
+  }
+
   function updateField<K extends keyof BookingFormState>(field: K, value: BookingFormState[K]) {
     setFormState((previous) => ({ ...previous, [field]: value }));
   }
 
+  async function applyPromoCode() {
+    setPromoError("");
+
+    if (!promoInput.trim()) {
+      setAppliedPromo(null);
+      return;
+    }
+
+    if (!promoVehicleId || estimatedFare <= 0) {
+      setPromoError("Choose your vehicle before applying a promo code.");
+      return;
+    }
+
+    try {
+      setIsCheckingPromo(true);
+
+      const response = await fetch("/api/promo-codes/validate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [CLIENT_SESSION_HEADER]: clientSessionId(),
+        },
+        body: JSON.stringify({
+          code: promoInput,
+          vehicleId: promoVehicleId,
+          subtotal: chargeSubtotal,
+        }),
+      });
+
+      const data = (await response.json()) as {
+        code?: string;
+        label?: string;
+        discountAmount?: number;
+        error?: string;
+      };
+
+      if (!response.ok || !data.code) {
+        setAppliedPromo(null);
+        setPromoError(data.error ?? "This promo code could not be applied.");
+        return;
+      }
+
+      setAppliedPromo({
+        code: data.code,
+        label: data.label ?? `Promo ${data.code}`,
+        discountAmount: Number(data.discountAmount ?? 0),
+        vehicleId: promoVehicleId,
+        subtotal: chargeSubtotal,
+      });
+    } catch {
+      setPromoError("Unable to check this promo code right now.");
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  }
+
   async function handleSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
     setSubmitError("");
     setSubmitMessage("");
 
-    if (!firestoreDb) {
-      setSubmitError(firebaseConfigError ?? "Firebase is not configured.");
-      return;
-    }
+    // The "Request a Custom Quote" button saves the trip for dispatch to price instead of paying now.
+    const requestsQuote = (event.nativeEvent as SubmitEvent).submitter?.getAttribute("value") === "quote";
 
     if (!formState.serviceDate || !formState.pickupTime) {
       setSubmitError("Please select service date and pickup time.");
       return;
     }
 
-    if (!formState.pickupAddress || !formState.dropoffAddress) {
-      setSubmitError("Please enter pickup and drop-off addresses.");
+    if (!formState.pickupAddress || (!isHourly && !formState.dropoffAddress)) {
+      setSubmitError(
+        isHourly ? "Please enter a pickup address." : "Please enter pickup and drop-off addresses.",
+      );
+      return;
+    }
+
+    if (airportIssue) {
+      setSubmitError(airportIssue);
       return;
     }
 
-    if (!formState.fullName || !formState.email || !formState.phone) {
-      setSubmitError("Please complete your contact information.");
+    if (hasBlankStop) {
+      setSubmitError("Please enter an address for each stop or remove it.");
       return;
     }
 
-    if (!selected) {
+    if (returnIssue) {
+      setSubmitError(returnIssue);
+      return;
+    }
+
+    if (seriesIssue) {
+      setSubmitError(seriesIssue);
+      return;
+    }
+
+    if (
+      isHourly &&
+      !(Number.isInteger(formState.hours) && formState.hours >= 1 && formState.hours <= MAX_HOURLY_HOURS)
+    ) {
+      setSubmitError(`Please choose between 1 and ${MAX_HOURLY_HOURS} hours of service.`);
+      return;
+    }
+
+    // A saved booking keeps the contact details it was created with.
+    if (!resumeBookingId && Object.keys(contactIssues).length > 0) {
+      setContactTouched({ fullName: true, email: true, phone: true });
+      setSubmitError("Please check your contact information.");
+      return;
+    }
+
+    if (isGroupBooking) {
+      if (groupIssue || !groupQuote) {
+        setSubmitError(groupIssue ?? "Please choose your vehicles.");
+        return;
+      }
+    } else if (!selected) {
       setSubmitError("Please select a vehicle.");
       return;
+    } else if (selectedCapacityIssue) {
+      setSubmitError(`${selectedCapacityIssue} Please choose a larger vehicle.`);
+      return;
+    } else if (selectedRuleIssue) {
+      setSubmitError(selectedRuleIssue);
+      return;
+    } else if (selectedSoldOut) {
+      setSubmitError(`${selected.name} is fully booked at that time. Please choose another vehicle or time.`);
+      return;
+    }
+
+    const vehicleId = isGroupBooking ? GROUP_VEHICLE_ID : (selected?.id ?? "");
+
+    if (!(isGroupBooking ? groupQuote : fareQuote)) {
+      setSubmitError("We could not price this trip. Please review your trip details.");
+      return;
+    }
+
+    if (routeIssue && !requestsQuote) {
+      setSubmitError(routeIssue);
+      return;
     }
 
     try {
       setIsSubmitting(true);
 
-      const bookingRef = await addDoc(collection(firestoreDb, "bookings"), {
-        tripType: formState.serviceType,
-        serviceDate: formState.serviceDate,
-        pickupTime: formState.pickupTime,
-        pickupAddress: formState.pickupAddress,
-        dropoffAddress: formState.dropoffAddress,
-        passengers: formState.passengers,
-        vehicleId: selected.id,
-        vehicleName: selected.name,
-        estimatedFare,
-        customerName: formState.fullName,
-        customerEmail: formState.email,
-        customerPhone: formState.phone,
-        specialInstructions: formState.specialInstructions,
-        status: "pending",
-        paymentStatus: "unpaid",
-        source: "web-booking",
-        createdAt: serverTimestamp(),
-      });
+      let bookingId = resumeBookingId;
+
+      if (!bookingId) {
+        // A challenge is good for one booking, so the next submit starts a fresh one.
+        const botProof = await (botProofRef.current ?? solveBotChallenge());
+        botProofRef.current = null;
+
+        const createResponse = await fetch("/api/bookings", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            [CLIENT_SESSION_HEADER]: clientSessionId(),
+          },
+          body: JSON.stringify({
+            serviceType: formState.serviceType,
+            serviceDate: formState.serviceDate,
+            pickupTime: formState.pickupTime,
+            hours: isHourly ? formState.hours : null,
+            returnLeg,
+            pickupAddress: formState.pickupAddress,
+            dropoffAddress: formState.dropoffAddress,
+            pickupPlaceId: formState.pickupPlaceId,
+            dropoffPlaceId: formState.dropoffPlaceId,
+            stops: itineraryStops,
+            airportPickup: formState.airportPickup,
+            passengers: formState.passengers,
+            luggage: formState.luggage,
+            addOns: isGroupBooking ? [] : formState.addOns,
+            vehicleId,
+            groupVehicles: isGroupBooking ? formState.groupVehicles : null,
+            customerName: formState.fullName,
+            customerEmail: normalizeEmail(formState.email),
+            customerPhone: formState.phone,
+            specialInstructions: formState.specialInstructions,
+            recurrence,
+            seriesPaymentMode: formState.seriesPaymentMode,
+            quoteRequest: requestsQuote,
+            botProof,
+            [HONEYPOT_FIELD]: honeypot,
+          }),
+        });
+
+        const createData = (await createResponse.json()) as {
+          bookingId?: string;
+          referenceCode?: string;
+          occurrenceCount?: number;
+          error?: string;
+        };
+
+        if (!createResponse.ok || !createData.bookingId) {
+          setSubmitError(createData.error ?? "Unable to save booking right now.");
+          return;
+        }
+
+        if (requestsQuote) {
+          setBookingReference(createData.referenceCode ?? "");
+          setCheckoutStatus("quote_requested");
+          setFormState(EMPTY_FORM_STATE);
+          setContactTouched({});
+          setPromoInput("");
+          setAppliedPromo(null);
+          setSelectedVehicle("");
+          setBookingStep(1);
+          return;
+        }
+
+        // From here a retry pays this booking instead of saving another one that holds a vehicle.
+        bookingId = createData.bookingId;
+        setResumeBookingId(bookingId);
+        setResumedSeriesRides(formState.seriesPaymentMode === "series" ? (createData.occurrenceCount ?? 0) : 0);
+      }
 
       const checkoutResponse = await fetch("/api/stripe/checkout", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          [CLIENT_SESSION_HEADER]: clientSessionId(),
         },
+        // Checkout prices the saved booking; the fare shown here is sent so a price change is caught.
         body: JSON.stringify({
-          bookingId: bookingRef.id,
-          vehicleId: selected.id,
-          serviceType: formState.serviceType,
+          bookingId,
           estimatedFare,
-          customerName: formState.fullName,
-          customerEmail: formState.email,
+          promoCode: activePromo?.code ?? (promoInput.trim() || undefined),
         }),
       });
 
-      const checkoutData = (await checkoutResponse.json()) as { url?: string; error?: string };
+      const checkoutData = (await checkoutResponse.json()) as {
+        url?: string;
+        error?: string;
+        quotedFare?: number;
+        promoError?: boolean;
+      };
+
+      if (checkoutResponse.status === 409) {
+        setSubmitMessage("Booking saved, but the fare needs your review before payment.");
+        setSubmitError(checkoutData.error ?? "The fare changed. Please review the updated summary.");
+        return;
+      }
+
+      if (checkoutData.promoError) {
+        setAppliedPromo(null);
+        setPromoError(checkoutData.error ?? "This promo code could not be applied.");
+      }
 
       if (!checkoutResponse.ok || !checkoutData.url) {
         setSubmitMessage("Booking saved. Stripe checkout could not start automatically.");
@@ -225,19 +1158,12 @@ export default function BookingPage() {
       window.location.assign(checkoutData.url);
 
       setSubmitMessage("Redirecting to secure payment...");
-      setFormState({
-        serviceType: "one-way",
-        serviceDate: "",
-        pickupAddress: "",
-        dropoffAddress: "",
-        pickupTime: "",
-        passengers: 2,
-        fullName: "",
-        email: "",
-        phone: "",
-        specialInstructions: "",
-      });
+      setFormState(EMPTY_FORM_STATE);
+      setContactTouched({});
+      setPromoInput("");
+      setAppliedPromo(null);
       setSelectedVehicle("");
+      setResumeBookingId("");
       setBookingStep(1);
     } catch (error) {
       setSubmitError(
@@ -252,11 +1178,18 @@ export default function BookingPage() {
 
   const canProceedStep1 =
     Boolean(formState.pickupAddress.trim()) &&
-    Boolean(formState.dropoffAddress.trim()) &&
+    (isHourly ? formState.hours > 0 : Boolean(formState.dropoffAddress.trim())) &&
     Boolean(formState.serviceDate) &&
-    Boolean(formState.pickupTime);
+    Boolean(formState.pickupTime) &&
+    !hasBlankStop &&
+    !airportIssue &&
+    !returnIssue &&
+    !seriesIssue &&
+    !tripRuleIssue;
 
-  const canProceedStep2 = Boolean(selected);
+  const canProceedStep2 = isGroupBooking
+    ? Boolean(groupQuote) && !groupIssue
+    : Boolean(selected) && !selectedCapacityIssue && !selectedSoldOut && !selectedRuleIssue;
 
   function goToStep(nextStep: 1 | 2 | 3) {
     setSubmitError("");
@@ -286,9 +1219,7 @@ export default function BookingPage() {
   }
 
   function serviceTypeLabel(type: ServiceType) {
-    if (type === "round-trip") return "Round Trip";
-    if (type === "hourly") return "Hourly";
-    return "One Way";
+    return SERVICE_LABELS[type];
   }
 
   return (
@@ -333,6 +1264,52 @@ export default function BookingPage() {
             </p>
           ) : null}
 
+          {checkoutStatus === "quote_requested" ? (
+            <p className="mt-4 rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              Your quote request has been sent. Dispatch will price your trip and send you a link to accept the quote
+              and pay.
+            </p>
+          ) : null}
+
+          {checkoutStatus === "authorized" ? (
+            <p className="mt-4 rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-3 py-2 text-sm text-emerald-200">
+              Your card has been authorized. It will only be charged once dispatch confirms your booking.
+            </p>
+          ) : null}
+
+          {bookingReference ? (
+            <p className="mt-4 rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-neutral-200">
+              Your booking reference is{" "}
+              <span className="font-semibold tracking-[0.2em] text-amber-400">{bookingReference}</span>. Use it with
+              your email to{" "}
+              <Link
+                href={`/booking/manage?ref=${bookingReference}`}
+                className="font-semibold text-amber-400 underline-offset-2 hover:underline"
+              >
+                view, change or cancel your booking
+              </Link>
+              .
+            </p>
+          ) : null}
+
+          {checkoutStatus === "verifying" ? (
+            <p className="mt-4 rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-neutral-200">
+              Confirming your payment with Stripe...
+            </p>
+          ) : null}
+
+          {checkoutStatus === "processing" ? (
+            <p className="mt-4 rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+              Your payment is still processing. Dispatch will confirm once Stripe reports it as paid.
+            </p>
+          ) : null}
+
+          {checkoutStatus === "unverified" ? (
+            <p className="mt-4 rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-sm text-rose-200">
+              We could not confirm this payment. If you completed checkout, dispatch will verify it shortly.
+            </p>
+          ) : null}
+
           {checkoutStatus === "cancelled" ? (
             <p className="mt-4 rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
               Stripe checkout was cancelled. Your booking draft is saved and can be completed again.
@@ -360,7 +1337,7 @@ export default function BookingPage() {
             ))}
           </div>
 
-          <form className="mt-6" onSubmit={handleSubmit}>
+          <form className="mt-6" onSubmit={handleSubmit} noValidate>
             {bookingStep === 1 ? (
               <div className="space-y-6">
                 <div className="grid grid-cols-3 gap-3">
@@ -381,32 +1358,204 @@ export default function BookingPage() {
                 </div>
 
                 <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-3 text-sm sm:col-span-2">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(formState.airportPickup)}
+                      onChange={(event) => setAirportPickupEnabled(event.target.checked)}
+                      className="h-4 w-4 accent-amber-500"
+                    />
+                    <Plane className="h-4 w-4 text-amber-400" />
+                    <span>Airport pickup (we track your flight)</span>
+                  </label>
+
+                  {formState.airportPickup ? (
+                    <div className="grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 sm:col-span-2 sm:grid-cols-2">
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Airport</span>
+                        <select
+                          value={formState.airportPickup.airportCode}
+                          onChange={(event) =>
+                            updateAirportPickup({ airportCode: event.target.value as AirportPickup["airportCode"] })
+                          }
+                          className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                        >
+                          {AIRPORTS.map((airport) => (
+                            <option key={airport.code} value={airport.code}>
+                              {airport.code} · {airport.name}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Terminal</span>
+                        <select
+                          value={formState.airportPickup.terminal}
+                          onChange={(event) => updateAirportPickup({ terminal: event.target.value })}
+                          className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                        >
+                          {(findAirport(formState.airportPickup.airportCode)?.terminals ?? []).map((terminal) => (
+                            <option key={terminal} value={terminal}>
+                              {terminal}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Airline</span>
+                        <input
+                          type="text"
+                          placeholder="American Airlines"
+                          value={formState.airportPickup.airline}
+                          onChange={(event) => updateAirportPickup({ airline: event.target.value })}
+                          className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
+                        />
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Flight Number</span>
+                        <input
+                          type="text"
+                          placeholder="AA1234"
+                          value={formState.airportPickup.flightNumber}
+                          onChange={(event) => updateAirportPickup({ flightNumber: event.target.value })}
+                          className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm uppercase text-white outline-none placeholder:normal-case placeholder:text-neutral-500 focus:border-amber-400"
+                        />
+                      </label>
+
+                      <label className="flex items-center gap-3 text-sm text-neutral-200 sm:col-span-2">
+                        <input
+                          type="checkbox"
+                          checked={formState.airportPickup.meetAndGreet}
+                          onChange={(event) => updateAirportPickup({ meetAndGreet: event.target.checked })}
+                          className="h-4 w-4 accent-amber-500"
+                        />
+                        Meet and greet inside the terminal with a name sign
+                      </label>
+
+                      <p className="text-xs text-neutral-400 sm:col-span-2">
+                        Set the pickup time to your scheduled arrival; dispatch adjusts for delays.
+                      </p>
+
+                      {airportIssue && formState.airportPickup.flightNumber ? (
+                        <p className="text-xs text-rose-300 sm:col-span-2">{airportIssue}</p>
+                      ) : null}
+                    </div>
+                  ) : null}
+
                   <label className="space-y-2 sm:col-span-2">
                     <span className="text-xs font-medium tracking-wide text-neutral-300">Pickup Location</span>
-                    <div className="relative">
-                      <MapPin className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
-                      <input
-                        type="text"
-                        placeholder="Enter pickup address"
-                        value={formState.pickupAddress}
-                        onChange={(event) => updateField("pickupAddress", event.target.value)}
-                        className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
-                      />
-                    </div>
+                    <PlaceAutocomplete
+                      places={gazetteer.places}
+                      placeholder="Enter pickup address, hotel or venue"
+                      value={formState.pickupAddress}
+                      readOnly={Boolean(formState.airportPickup)}
+                      icon={
+                        <MapPin className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
+                      }
+                      onChange={(value, place) =>
+                        setFormState((previous) => ({
+                          ...previous,
+                          pickupAddress: value,
+                          pickupPlaceId: place?.id ?? null,
+                        }))
+                      }
+                    />
                   </label>
 
+                  <div className="space-y-3 sm:col-span-2">
+                    {formState.stops.map((stop, index) => (
+                      <div key={index} className="flex flex-wrap items-end gap-2 rounded-xl border border-white/10 bg-white/5 p-3">
+                        <label className="min-w-[12rem] flex-1 space-y-2">
+                          <span className="text-xs font-medium tracking-wide text-neutral-300">Stop {index + 1}</span>
+                          <input
+                            type="text"
+                            placeholder="Enter stop address"
+                            value={stop.address}
+                            onChange={(event) => updateStop(index, { address: event.target.value })}
+                            className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
+                          />
+                        </label>
+                        <label className="space-y-2">
+                          <span className="text-xs font-medium tracking-wide text-neutral-300">Wait</span>
+                          <select
+                            value={stop.waitMinutes}
+                            onChange={(event) => updateStop(index, { waitMinutes: Number(event.target.value) })}
+                            className="rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                          >
+                            {STOP_WAIT_OPTIONS.map((minutes) => (
+                              <option key={minutes} value={minutes}>
+                                {minutes === 0 ? "No wait" : `${minutes} min`}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <div className="flex gap-1">
+                          <button
+                            type="button"
+                            onClick={() => moveStop(index, -1)}
+                            disabled={index === 0}
+                            aria-label={`Move stop ${index + 1} earlier`}
+                            className="rounded-lg border border-white/15 px-3 py-3 text-xs text-neutral-300 transition hover:bg-white/10 disabled:opacity-40"
+                          >
+                            ↑
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveStop(index, 1)}
+                            disabled={index === formState.stops.length - 1}
+                            aria-label={`Move stop ${index + 1} later`}
+                            className="rounded-lg border border-white/15 px-3 py-3 text-xs text-neutral-300 transition hover:bg-white/10 disabled:opacity-40"
+                          >
+                            ↓
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removeStop(index)}
+                            aria-label={`Remove stop ${index + 1}`}
+                            className="rounded-lg border border-white/15 px-3 py-3 text-neutral-300 transition hover:bg-white/10"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+
+                    {formState.stops.length < MAX_ITINERARY_STOPS ? (
+                      <button
+                        type="button"
+                        onClick={addStop}
+                        className="inline-flex items-center gap-2 rounded-xl border border-dashed border-white/20 px-3 py-2 text-xs font-semibold text-neutral-300 transition hover:border-amber-400 hover:text-amber-400"
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add a stop
+                      </button>
+                    ) : null}
+                  </div>
+
                   <label className="space-y-2 sm:col-span-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Drop-off Location</span>
-                    <div className="relative">
-                      <Navigation className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
-                      <input
-                        type="text"
-                        placeholder="Enter destination address"
-                        value={formState.dropoffAddress}
-                        onChange={(event) => updateField("dropoffAddress", event.target.value)}
-                        className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
-                      />
-                    </div>
+                    <span className="text-xs font-medium tracking-wide text-neutral-300">
+                      {isHourly ? "Final Drop-off (optional)" : "Drop-off Location"}
+                    </span>
+                    <PlaceAutocomplete
+                      places={gazetteer.places}
+                      placeholder={
+                        isHourly ? "Leave blank if your itinerary is flexible" : "Enter destination, hotel or venue"
+                      }
+                      value={formState.dropoffAddress}
+                      icon={
+                        <Navigation className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
+                      }
+                      onChange={(value, place) =>
+                        setFormState((previous) => ({
+                          ...previous,
+                          dropoffAddress: value,
+                          dropoffPlaceId: place?.id ?? null,
+                        }))
+                      }
+                    />
                   </label>
 
                   <label className="space-y-2">
@@ -415,6 +1564,8 @@ export default function BookingPage() {
                       <Calendar className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
                       <input
                         type="date"
+                        min={nowInNewYork().slice(0, 10)}
+                        max={lastBookableDate(bookingRules)}
                         value={formState.serviceDate}
                         onChange={(event) => updateField("serviceDate", event.target.value)}
                         className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none focus:border-amber-400"
@@ -423,7 +1574,9 @@ export default function BookingPage() {
                   </label>
 
                   <label className="space-y-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Pickup Time</span>
+                    <span className="text-xs font-medium tracking-wide text-neutral-300">
+                      Pickup Time (Buffalo time)
+                    </span>
                     <div className="relative">
                       <Clock3 className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
                       <input
@@ -433,14 +1586,201 @@ export default function BookingPage() {
                         className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none focus:border-amber-400"
                       />
                     </div>
+                    {localPickupLabel ? (
+                      <p className="text-xs text-neutral-400">That is {localPickupLabel} where you are.</p>
+                    ) : null}
+                  </label>
+
+                  {tripRuleIssue ? (
+                    <p className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-xs text-rose-200 sm:col-span-2">
+                      {tripRuleIssue}
+                    </p>
+                  ) : null}
+
+                  <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4 sm:col-span-2">
+                    <label className="flex items-center gap-3 text-sm font-semibold">
+                      <input
+                        type="checkbox"
+                        checked={formState.repeats}
+                        onChange={(event) =>
+                          setFormState((previous) => ({
+                            ...previous,
+                            repeats: event.target.checked,
+                            groupBooking: event.target.checked ? false : previous.groupBooking,
+                            groupVehicles: event.target.checked ? [] : previous.groupVehicles,
+                          }))
+                        }
+                        className="h-4 w-4 accent-amber-500"
+                      />
+                      Repeat this trip
+                    </label>
+
+                    {formState.repeats ? (
+                      <div className="grid gap-4 sm:grid-cols-3">
+                        <label className="space-y-2">
+                          <span className="text-xs font-medium tracking-wide text-neutral-300">Repeats</span>
+                          <select
+                            value={formState.recurrenceFrequency}
+                            onChange={(event) =>
+                              updateField("recurrenceFrequency", event.target.value as RecurrenceFrequency)
+                            }
+                            className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                          >
+                            {(Object.keys(RECURRENCE_FREQUENCY_LABELS) as RecurrenceFrequency[]).map((frequency) => (
+                              <option key={frequency} value={frequency}>
+                                {RECURRENCE_FREQUENCY_LABELS[frequency]}
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+
+                        <label className="space-y-2">
+                          <span className="text-xs font-medium tracking-wide text-neutral-300">Ends</span>
+                          <select
+                            value={formState.recurrenceEndType}
+                            onChange={(event) => updateField("recurrenceEndType", event.target.value as RecurrenceEnd)}
+                            className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                          >
+                            <option value="count">After a number of rides</option>
+                            <option value="date">On a date</option>
+                          </select>
+                        </label>
+
+                        {formState.recurrenceEndType === "count" ? (
+                          <label className="space-y-2">
+                            <span className="text-xs font-medium tracking-wide text-neutral-300">Number of Rides</span>
+                            <input
+                              type="number"
+                              min={2}
+                              max={MAX_SERIES_OCCURRENCES}
+                              value={formState.recurrenceCount}
+                              onChange={(event) =>
+                                updateField("recurrenceCount", Number.parseInt(event.target.value || "0", 10))
+                              }
+                              className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                            />
+                          </label>
+                        ) : (
+                          <label className="space-y-2">
+                            <span className="text-xs font-medium tracking-wide text-neutral-300">Last Ride On</span>
+                            <input
+                              type="date"
+                              min={formState.serviceDate || undefined}
+                              max={lastBookableDate(bookingRules)}
+                              value={formState.recurrenceEndDate}
+                              onChange={(event) => updateField("recurrenceEndDate", event.target.value)}
+                              className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                            />
+                          </label>
+                        )}
+
+                        {seriesIssue && formState.serviceDate ? (
+                          <p className="text-xs text-rose-300 sm:col-span-3">{seriesIssue}</p>
+                        ) : seriesDates.length > 1 ? (
+                          <p className="text-xs text-neutral-400 sm:col-span-3">
+                            {seriesDates.length} rides from {seriesDates[0]} to {seriesDates[seriesDates.length - 1]},
+                            each booked and confirmed on its own.
+                          </p>
+                        ) : null}
+                      </div>
+                    ) : null}
+                  </div>
+
+                  {isRoundTrip ? (
+                    <div className="grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 sm:col-span-2 sm:grid-cols-2">
+                      <p className="text-sm font-semibold sm:col-span-2">Return Trip</p>
+
+                      <label className="space-y-2 sm:col-span-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Return Pickup Location</span>
+                        <div className="relative">
+                          <MapPin className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
+                          <input
+                            type="text"
+                            placeholder={formState.dropoffAddress || "Same as drop-off location"}
+                            value={formState.returnPickupAddress}
+                            onChange={(event) => updateField("returnPickupAddress", event.target.value)}
+                            className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
+                          />
+                        </div>
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Return Date</span>
+                        <div className="relative">
+                          <Calendar className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
+                          <input
+                            type="date"
+                            min={formState.serviceDate || undefined}
+                            max={lastBookableDate(bookingRules)}
+                            value={formState.returnDate}
+                            onChange={(event) => updateField("returnDate", event.target.value)}
+                            className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none focus:border-amber-400"
+                          />
+                        </div>
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Return Pickup Time</span>
+                        <div className="relative">
+                          <Clock3 className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
+                          <input
+                            type="time"
+                            value={formState.returnTime}
+                            onChange={(event) => updateField("returnTime", event.target.value)}
+                            className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none focus:border-amber-400"
+                          />
+                        </div>
+                      </label>
+
+                      {returnIssue && formState.returnDate && formState.returnTime ? (
+                        <p className="text-xs text-rose-300 sm:col-span-2">{returnIssue}</p>
+                      ) : null}
+                    </div>
+                  ) : null}
+
+                  {isHourly ? (
+                    <label className="space-y-2 sm:col-span-2">
+                      <span className="text-xs font-medium tracking-wide text-neutral-300">Hours Needed</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_HOURLY_HOURS}
+                        step={1}
+                        value={formState.hours}
+                        onChange={(event) => updateField("hours", Number.parseInt(event.target.value || "1", 10))}
+                        className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                      <p className="text-xs text-neutral-500">
+                        Each vehicle has a minimum booking; you will see it when choosing a vehicle.
+                      </p>
+                    </label>
+                  ) : null}
+
+                  <label className="flex items-start gap-3 rounded-2xl border border-white/10 bg-white/5 p-4 text-sm sm:col-span-2">
+                    <input
+                      type="checkbox"
+                      checked={formState.groupBooking}
+                      disabled={Boolean(resumeBookingId)}
+                      onChange={(event) => setGroupBooking(event.target.checked)}
+                      className="mt-0.5 h-4 w-4 accent-amber-500"
+                    />
+                    <span>
+                      <span className="block font-semibold">Group or event booking</span>
+                      <span className="block text-xs text-neutral-400">
+                        Several vehicles for one trip, such as a wedding or conference. Choose how many of each class
+                        in the next step and pay once for all of them.
+                      </span>
+                    </span>
                   </label>
 
                   <label className="space-y-2 sm:col-span-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Passengers</span>
+                    <span className="text-xs font-medium tracking-wide text-neutral-300">
+                      {isGroupBooking ? "Passengers (whole party)" : "Passengers"}
+                    </span>
                     <input
                       type="number"
                       min={1}
-                      max={14}
+                      max={isGroupBooking ? MAX_GROUP_PASSENGERS : MAX_PASSENGERS}
                       value={formState.passengers}
                       onChange={(event) =>
                         updateField("passengers", Number.parseInt(event.target.value || "1", 10))
@@ -448,6 +1788,23 @@ export default function BookingPage() {
                       className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none focus:border-amber-400"
                     />
                   </label>
+
+                  <label className="space-y-2 sm:col-span-2">
+                    <span className="text-xs font-medium tracking-wide text-neutral-300">Luggage (suitcases)</span>
+                    <div className="relative">
+                      <Briefcase className="pointer-events-none absolute left-4 top-1/2 h-4 w-4 -translate-y-1/2 text-amber-400" />
+                      <input
+                        type="number"
+                        min={0}
+                        max={isGroupBooking ? MAX_GROUP_LUGGAGE : MAX_LUGGAGE}
+                        value={formState.luggage}
+                        onChange={(event) =>
+                          updateField("luggage", Math.max(0, Number.parseInt(event.target.value || "0", 10)))
+                        }
+                        className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none focus:border-amber-400"
+                      />
+                    </div>
+                  </label>
                 </div>
 
                 <button
@@ -465,24 +1822,33 @@ export default function BookingPage() {
             {bookingStep === 2 ? (
               <div className="space-y-5">
                 <div className="space-y-2">
-                  <h2 className="text-lg font-semibold">Select Your Vehicle</h2>
-                  <p className="text-sm text-neutral-400">Choose the class that best fits your trip.</p>
+                  <h2 className="text-lg font-semibold">
+                    {isGroupBooking ? "Select Your Vehicles" : "Select Your Vehicle"}
+                  </h2>
+                  <p className="text-sm text-neutral-400">
+                    {isGroupBooking
+                      ? "Choose how many of each class your group needs."
+                      : "Choose the class that best fits your trip."}
+                  </p>
                 </div>
 
                 <div className="space-y-4">
                   {fleetOptions.map((vehicle) => {
-                    const isActive = selectedVehicle === vehicle.id;
-                    return (
-                      <button
-                        key={vehicle.id}
-                        type="button"
-                        onClick={() => setSelectedVehicle(vehicle.id)}
-                        className={`flex w-full flex-col overflow-hidden rounded-2xl border text-left transition md:flex-row ${
-                          isActive
-                            ? "border-amber-500 bg-amber-500/5"
-                            : "border-white/10 bg-white/5 hover:border-white/25"
-                        }`}
-                      >
+                    const quantity =
+                      formState.groupVehicles.find((selection) => selection.vehicleId === vehicle.id)?.quantity ?? 0;
+                    const isActive = isGroupBooking ? quantity > 0 : selectedVehicle === vehicle.id;
+                    const capacityIssue = isGroupBooking
+                      ? null
+                      : vehicleCapacityIssue(vehicle, formState.passengers, formState.luggage);
+                    const freeUnits = availability?.[vehicle.id]?.available;
+                    const soldOut = freeUnits === 0;
+                    const ruleIssue = bookingRuleIssue(bookingRules, ruleTrip, vehicle);
+                    const maxQuantity = Math.min(freeUnits ?? vehicle.units, MAX_GROUP_VEHICLES);
+                    const cardClassName = `flex w-full flex-col overflow-hidden rounded-2xl border text-left transition md:flex-row ${
+                      isActive ? "border-amber-500 bg-amber-500/5" : "border-white/10 bg-white/5 hover:border-white/25"
+                    }`;
+                    const details = (
+                      <>
                         <div
                           className="h-44 w-full bg-cover bg-center md:h-auto md:w-60"
                           style={{ backgroundImage: `url(${vehicle.image})` }}
@@ -494,7 +1860,23 @@ export default function BookingPage() {
                               <p className="text-lg font-semibold">{vehicle.name}</p>
                               <p className="text-xs text-neutral-400">{vehicle.type}</p>
                             </div>
-                            {isActive ? <CheckCircle2 className="h-6 w-6 text-amber-400" /> : null}
+                            {isGroupBooking ? (
+                              <select
+                                aria-label={`Number of ${vehicle.name}`}
+                                value={quantity}
+                                disabled={Boolean(ruleIssue) || (soldOut && quantity === 0)}
+                                onChange={(event) => setGroupQuantity(vehicle.id, Number(event.target.value))}
+                                className="rounded-xl border border-white/15 bg-neutral-950 px-3 py-2 text-sm text-white outline-none focus:border-amber-400 disabled:opacity-50"
+                              >
+                                {Array.from({ length: Math.max(maxQuantity, quantity) + 1 }, (_, value) => (
+                                  <option key={value} value={value}>
+                                    {value === 0 ? "None" : `${value} ×`}
+                                  </option>
+                                ))}
+                              </select>
+                            ) : isActive ? (
+                              <CheckCircle2 className="h-6 w-6 text-amber-400" />
+                            ) : null}
                           </div>
 
                           <p className="text-sm text-neutral-300">{vehicle.description}</p>
@@ -505,13 +1887,104 @@ export default function BookingPage() {
                             <span className="inline-flex items-center gap-1">
                               <Briefcase className="h-3.5 w-3.5 text-amber-400" /> {vehicle.luggage}
                             </span>
+                            {isHourly ? (
+                              <span className="inline-flex items-center gap-1">
+                                <Clock3 className="h-3.5 w-3.5 text-amber-400" /> $
+                                {vehicle.hourlyRate.toFixed(2)}/h · {vehicle.minimumHours} h minimum · overtime $
+                                {vehicleOvertimeTerms(vehicle).rate.toFixed(2)}/h
+                              </span>
+                            ) : null}
+                            {isGroupBooking && freeUnits !== undefined && !soldOut ? (
+                              <span>{freeUnits} free at that time</span>
+                            ) : null}
                           </div>
+                          {capacityIssue ? (
+                            <p className="mt-3 text-xs text-rose-300">
+                              {capacityIssue} Your party: {formState.passengers} passengers, {formState.luggage}{" "}
+                              suitcases.
+                            </p>
+                          ) : null}
+                          {ruleIssue ? <p className="mt-3 text-xs text-rose-300">{ruleIssue}</p> : null}
+                          {soldOut ? (
+                            <p className="mt-3 text-xs font-semibold text-rose-300">
+                              Sold out for {formState.serviceDate} at {formState.pickupTime}. Try another time or
+                              vehicle.
+                            </p>
+                          ) : null}
                         </div>
+                      </>
+                    );
+
+                    // In group mode each card carries a quantity picker instead of being a choice.
+                    return isGroupBooking ? (
+                      <div
+                        key={vehicle.id}
+                        className={`${cardClassName} ${ruleIssue || (soldOut && quantity === 0) ? "opacity-50" : ""}`}
+                      >
+                        {details}
+                      </div>
+                    ) : (
+                      <button
+                        key={vehicle.id}
+                        type="button"
+                        disabled={Boolean(capacityIssue) || soldOut || Boolean(ruleIssue)}
+                        onClick={() => setSelectedVehicle(vehicle.id)}
+                        className={`${cardClassName} disabled:cursor-not-allowed disabled:opacity-50`}
+                      >
+                        {details}
                       </button>
                     );
                   })}
                 </div>
 
+                {isGroupBooking ? (
+                  <div className="rounded-2xl border border-white/10 bg-white/5 p-4 text-sm">
+                    <p className="font-semibold">
+                      {groupVehicleCount(formState.groupVehicles)} vehicles
+                      {groupQuote ? ` · $${groupQuote.total.toFixed(2)}` : ""}
+                    </p>
+                    <p className="text-xs text-neutral-400">
+                      Your party of {formState.passengers} with {formState.luggage} suitcases is split across the
+                      vehicles. Dispatch assigns each vehicle and chauffeur separately.
+                    </p>
+                    {groupIssue ? <p className="mt-2 text-xs text-rose-300">{groupIssue}</p> : null}
+                  </div>
+                ) : null}
+
+                {!isGroupBooking && availableAddOns.length > 0 ? (
+                  <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-4">
+                    <div>
+                      <p className="text-sm font-semibold">Add-ons</p>
+                      <p className="text-xs text-neutral-400">Optional extras for your {selected?.name}.</p>
+                    </div>
+                    {availableAddOns.map((addOn) => {
+                      const quantity = formState.addOns.find((item) => item.id === addOn.id)?.quantity ?? 0;
+
+                      return (
+                        <div key={addOn.id} className="flex items-center justify-between gap-3 text-sm">
+                          <div>
+                            <p className="font-medium">{addOn.name}</p>
+                            <p className="text-xs text-neutral-400">
+                              ${addOn.price.toFixed(2)} each · up to {addOn.maxQuantity}
+                            </p>
+                          </div>
+                          <select
+                            value={Math.min(quantity, addOn.maxQuantity)}
+                            onChange={(event) => setAddOnQuantity(addOn.id, Number(event.target.value))}
+                            className="rounded-xl border border-white/15 bg-neutral-950 px-3 py-2 text-sm text-white outline-none focus:border-amber-400"
+                          >
+                            {Array.from({ length: addOn.maxQuantity + 1 }, (_, value) => (
+                              <option key={value} value={value}>
+                                {value === 0 ? "None" : value}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : null}
+
                 <div className="grid gap-3 sm:grid-cols-2">
                   <button
                     type="button"
@@ -539,49 +2012,177 @@ export default function BookingPage() {
                   <p className="text-sm text-neutral-400">Final contact details for dispatch confirmation.</p>
                 </div>
 
-                <div className="grid gap-4 sm:grid-cols-2">
-                  <label className="space-y-2 sm:col-span-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Full Name</span>
-                    <input
-                      type="text"
-                      placeholder="John Carter"
-                      value={formState.fullName}
-                      onChange={(event) => updateField("fullName", event.target.value)}
-                      className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
-                    />
-                  </label>
+                {resumeBookingId ? (
+                  <p className="rounded-xl border border-white/15 bg-white/5 px-3 py-2 text-sm text-neutral-200">
+                    Completing payment for your saved booking. To change the trip or vehicle, start a new booking
+                    instead.
+                    {resumedSeriesRides > 1 ? ` This payment covers all ${resumedSeriesRides} rides in your series.` : ""}
+                  </p>
+                ) : null}
 
-                  <label className="space-y-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Email</span>
-                    <input
-                      type="email"
-                      placeholder="john@email.com"
-                      value={formState.email}
-                      onChange={(event) => updateField("email", event.target.value)}
-                      className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
-                    />
-                  </label>
+                {seriesDates.length > 1 ? (
+                  <div className="space-y-2">
+                    <span className="text-xs font-medium tracking-wide text-neutral-300">Paying for the Series</span>
+                    <div className="grid gap-3 sm:grid-cols-2">
+                      {(Object.keys(SERIES_PAYMENT_LABELS) as SeriesPaymentMode[]).map((mode) => (
+                        <label
+                          key={mode}
+                          className={`flex cursor-pointer items-start gap-3 rounded-xl border px-3 py-3 text-sm transition ${
+                            formState.seriesPaymentMode === mode
+                              ? "border-amber-400 bg-amber-500/10"
+                              : "border-white/15 bg-neutral-950 hover:border-white/30"
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name="seriesPaymentMode"
+                            checked={formState.seriesPaymentMode === mode}
+                            onChange={() => updateField("seriesPaymentMode", mode)}
+                            className="mt-1 accent-amber-500"
+                          />
+                          <span>
+                            <span className="block font-semibold text-white">{SERIES_PAYMENT_LABELS[mode]}</span>
+                            <span className="block text-xs text-neutral-400">
+                              {mode === "series"
+                                ? `$${seriesTotal.toFixed(2)} now for all ${seriesDates.length} rides.`
+                                : `$${estimatedFare.toFixed(2)} now for the first ride; pay for each later ride from your booking page.`}
+                            </span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
 
-                  <label className="space-y-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Phone Number</span>
+                {/* Hidden from people and screen readers; only form-filling bots type here. */}
+                <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+                  <label>
+                    Website
                     <input
-                      type="tel"
-                      placeholder="(716) 000-0000"
-                      value={formState.phone}
-                      onChange={(event) => updateField("phone", event.target.value)}
-                      className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
+                      type="text"
+                      name={HONEYPOT_FIELD}
+                      tabIndex={-1}
+                      autoComplete="off"
+                      value={honeypot}
+                      onChange={(event) => setHoneypot(event.target.value)}
                     />
                   </label>
+                </div>
 
-                  <label className="space-y-2 sm:col-span-2">
-                    <span className="text-xs font-medium tracking-wide text-neutral-300">Special Instructions</span>
-                    <textarea
-                      placeholder="Flight number, terminal, access notes..."
-                      value={formState.specialInstructions}
-                      onChange={(event) => updateField("specialInstructions", event.target.value)}
-                      className="h-24 w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
-                    />
-                  </label>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  {resumeBookingId ? (
+                    <p className="text-sm text-neutral-400 sm:col-span-2">
+                      Dispatch already has the contact details and instructions saved with this booking.
+                    </p>
+                  ) : (
+                    <>
+                      <label className="space-y-2 sm:col-span-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Full Name</span>
+                        <input
+                          type="text"
+                          placeholder="John Carter"
+                          autoComplete="name"
+                          maxLength={MAX_NAME_LENGTH}
+                          value={formState.fullName}
+                          onChange={(event) => updateField("fullName", event.target.value)}
+                          onBlur={() => setContactTouched((previous) => ({ ...previous, fullName: true }))}
+                          aria-invalid={Boolean(visibleContactIssue("fullName"))}
+                          className={`w-full rounded-xl border bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400 ${
+                            visibleContactIssue("fullName") ? "border-rose-500/60" : "border-white/15"
+                          }`}
+                        />
+                        {visibleContactIssue("fullName") ? (
+                          <p className="text-xs text-rose-300">{visibleContactIssue("fullName")}</p>
+                        ) : null}
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Email</span>
+                        <input
+                          type="email"
+                          placeholder="john@email.com"
+                          autoComplete="email"
+                          maxLength={MAX_EMAIL_LENGTH}
+                          value={formState.email}
+                          onChange={(event) => updateField("email", event.target.value)}
+                          onBlur={() => {
+                            updateField("email", normalizeEmail(formState.email));
+                            setContactTouched((previous) => ({ ...previous, email: true }));
+                          }}
+                          aria-invalid={Boolean(visibleContactIssue("email"))}
+                          className={`w-full rounded-xl border bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400 ${
+                            visibleContactIssue("email") ? "border-rose-500/60" : "border-white/15"
+                          }`}
+                        />
+                        {visibleContactIssue("email") ? (
+                          <p className="text-xs text-rose-300">{visibleContactIssue("email")}</p>
+                        ) : null}
+                      </label>
+
+                      <label className="space-y-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Phone Number</span>
+                        <input
+                          type="tel"
+                          placeholder="(716) 000-0000"
+                          autoComplete="tel"
+                          maxLength={MAX_PHONE_LENGTH}
+                          value={formState.phone}
+                          onChange={(event) => updateField("phone", event.target.value)}
+                          onBlur={() => {
+                            updateField("phone", formatPhoneNumber(formState.phone));
+                            setContactTouched((previous) => ({ ...previous, phone: true }));
+                          }}
+                          aria-invalid={Boolean(visibleContactIssue("phone"))}
+                          className={`w-full rounded-xl border bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400 ${
+                            visibleContactIssue("phone") ? "border-rose-500/60" : "border-white/15"
+                          }`}
+                        />
+                        {visibleContactIssue("phone") ? (
+                          <p className="text-xs text-rose-300">{visibleContactIssue("phone")}</p>
+                        ) : null}
+                      </label>
+
+                      <label className="space-y-2 sm:col-span-2">
+                        <span className="text-xs font-medium tracking-wide text-neutral-300">Special Instructions</span>
+                        <textarea
+                          placeholder="Access notes, child seats, accessibility needs..."
+                          value={formState.specialInstructions}
+                          onChange={(event) => updateField("specialInstructions", event.target.value)}
+                          className="h-24 w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
+                        />
+                      </label>
+                    </>
+                  )}
+
+                  <div className="space-y-2 sm:col-span-2">
+                    <span className="text-xs font-medium tracking-wide text-neutral-300">Promo Code</span>
+                    <div className="flex gap-3">
+                      <input
+                        type="text"
+                        placeholder="Optional"
+                        value={promoInput}
+                        onChange={(event) => {
+                          setPromoInput(event.target.value);
+                          setPromoError("");
+                        }}
+                        className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-3 text-sm uppercase text-white outline-none placeholder:normal-case placeholder:text-neutral-500 focus:border-amber-400"
+                      />
+                      <button
+                        type="button"
+                        onClick={applyPromoCode}
+                        disabled={isCheckingPromo}
+                        className="rounded-xl border border-white/15 bg-white/5 px-4 text-sm font-semibold text-white transition hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-60"
+                      >
+                        {isCheckingPromo ? "Checking..." : "Apply"}
+                      </button>
+                    </div>
+                    {promoError ? <p className="text-xs text-rose-300">{promoError}</p> : null}
+                    {activePromo ? (
+                      <p className="text-xs text-emerald-300">
+                        {activePromo.label} applied: −${activePromo.discountAmount.toFixed(2)}
+                      </p>
+                    ) : null}
+                  </div>
                 </div>
 
                 {submitError ? (
@@ -596,22 +2197,50 @@ export default function BookingPage() {
                   </p>
                 ) : null}
 
+                {routeIssue && routeIssue !== submitError ? (
+                  <p className="rounded-xl border border-amber-500/30 bg-amber-500/10 px-3 py-2 text-sm text-amber-200">
+                    {routeIssue}
+                  </p>
+                ) : null}
+
                 <div className="grid gap-3 sm:grid-cols-2">
                   <button
                     type="button"
-                    onClick={() => goToStep(2)}
+                    onClick={() => (resumeBookingId ? startNewBooking() : goToStep(2))}
                     className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm font-semibold text-white transition hover:bg-white/10"
                   >
-                    Change Vehicle
+                    {resumeBookingId ? "Start New Booking" : "Change Vehicle"}
                   </button>
                   <button
                     type="submit"
-                    disabled={isSubmitting}
+                    disabled={isSubmitting || Boolean(routeIssue)}
                     className="rounded-2xl bg-amber-500 px-4 py-3 text-sm font-bold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-70"
                   >
-                    {isSubmitting ? "Saving rental..." : "Confirm Vehicle Rental"}
+                    {isSubmitting
+                      ? "Saving rental..."
+                      : resumeBookingId
+                        ? "Complete Payment"
+                        : "Confirm Vehicle Rental"}
                   </button>
                 </div>
+
+                {!resumeBookingId && !isGroupBooking && !formState.repeats ? (
+                  <div className="rounded-xl border border-white/15 bg-white/5 px-3 py-3 text-sm text-neutral-300">
+                    <p>
+                      Planning a prom, a multi-day charter or a trip beyond Western New York? Send this trip to dispatch
+                      for a custom quote instead of paying now.
+                    </p>
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="quote"
+                      disabled={isSubmitting}
+                      className="mt-3 rounded-xl border border-amber-500/40 px-4 py-2 text-xs font-semibold text-amber-300 transition hover:bg-amber-500/10 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Request a Custom Quote
+                    </button>
+                  </div>
+                ) : null}
               </div>
             ) : null}
           </form>
@@ -627,25 +2256,107 @@ export default function BookingPage() {
               <p className="font-medium">{serviceTypeLabel(formState.serviceType)}</p>
             </div>
             <div className="rounded-xl border border-white/10 bg-neutral-900/70 p-3">
-              <p className="text-neutral-400">Vehicle</p>
-              <p className="font-medium">{selected?.name ?? "Pending selection"}</p>
+              <p className="text-neutral-400">{isGroupBooking ? "Vehicles" : "Vehicle"}</p>
+              <p className="font-medium">
+                {(isGroupBooking ? groupLabel : selected?.name) || "Pending selection"}
+              </p>
             </div>
+            {formState.airportPickup ? (
+              <div className="rounded-xl border border-amber-500/30 bg-amber-500/5 p-3">
+                <p className="text-neutral-400">Airport pickup</p>
+                <p className="font-medium">
+                  {formState.airportPickup.airportCode} · {formState.airportPickup.terminal}
+                </p>
+                <p className="text-neutral-300">
+                  {formState.airportPickup.airline || "Airline"}{" "}
+                  {normalizeFlightNumber(formState.airportPickup.flightNumber) || "—"}
+                </p>
+                {formState.airportPickup.meetAndGreet ? (
+                  <p className="mt-1 text-xs text-amber-300">Meet and greet inside the terminal</p>
+                ) : null}
+              </div>
+            ) : null}
             <div className="rounded-xl border border-white/10 bg-neutral-900/70 p-3">
               <p className="text-neutral-400">Route</p>
-              <p className="font-medium">{formState.pickupAddress || "—"}</p>
-              <p className="my-1 text-xs text-neutral-500">to</p>
-              <p className="font-medium">{formState.dropoffAddress || "—"}</p>
+              <ol className="space-y-1">
+                <li className="font-medium">{formState.pickupAddress || "—"}</li>
+                {itineraryStops.map((stop, index) => (
+                  <li key={`${index}-${stop.address}`} className="text-neutral-200">
+                    <span className="text-xs text-neutral-500">Stop {index + 1} · </span>
+                    {stop.address}
+                    {stop.waitMinutes > 0 ? (
+                      <span className="text-xs text-neutral-400"> (wait {stop.waitMinutes} min)</span>
+                    ) : null}
+                  </li>
+                ))}
+                <li className="font-medium">
+                  <span className="text-xs font-normal text-neutral-500">to </span>
+                  {formState.dropoffAddress || (isHourly ? "As directed" : "—")}
+                </li>
+              </ol>
+              {displayQuote?.route ? (
+                <p className="mt-2 text-xs text-neutral-400">
+                  {displayQuote.route.pickup.zoneName} → {displayQuote.route.dropoff.zoneName}
+                  {displayQuote.route.miles !== null
+                    ? ` · approx. ${displayQuote.route.miles} mi`
+                    : " · distance confirmed by dispatch"}
+                </p>
+              ) : null}
             </div>
             <div className="rounded-xl border border-white/10 bg-neutral-900/70 p-3">
               <p className="text-neutral-400">Departure</p>
               <p className="font-medium">{formState.serviceDate || "—"}</p>
               <p className="text-neutral-300">{formState.pickupTime || "—"}</p>
+              {isHourly ? (
+                <p className="mt-1 text-xs text-neutral-400">
+                  {displayQuote?.hourly
+                    ? isGroupBooking
+                      ? `${displayQuote.hourly.billableHours} h booked · overtime billed after the ride at each vehicle's overtime rate`
+                      : `${displayQuote.hourly.billableHours} h booked · overtime billed after the ride at $${displayQuote.hourly.overtime.rate.toFixed(2)}/h in ${displayQuote.hourly.overtime.incrementMinutes}-minute increments`
+                    : `${formState.hours} h requested`}
+                </p>
+              ) : null}
             </div>
+            {returnLeg ? (
+              <div className="rounded-xl border border-white/10 bg-neutral-900/70 p-3">
+                <p className="text-neutral-400">Return</p>
+                <p className="font-medium">{returnLeg.serviceDate || "—"}</p>
+                <p className="text-neutral-300">{returnLeg.pickupTime || "—"}</p>
+                <p className="mt-1 text-xs text-neutral-400">
+                  Pickup at {returnLeg.pickupAddress || "—"}
+                  {formState.pickupAddress ? ` · back to ${formState.pickupAddress}` : ""}
+                </p>
+              </div>
+            ) : null}
           </div>
 
           <div className="mt-6 rounded-2xl border border-amber-500/30 bg-amber-500/10 p-4">
-            <p className="text-xs uppercase tracking-wide text-amber-300">Estimated total</p>
-            <p className="mt-1 text-2xl font-bold text-amber-400">${estimatedFare.toFixed(2)} USD</p>
+            <p className="text-xs uppercase tracking-wide text-amber-300">
+              {seriesDates.length > 1 && !chargesSeries ? "Due now for the first ride" : "Estimated total"}
+            </p>
+            <p className="mt-1 text-2xl font-bold text-amber-400">${amountDue.toFixed(2)} USD</p>
+            {seriesDates.length > 1 ? (
+              <p className="mt-1 text-xs text-amber-100">
+                {seriesDates.length} rides · series total ${seriesTotal.toFixed(2)}
+                {chargesSeries ? " charged at checkout" : ", each ride paid separately"}
+              </p>
+            ) : null}
+            {summaryLines.length > 0 && !chargesSeries ? (
+              <ul className="mt-3 space-y-1 text-xs text-amber-100">
+                {summaryLines.map((line) => (
+                  <li key={line.code} className="flex items-center justify-between gap-3">
+                    <span>{line.label}</span>
+                    <span>${line.amount.toFixed(2)}</span>
+                  </li>
+                ))}
+                {activePromo ? (
+                  <li className="flex items-center justify-between gap-3 text-emerald-300">
+                    <span>{activePromo.label}</span>
+                    <span>−${activePromo.discountAmount.toFixed(2)}</span>
+                  </li>
+                ) : null}
+              </ul>
+            ) : null}
           </div>
 
           <div className="mt-6 rounded-xl border border-white/10 bg-white/5 p-4">
@@ -668,8 +2379,21 @@ export default function BookingPage() {
           bookingStep,
           serviceTypeLabel: serviceTypeLabel(formState.serviceType),
           passengers: formState.passengers,
-          selectedVehicleName: selected?.name,
+          luggage: formState.luggage,
+          selectedVehicleName: (isGroupBooking ? groupLabel : selected?.name) || undefined,
           estimatedFare,
+          pickupAddress: formState.pickupAddress,
+          stops: itineraryStops,
+          dropoffAddress: formState.dropoffAddress,
+          bookingRuleIssue: selectedRuleIssue ?? tripRuleIssue ?? undefined,
+          bookingRules: {
+            minNoticeHours: Object.fromEntries(
+              fleetOptions.map((vehicle) => [vehicle.name, minNoticeHoursFor(bookingRules, vehicle.id)]),
+            ),
+            maxAdvanceDays: bookingRules.maxAdvanceDays,
+            operatingHours: operatingHoursLabel(bookingRules),
+            blackoutDates: bookingRules.blackoutDates,
+          },
         }}
         onGoToStep={goToStepFromConcierge}
       />
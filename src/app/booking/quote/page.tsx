@@ -0,0 +1,269 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Calendar, MapPin } from "lucide-react";
+import { CLIENT_SESSION_HEADER, clientSessionId } from "@/lib/bot-protection";
+import { BookingStatus, PaymentStatus } from "@/lib/bookings";
+import { formatPickupInstant, pickupInstant } from "@/lib/pickup-instant";
+import { SERVICE_LABELS, ServiceType } from "@/lib/pricing";
+import { BookingQuote, quoteAcceptIssue, quoteExpired, quotePickupIssue } from "@/lib/quotes";
+
+type QuotedBooking = {
+  id: string;
+  referenceCode: string;
+  tripType: ServiceType;
+  serviceDate: string;
+  pickupTime: string;
+  hours: number | null;
+  pickupAddress: string;
+  dropoffAddress: string;
+  vehicleName: string;
+  passengers: number;
+  quote: BookingQuote | null;
+  status: BookingStatus;
+  paymentStatus: PaymentStatus;
+};
+
+function formatCurrency(value: number) {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatPickup(booking: QuotedBooking) {
+  const pickup = pickupInstant(booking.serviceDate, booking.pickupTime);
+  return pickup ? formatPickupInstant(pickup) : `${booking.serviceDate} at ${booking.pickupTime}`;
+}
+
+export default function QuotePage() {
+  const [booking, setBooking] = useState<QuotedBooking | null>(null);
+  const [resumable, setResumable] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [isPaying, setIsPaying] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const bookingId = new URLSearchParams(window.location.search).get("bookingId");
+
+    if (!bookingId) {
+      setError("This quote link is incomplete. Please use the link dispatch sent you.");
+      setLoading(false);
+      return;
+    }
+
+    fetch(`/api/bookings/${encodeURIComponent(bookingId)}`)
+      .then(async (response) => {
+        const data = (await response.json()) as { booking?: QuotedBooking; resumable?: boolean; error?: string };
+
+        if (!response.ok || !data.booking) {
+          setError(data.error ?? "We could not find this quote.");
+          return;
+        }
+
+        setBooking(data.booking);
+        setResumable(Boolean(data.resumable));
+      })
+      .catch(() => setError("Unable to load your quote right now."))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Accepting first (when the quote is still open) books the vehicle, then checkout charges
+  // the quoted total.
+  async function acceptAndPay() {
+    if (!booking?.quote) {
+      return;
+    }
+
+    setError("");
+
+    try {
+      setIsPaying(true);
+
+      if (!booking.quote.acceptedAt) {
+        const acceptResponse = await fetch(`/api/bookings/${encodeURIComponent(booking.id)}/quote`, {
+          method: "POST",
+        });
+        const acceptData = (await acceptResponse.json()) as { error?: string };
+
+        if (!acceptResponse.ok) {
+          setError(acceptData.error ?? "Unable to accept this quote right now.");
+          return;
+        }
+
+        setBooking({
+          ...booking,
+          status: "pending",
+          quote: { ...booking.quote, acceptedAt: new Date().toISOString() },
+        });
+        setResumable(true);
+      }
+
+      const checkoutResponse = await fetch("/api/stripe/checkout", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          [CLIENT_SESSION_HEADER]: clientSessionId(),
+        },
+        body: JSON.stringify({
+          bookingId: booking.id,
+          estimatedFare: booking.quote.total,
+        }),
+      });
+      const checkoutData = (await checkoutResponse.json()) as { url?: string; error?: string };
+
+      if (!checkoutResponse.ok || !checkoutData.url) {
+        setError(checkoutData.error ?? "Quote accepted, but checkout could not start. Please contact dispatch.");
+        return;
+      }
+
+      window.location.assign(checkoutData.url);
+    } catch {
+      setError("Unable to reach the booking desk right now.");
+    } finally {
+      setIsPaying(false);
+    }
+  }
+
+  const quote = booking?.quote ?? null;
+  // An accepted quote stays payable from here until it expires, like a payment link.
+  const payIssue =
+    !booking || !quote
+      ? null
+      : !quote.acceptedAt
+        ? quoteAcceptIssue(booking)
+        : resumable && quoteExpired(quote)
+          ? "This quote has expired. Please contact dispatch for an updated price."
+          : resumable
+            ? quotePickupIssue(booking)
+            : null;
+  const canPay = Boolean(quote) && !payIssue && (!quote?.acceptedAt || resumable);
+
+  return (
+    <div className="min-h-screen bg-neutral-950 text-white selection:bg-amber-500 selection:text-black">
+      <header className="fixed inset-x-0 top-0 z-40 border-b border-white/10 bg-black/80 backdrop-blur-md">
+        <div className="mx-auto flex h-20 max-w-7xl items-center justify-between px-6">
+          <div>
+            <p className="text-sm font-semibold tracking-[0.22em] text-white">
+              WNY <span className="text-amber-500">BLACK CAR</span>
+            </p>
+            <p className="text-xs text-neutral-400">Your Quote</p>
+          </div>
+
+          <div className="hidden items-center gap-8 md:flex">
+            <Link href="/" className="text-sm text-neutral-300 transition-colors hover:text-amber-400">
+              Home
+            </Link>
+            <Link href="/booking/manage" className="text-sm text-neutral-300 transition-colors hover:text-amber-400">
+              Manage Booking
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-6 px-6 pb-12 pt-28 lg:pb-16">
+        <section className="space-y-5 rounded-3xl border border-white/10 bg-neutral-900/70 p-6 lg:p-8">
+          <p className="inline-flex rounded-full bg-amber-500/15 px-3 py-1 text-xs font-semibold tracking-[0.14em] text-amber-400">
+            CUSTOM QUOTE
+          </p>
+
+          {loading ? <p className="text-sm text-neutral-400">Loading your quote...</p> : null}
+
+          {booking ? (
+            <>
+              <div>
+                <p className="text-xs uppercase tracking-[0.18em] text-neutral-400">Reference</p>
+                <p className="text-2xl font-bold tracking-[0.2em] text-amber-400">{booking.referenceCode}</p>
+              </div>
+
+              <div className="grid gap-4 rounded-2xl border border-white/10 bg-neutral-950/70 p-4 text-sm sm:grid-cols-2">
+                <div className="space-y-1">
+                  <p className="inline-flex items-center gap-2 text-neutral-400">
+                    <Calendar className="h-4 w-4" /> {SERVICE_LABELS[booking.tripType] ?? booking.tripType}
+                  </p>
+                  <p className="text-white">
+                    {formatPickup(booking)}
+                    {booking.hours ? ` · ${booking.hours} hr` : ""}
+                  </p>
+                  <p className="text-neutral-300">
+                    {booking.vehicleName} · {booking.passengers} passengers
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="inline-flex items-center gap-2 text-neutral-400">
+                    <MapPin className="h-4 w-4" /> Route
+                  </p>
+                  <p className="text-white">{booking.pickupAddress}</p>
+                  {booking.dropoffAddress ? <p className="text-white">{booking.dropoffAddress}</p> : null}
+                </div>
+              </div>
+
+              {quote ? (
+                <div className="space-y-2">
+                  {quote.lines.map((line) => (
+                    <div key={line.code} className="flex justify-between gap-4 text-sm text-neutral-200">
+                      <span>{line.label}</span>
+                      <span>{formatCurrency(line.amount)}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between gap-4 border-t border-white/10 pt-2 text-base font-semibold">
+                    <span>Total</span>
+                    <span className="text-amber-400">{formatCurrency(quote.total)}</span>
+                  </div>
+                  {quote.message ? (
+                    <p className="whitespace-pre-line rounded-xl border border-white/10 bg-neutral-950/70 px-3 py-2 text-sm text-neutral-300">
+                      {quote.message}
+                    </p>
+                  ) : null}
+                  <p className="text-xs text-neutral-400">
+                    {quote.acceptedAt
+                      ? `Accepted ${new Date(quote.acceptedAt).toLocaleString("en-US")}.`
+                      : `Valid until ${formatPickupInstant(new Date(quote.expiresAt))}.`}
+                  </p>
+                </div>
+              ) : (
+                <p className="text-sm text-neutral-300">
+                  Dispatch is still preparing your price. This page will show the quote once it has been sent.
+                </p>
+              )}
+
+              {payIssue ? <p className="text-sm text-amber-200">{payIssue}</p> : null}
+
+              {quote?.acceptedAt && !resumable ? (
+                <p className="text-sm text-neutral-300">
+                  This quote is paid or closed. You can view the booking from{" "}
+                  <Link
+                    href={`/booking/manage?ref=${booking.referenceCode}`}
+                    className="font-semibold text-amber-400 underline-offset-2 hover:underline"
+                  >
+                    Manage Booking
+                  </Link>
+                  .
+                </p>
+              ) : null}
+
+              {canPay && quote ? (
+                <button
+                  type="button"
+                  onClick={acceptAndPay}
+                  disabled={isPaying}
+                  className="rounded-xl bg-amber-500 px-5 py-2.5 text-sm font-semibold text-black transition hover:bg-amber-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {isPaying
+                    ? "Opening secure payment..."
+                    : quote.acceptedAt
+                      ? `Pay ${formatCurrency(quote.total)}`
+                      : `Accept quote and pay ${formatCurrency(quote.total)}`}
+                </button>
+              ) : null}
+            </>
+          ) : null}
+
+          {error ? (
+            <p className="rounded-xl border border-rose-500/30 bg-rose-500/10 px-3 py-2 text-sm text-rose-200">
+              {error}
+            </p>
+          ) : null}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { doc, onSnapshot } from "firebase/firestore";
 import { firestoreDb } from "@/lib/firebase";
-import { defaultSiteContent, SiteContent } from "@/lib/site-content";
+import { defaultSiteContent, normalizeSiteContent, SiteContent } from "@/lib/site-content";
 
 export default function Home() {
   const [siteContent, setSiteContent] = useState<SiteContent>(defaultSiteContent);
@@ -69,31 +69,7 @@ export default function Home() {
         return;
       }
 
-      const data = snapshot.data() as Partial<SiteContent>;
-
-      setSiteContent({
-        home: {
-          ...defaultSiteContent.home,
-          ...(data.home ?? {}),
-        },
-        booking: {
-          ...defaultSiteContent.booking,
-          ...(data.booking ?? {}),
-        },
-        fleet: (data.fleet ?? defaultSiteContent.fleet).map((item, index) => {
-          const fallback = defaultSiteContent.fleet[index] ?? defaultSiteContent.fleet[0];
-          return {
-            id: item.id ?? fallback.id,
-            name: item.name ?? fallback.name,
-            type: item.type ?? fallback.type,
-            seats: item.seats ?? fallback.seats,
-            luggage: item.luggage ?? fallback.luggage,
-            image: item.image ?? fallback.image,
-            description: item.description ?? fallback.description,
-            baseFare: Number(item.baseFare ?? fallback.baseFare),
-          };
-        }),
-      });
+      setSiteContent(normalizeSiteContent(snapshot.data() as Partial<SiteContent>));
     });
 
     return () => unsubscribe();
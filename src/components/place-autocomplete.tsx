@@ -0,0 +1,109 @@
+"use client";
+
+import { KeyboardEvent, ReactNode, useId, useMemo, useState } from "react";
+import { Place, PLACE_CATEGORY_LABELS, placeLabel, searchPlaces } from "@/lib/places";
+
+type PlaceAutocompleteProps = {
+  places: Place[];
+  value: string;
+  placeholder: string;
+  icon: ReactNode;
+  readOnly?: boolean;
+  // `place` is set when a suggestion is picked and cleared as soon as the text is edited.
+  onChange: (value: string, place: Place | null) => void;
+};
+
+export default function PlaceAutocomplete({
+  places,
+  value,
+  placeholder,
+  icon,
+  readOnly = false,
+  onChange,
+}: PlaceAutocompleteProps) {
+  const listId = useId();
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(() => (readOnly ? [] : searchPlaces(places, value)), [places, value, readOnly]);
+  const showList = isOpen && suggestions.length > 0;
+
+  function choose(place: Place) {
+    onChange(placeLabel(place), place);
+    setIsOpen(false);
+  }
+
+  function handleKeyDown(event: KeyboardEvent<HTMLInputElement>) {
+    if (!showList) {
+      return;
+    }
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((index) => (index + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      choose(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (event.key === "Escape") {
+      setIsOpen(false);
+    }
+  }
+
+  return (
+    <div className="relative">
+      {icon}
+      <input
+        type="text"
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={showList}
+        aria-controls={listId}
+        aria-activedescendant={showList ? `${listId}-${activeIndex}` : undefined}
+        placeholder={placeholder}
+        value={value}
+        readOnly={readOnly}
+        onChange={(event) => {
+          onChange(event.target.value, null);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className="w-full rounded-xl border border-white/15 bg-neutral-950 py-3 pl-11 pr-3 text-sm text-white outline-none placeholder:text-neutral-500 read-only:text-neutral-400 focus:border-amber-400"
+      />
+
+      {showList ? (
+        <ul
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-20 mt-1 overflow-hidden rounded-xl border border-white/15 bg-neutral-950 shadow-xl"
+        >
+          {suggestions.map((place, index) => (
+            <li
+              key={place.id}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown fires before the input blurs and closes the list.
+              onMouseDown={(event) => {
+                event.preventDefault();
+                choose(place);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`cursor-pointer px-3 py-2 text-sm ${
+                index === activeIndex ? "bg-amber-500/15 text-white" : "text-neutral-200"
+              }`}
+            >
+              <p className="font-medium">{place.name}</p>
+              <p className="text-xs text-neutral-400">
+                {PLACE_CATEGORY_LABELS[place.category]} · {place.address}
+              </p>
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -2,13 +2,25 @@
 
 import { FormEvent, useMemo, useState } from "react";
 import { Bot, MessageCircle, Send, Sparkles, User, X } from "lucide-react";
+import { CLIENT_SESSION_HEADER, clientSessionId } from "@/lib/bot-protection";
 
 type ConciergeContext = {
   bookingStep: 1 | 2 | 3;
   serviceTypeLabel: string;
   passengers: number;
+  luggage?: number;
   selectedVehicleName?: string;
   estimatedFare: number;
+  pickupAddress?: string;
+  stops?: { address: string; waitMinutes: number }[];
+  dropoffAddress?: string;
+  bookingRuleIssue?: string;
+  bookingRules?: {
+    minNoticeHours: Record<string, number>;
+    maxAdvanceDays: number;
+    operatingHours: string;
+    blackoutDates: { date: string; label: string }[];
+  };
 };
 
 type VirtualConciergeProps = {
@@ -22,6 +34,8 @@ type ChatMessage = {
   text: string;
 };
 
+const RULE_QUESTION = "Why can't I book this time?";
+
 const quickActions = [
   "Which vehicle fits my trip?",
   "How does payment work?",
@@ -81,6 +95,7 @@ export default function VirtualConcierge({ context, onGoToStep }: VirtualConcier
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          [CLIENT_SESSION_HEADER]: clientSessionId(),
         },
         body: JSON.stringify({
           message: input,
@@ -89,10 +104,11 @@ export default function VirtualConcierge({ context, onGoToStep }: VirtualConcier
         }),
       });
 
-      const data = (await response.json()) as { reply?: string };
+      const data = (await response.json()) as { reply?: string; error?: string };
 
       appendAssistantMessage(
         data.reply ??
+          data.error ??
           "I can help with vehicle selection, booking steps, and a smooth checkout flow.",
       );
     } catch {
@@ -204,7 +220,7 @@ export default function VirtualConcierge({ context, onGoToStep }: VirtualConcier
 
           <div className="border-t border-white/10 px-4 py-3">
             <div className="mb-3 flex flex-wrap gap-2">
-              {quickActions.map((action) => (
+              {(context.bookingRuleIssue ? [RULE_QUESTION, ...quickActions] : quickActions).map((action) => (
                 <button
                   key={action}
                   type="button"
@@ -221,6 +237,7 @@ export default function VirtualConcierge({ context, onGoToStep }: VirtualConcier
                 value={inputValue}
                 onChange={(event) => setInputValue(event.target.value)}
                 placeholder="Ask me anything..."
+                maxLength={1000}
                 className="w-full rounded-xl border border-white/15 bg-neutral-950 px-3 py-2 text-xs text-white outline-none placeholder:text-neutral-500 focus:border-amber-400"
               />
               <button
@@ -0,0 +1,100 @@
+export type AddOn = {
+  id: string;
+  name: string;
+  price: number;
+  vehicleIds: string[];
+  maxQuantity: number;
+  active: boolean;
+};
+
+export type AddOnSelection = {
+  id: string;
+  quantity: number;
+};
+
+// Snapshot stored on the booking so later catalog edits do not change past orders.
+export type BookedAddOn = {
+  id: string;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+};
+
+export const defaultAddOns: AddOn[] = [
+  {
+    id: "child-seat",
+    name: "Child safety seat",
+    price: 15,
+    vehicleIds: [],
+    maxQuantity: 3,
+    active: true,
+  },
+  {
+    id: "champagne",
+    name: "Champagne service",
+    price: 85,
+    vehicleIds: ["suv", "sprinter"],
+    maxQuantity: 2,
+    active: true,
+  },
+  {
+    id: "name-sign",
+    name: "Meet-and-greet name sign",
+    price: 20,
+    vehicleIds: [],
+    maxQuantity: 1,
+    active: true,
+  },
+  {
+    id: "extra-stop",
+    name: "Extra unplanned stop (up to 15 min)",
+    price: 25,
+    vehicleIds: [],
+    maxQuantity: 3,
+    active: true,
+  },
+];
+
+export function normalizeAddOns(data?: Partial<AddOn>[]): AddOn[] {
+  if (!data) {
+    return defaultAddOns;
+  }
+
+  return data.map((addOn, index) => ({
+    id: addOn.id ?? `addon-${index + 1}`,
+    name: addOn.name ?? "Add-on",
+    price: Number(addOn.price ?? 0),
+    vehicleIds: addOn.vehicleIds ?? [],
+    maxQuantity: Math.max(1, Math.floor(Number(addOn.maxQuantity ?? 1))),
+    active: addOn.active ?? true,
+  }));
+}
+
+// An empty vehicle list means the add-on is offered with every vehicle.
+export function isAddOnAvailable(addOn: AddOn, vehicleId: string) {
+  return addOn.active && addOn.price > 0 && (addOn.vehicleIds.length === 0 || addOn.vehicleIds.includes(vehicleId));
+}
+
+// Drops unknown or unavailable add-ons and clamps quantities to the catalog limits, so the
+// browser and checkout bill the same selection.
+export function resolveAddOns(catalog: AddOn[], selections: AddOnSelection[] | undefined, vehicleId: string) {
+  const booked: BookedAddOn[] = [];
+
+  for (const selection of selections ?? []) {
+    const addOn = catalog.find((item) => item.id === selection.id);
+    const quantity = Math.floor(Number(selection.quantity));
+
+    if (!addOn || !isAddOnAvailable(addOn, vehicleId) || !(quantity > 0)) {
+      continue;
+    }
+
+    booked.push({
+      id: addOn.id,
+      name: addOn.name,
+      quantity: Math.min(quantity, addOn.maxQuantity),
+      unitPrice: addOn.price,
+    });
+  }
+
+  return booked;
+}
@@ -0,0 +1,2 @@
+// Shared by the admin page and the admin API routes; kept free of server-only imports.
+export const ADMIN_PIN_HEADER = "x-admin-pin";
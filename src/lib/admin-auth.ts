@@ -0,0 +1,23 @@
+import { timingSafeEqual } from "crypto";
+import { NextRequest } from "next/server";
+import { ADMIN_PIN_HEADER } from "@/lib/admin-api";
+
+// Admin API routes move money, so they check the PIN server-side against ADMIN_PIN
+// instead of relying on the client-side gate in /admin.
+export function authorizeAdminRequest(request: NextRequest): string | null {
+  const expectedPin = process.env.ADMIN_PIN;
+
+  if (!expectedPin) {
+    return "Admin API is not configured. Missing ADMIN_PIN.";
+  }
+
+  const providedPin = request.headers.get(ADMIN_PIN_HEADER) ?? "";
+  const expected = Buffer.from(expectedPin);
+  const provided = Buffer.from(providedPin);
+
+  if (expected.length !== provided.length || !timingSafeEqual(expected, provided)) {
+    return "Admin PIN is required.";
+  }
+
+  return null;
+}
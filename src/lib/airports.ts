@@ -0,0 +1,82 @@
+export type AirportCode = "BUF" | "ROC" | "IAG" | "YYZ";
+
+export type Airport = {
+  code: AirportCode;
+  name: string;
+  address: string;
+  terminals: string[];
+};
+
+export type AirportPickup = {
+  airportCode: AirportCode;
+  airline: string;
+  flightNumber: string;
+  terminal: string;
+  meetAndGreet: boolean;
+};
+
+// Addresses include the airport names used by the service-zone keywords, so fares resolve
+// to the airport zones (YYZ is outside the zone table and priced as out-of-area).
+export const AIRPORTS: Airport[] = [
+  {
+    code: "BUF",
+    name: "Buffalo Niagara International Airport",
+    address: "Buffalo Niagara International Airport (BUF), 4200 Genesee St, Cheektowaga, NY 14225",
+    terminals: ["Main Terminal"],
+  },
+  {
+    code: "ROC",
+    name: "Frederick Douglass Greater Rochester International Airport",
+    address: "Greater Rochester International Airport (ROC), 1200 Brooks Ave, Rochester, NY 14624",
+    terminals: ["Main Terminal"],
+  },
+  {
+    code: "IAG",
+    name: "Niagara Falls International Airport",
+    address: "Niagara Falls International Airport (IAG), 2035 Niagara Falls Blvd, Niagara Falls, NY 14304",
+    terminals: ["Main Terminal"],
+  },
+  {
+    code: "YYZ",
+    name: "Toronto Pearson International Airport",
+    address: "Toronto Pearson International Airport (YYZ), 6301 Silver Dart Dr, Mississauga, ON L5P 1B2",
+    terminals: ["Terminal 1", "Terminal 3"],
+  },
+];
+
+export function findAirport(code: string | undefined) {
+  return AIRPORTS.find((airport) => airport.code === code) ?? null;
+}
+
+export function normalizeFlightNumber(value: string) {
+  return value.toUpperCase().replace(/[\s-]+/g, "");
+}
+
+// IATA airline designator (two characters) followed by up to four digits and an optional suffix.
+const FLIGHT_NUMBER_PATTERN = /^[A-Z0-9]{2}\d{1,4}[A-Z]?$/;
+
+export function airportPickupIssue(pickup: AirportPickup | null): string | null {
+  if (!pickup) {
+    return null;
+  }
+
+  const airport = findAirport(pickup.airportCode);
+
+  if (!airport) {
+    return "Please choose the pickup airport.";
+  }
+
+  if (!pickup.airline.trim()) {
+    return "Please enter the airline.";
+  }
+
+  if (!FLIGHT_NUMBER_PATTERN.test(normalizeFlightNumber(pickup.flightNumber))) {
+    return "Please enter a flight number such as AA1234.";
+  }
+
+  if (!airport.terminals.includes(pickup.terminal)) {
+    return "Please choose the arrival terminal.";
+  }
+
+  return null;
+}
@@ -0,0 +1,41 @@
+import { DocumentData, Transaction } from "firebase-admin/firestore";
+import { availabilityDateRange, BookedTrip, fleetAvailability, TripTiming } from "@/lib/availability";
+import { fetchSeriesBookings } from "@/lib/booking-series-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { fetchGroupUnits } from "@/lib/group-bookings-server";
+import { SiteFleetItem } from "@/lib/site-content";
+
+// Reads through the transaction when one is given, so POST /api/bookings can check and
+// create in one step and two customers cannot take the last vehicle at the same time.
+export async function fetchBookedTrips(range: { from: string; to: string }, transaction?: Transaction) {
+  const candidates = requireAdminDb()
+    .collection("bookings")
+    .where("serviceDate", ">=", range.from)
+    .where("serviceDate", "<=", range.to);
+  const snapshot = transaction ? await transaction.get(candidates) : await candidates.get();
+
+  return snapshot.docs.map((doc) => doc.data() as BookedTrip);
+}
+
+export async function fetchFleetAvailability(fleet: SiteFleetItem[], trip: TripTiming, transaction?: Transaction) {
+  return fleetAvailability(fleet, trip, await fetchBookedTrips(availabilityDateRange(trip), transaction));
+}
+
+// Reaching checkout keeps the vehicles for the whole booking (a group's units, a series' rides)
+// until the Stripe session ends, instead of the short hold a new booking starts with.
+export async function keepInventoryHold(booking: DocumentData, bookingId: string) {
+  const db = requireAdminDb();
+  const related = booking.groupVehicles
+    ? await fetchGroupUnits(bookingId)
+    : booking.seriesId
+      ? await fetchSeriesBookings(booking.seriesId)
+      : [];
+  const batch = db.batch();
+
+  batch.update(db.collection("bookings").doc(bookingId), { holdExpiresAt: null });
+  related
+    .filter((doc) => doc.id !== bookingId && doc.get("holdExpiresAt"))
+    .forEach((doc) => batch.update(doc.ref, { holdExpiresAt: null }));
+
+  await batch.commit();
+}
@@ -0,0 +1,130 @@
+import { BookingStatus } from "@/lib/bookings";
+import { ServiceType } from "@/lib/pricing";
+import { SiteFleetItem } from "@/lib/site-content";
+
+export type TripTiming = {
+  tripType: ServiceType;
+  serviceDate: string;
+  pickupTime: string;
+  hours?: number | null;
+  billableHours?: number | null;
+  returnLeg?: { serviceDate: string; pickupTime: string } | null;
+};
+
+export type BookedTrip = TripTiming & {
+  vehicleId: string;
+  status: BookingStatus;
+  holdExpiresAt?: string | null;
+};
+
+export type VehicleAvailability = {
+  units: number;
+  booked: number;
+  available: number;
+};
+
+type TimeWindow = { start: number; end: number };
+
+// Unpaid drafts still hold a vehicle until dispatch cancels them, unless their short web hold
+// lapsed (see holdLapsed).
+export const INVENTORY_HOLDING_STATUSES: BookingStatus[] = ["pending", "confirmed"];
+
+// A new web booking holds its vehicle this long before the customer reaches checkout. Opening
+// checkout clears `holdExpiresAt`, and from then the Stripe webhook cancels the booking if the
+// checkout session expires unpaid.
+export const UNPAID_HOLD_MINUTES = 60;
+
+// Bookings starting this many days before a trip are still checked, so multi-day round trips
+// whose return leg lands on the requested date count against it.
+export const AVAILABILITY_LOOKBACK_DAYS = 7;
+
+// Dates and times are Buffalo wall-clock strings; treating them as UTC keeps the arithmetic
+// in plain minutes without depending on the server's time zone.
+function wallClockMinutes(serviceDate: string, pickupTime: string) {
+  const value = Date.parse(`${serviceDate}T${pickupTime}:00Z`);
+  return Number.isNaN(value) ? null : value / 60000;
+}
+
+export function shiftDate(serviceDate: string, days: number) {
+  const value = new Date(`${serviceDate}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+// Hourly charters block the vehicle for the billed hours; transfers for the class's typical
+// trip length, once for each leg of a round trip.
+function tripWindows(trip: TripTiming, vehicle: SiteFleetItem): TimeWindow[] {
+  const start = wallClockMinutes(trip.serviceDate, trip.pickupTime);
+
+  if (start === null) {
+    return [];
+  }
+
+  if (trip.tripType === "hourly") {
+    const hours = Math.max(Number(trip.billableHours ?? trip.hours ?? 0), vehicle.minimumHours);
+    return [{ start, end: start + hours * 60 }];
+  }
+
+  const windows = [{ start, end: start + vehicle.typicalTripMinutes }];
+  const returnStart =
+    trip.tripType === "round-trip" && trip.returnLeg
+      ? wallClockMinutes(trip.returnLeg.serviceDate, trip.returnLeg.pickupTime)
+      : null;
+
+  if (returnStart !== null) {
+    windows.push({ start: returnStart, end: returnStart + vehicle.typicalTripMinutes });
+  }
+
+  return windows;
+}
+
+export function unpaidHoldExpiresAt(now = new Date()) {
+  return new Date(now.getTime() + UNPAID_HOLD_MINUTES * 60 * 1000).toISOString();
+}
+
+// Bookings without `holdExpiresAt` (paid, in checkout, or created by dispatch) never lapse.
+export function holdLapsed(booking: { status?: BookingStatus; holdExpiresAt?: string | null }, now = Date.now()) {
+  return booking.status === "pending" && Boolean(booking.holdExpiresAt) && Date.parse(booking.holdExpiresAt!) <= now;
+}
+
+function windowsOverlap(first: TimeWindow[], second: TimeWindow[]) {
+  return first.some((a) => second.some((b) => a.start < b.end && b.start < a.end));
+}
+
+// The date range a Firestore query has to cover to find every booking that could overlap the trip.
+export function availabilityDateRange(trip: TripTiming) {
+  const lastDate =
+    trip.tripType === "round-trip" && trip.returnLeg?.serviceDate ? trip.returnLeg.serviceDate : trip.serviceDate;
+
+  return {
+    from: shiftDate(trip.serviceDate, -AVAILABILITY_LOOKBACK_DAYS),
+    to: shiftDate(lastDate, 1),
+  };
+}
+
+export function fleetAvailability(
+  fleet: SiteFleetItem[],
+  trip: TripTiming,
+  bookings: BookedTrip[],
+): Record<string, VehicleAvailability> {
+  const availability: Record<string, VehicleAvailability> = {};
+
+  for (const vehicle of fleet) {
+    const requested = tripWindows(trip, vehicle);
+    const booked = bookings.filter(
+      (booking) =>
+        booking.vehicleId === vehicle.id &&
+        INVENTORY_HOLDING_STATUSES.includes(booking.status) &&
+        !holdLapsed(booking) &&
+        windowsOverlap(requested, tripWindows(booking, vehicle)),
+    ).length;
+
+    availability[vehicle.id] = {
+      units: vehicle.units,
+      booked,
+      available: Math.max(0, vehicle.units - booked),
+    };
+  }
+
+  return availability;
+}
@@ -0,0 +1,183 @@
+import { randomUUID } from "crypto";
+import { DocumentData, DocumentReference, FieldValue } from "firebase-admin/firestore";
+import Stripe from "stripe";
+import { PaymentStatus, RefundRecord } from "@/lib/bookings";
+import { mirrorSeriesPayment } from "@/lib/booking-series-server";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { cancelGroupUnits, mirrorGroupPayment } from "@/lib/group-bookings-server";
+import { roundCurrency } from "@/lib/pricing";
+import { releasePromoCode } from "@/lib/promo-codes-server";
+import { requireStripe } from "@/lib/stripe-server";
+
+export const REFUNDABLE_STATUSES: PaymentStatus[] = ["paid", "partially_refunded"];
+
+export type RefundResult =
+  | { refund: RefundRecord; paymentStatus: PaymentStatus }
+  | { error: string; status: number };
+
+// Refunds Stripe has accepted, including pending ones the charge.refunded webhook has not
+// counted in `amountRefunded` yet.
+function committedRefunds(booking: DocumentData) {
+  const recorded = ((booking.refunds ?? []) as RefundRecord[])
+    .filter((refund) => refund.status !== "failed" && refund.status !== "canceled")
+    .reduce((total, refund) => total + Number(refund.amount ?? 0), 0);
+
+  return Math.max(Number(booking.amountRefunded ?? 0), recorded);
+}
+
+// Amounts held by refund requests that are still waiting on Stripe.
+function reservedRefunds(booking: DocumentData) {
+  return Object.values((booking.refundReservations ?? {}) as Record<string, number>).reduce(
+    (total, reserved) => total + Number(reserved ?? 0),
+    0,
+  );
+}
+
+function amountPaidOn(booking: DocumentData) {
+  return Number(booking.amountPaid ?? booking.amountDue ?? booking.estimatedFare ?? 0);
+}
+
+export function refundableAmount(booking: DocumentData) {
+  return roundCurrency(amountPaidOn(booking) - committedRefunds(booking) - reservedRefunds(booking));
+}
+
+export function isStripeRefundable(booking: DocumentData) {
+  return Boolean(booking.stripePaymentIntentId) && REFUNDABLE_STATUSES.includes(booking.paymentStatus);
+}
+
+// Refunds part or all of a Stripe payment. The amount is reserved on the booking in a
+// transaction before Stripe is called, so two quick submits cannot both pass the
+// remaining-amount check.
+export async function refundBookingPayment(bookingId: string, amount: number, reason: string): Promise<RefundResult> {
+  const db = requireAdminDb();
+  const bookingRef = db.collection("bookings").doc(bookingId);
+  const reservationId = randomUUID();
+
+  const reservation = await db.runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(bookingRef);
+
+    if (!snapshot.exists) {
+      return { error: "Booking not found.", status: 404 } as const;
+    }
+
+    const booking = snapshot.data() ?? {};
+
+    if (!isStripeRefundable(booking)) {
+      return { error: "Only bookings paid through Stripe can be refunded.", status: 400 } as const;
+    }
+
+    const refundable = refundableAmount(booking);
+
+    if (amount > refundable) {
+      return {
+        error: `At most $${refundable.toFixed(2)} can still be refunded on this booking.`,
+        status: 400,
+      } as const;
+    }
+
+    transaction.update(bookingRef, { [`refundReservations.${reservationId}`]: amount });
+    return { booking } as const;
+  });
+
+  if (!reservation.booking) {
+    return { error: reservation.error, status: reservation.status };
+  }
+
+  const { booking } = reservation;
+  let refund: Stripe.Refund;
+
+  try {
+    refund = await requireStripe().refunds.create(
+      {
+        payment_intent: booking.stripePaymentIntentId as string,
+        amount: Math.round(amount * 100),
+        reason: "requested_by_customer",
+        metadata: { bookingId, reason: reason.slice(0, 500) },
+      },
+      { idempotencyKey: `booking-${bookingId}-refund-${reservationId}` },
+    );
+  } catch (stripeError) {
+    await bookingRef.update({ [`refundReservations.${reservationId}`]: FieldValue.delete() });
+    throw stripeError;
+  }
+
+  const record: RefundRecord = {
+    id: refund.id,
+    amount: refund.amount / 100,
+    reason,
+    status: refund.status ?? "pending",
+    createdAt: new Date().toISOString(),
+  };
+
+  // Status only moves once Stripe reports the refund as succeeded; pending refunds are
+  // recorded and the charge.refunded webhook settles the status later.
+  if (refund.status !== "succeeded") {
+    await bookingRef.update({
+      refunds: FieldValue.arrayUnion(record),
+      [`refundReservations.${reservationId}`]: FieldValue.delete(),
+    });
+    return { refund: record, paymentStatus: booking.paymentStatus };
+  }
+
+  const totalRefunded = roundCurrency(Number(booking.amountRefunded ?? 0) + record.amount);
+  const paymentStatus: PaymentStatus = totalRefunded >= amountPaidOn(booking) ? "refunded" : "partially_refunded";
+
+  await bookingRef.update({
+    refunds: FieldValue.arrayUnion(record),
+    [`refundReservations.${reservationId}`]: FieldValue.delete(),
+    amountRefunded: totalRefunded,
+    paymentStatus,
+    paymentUpdatedAt: FieldValue.serverTimestamp(),
+  });
+  await mirrorSeriesPayment(booking, bookingId, paymentStatus);
+  await mirrorGroupPayment(booking, bookingId, paymentStatus);
+
+  return { refund: record, paymentStatus };
+}
+
+// Releases the card hold on a cancelled booking and applies `update` (usually the new status)
+// with it. A hold captured elsewhere (e.g. the Stripe dashboard) is money collected, not a hold
+// to release: the payment is recorded as paid, `update` is not applied and "paid" is returned
+// so the caller can refund it.
+export async function releaseCardHold(
+  bookingRef: DocumentReference,
+  booking: DocumentData,
+  bookingId: string,
+  update: Record<string, unknown> = {},
+): Promise<PaymentStatus> {
+  const stripe = requireStripe();
+  const intent = await stripe.paymentIntents.retrieve(booking.stripePaymentIntentId as string);
+
+  if (intent.status === "succeeded") {
+    await bookingRef.update({
+      paymentStatus: "paid",
+      amountPaid: intent.amount_received / 100,
+      paidAt: FieldValue.serverTimestamp(),
+      paymentUpdatedAt: FieldValue.serverTimestamp(),
+    });
+    await mirrorSeriesPayment(booking, bookingId, "paid");
+    await mirrorGroupPayment(booking, bookingId, "paid");
+
+    return "paid";
+  }
+
+  if (intent.status === "requires_capture") {
+    await stripe.paymentIntents.cancel(intent.id, { cancellation_reason: "requested_by_customer" });
+  }
+
+  await bookingRef.update({
+    ...update,
+    paymentStatus: "released",
+    releasedAt: FieldValue.serverTimestamp(),
+    paymentUpdatedAt: FieldValue.serverTimestamp(),
+  });
+  await mirrorSeriesPayment(booking, bookingId, "released");
+  await mirrorGroupPayment(booking, bookingId, "released");
+  await cancelGroupUnits(booking, bookingId);
+
+  if (booking.promoCode) {
+    await releasePromoCode(booking.promoCode, bookingId);
+  }
+
+  return "released";
+}
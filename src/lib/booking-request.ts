@@ -0,0 +1,272 @@
+import { AddOnSelection } from "@/lib/add-ons";
+import { AirportPickup, airportPickupIssue, normalizeFlightNumber } from "@/lib/airports";
+import { ReturnLeg, returnLegIssue } from "@/lib/bookings";
+import { contactDetailsIssues, normalizeEmail, normalizePhoneNumber } from "@/lib/contact-details";
+import {
+  GroupVehicleSelection,
+  MAX_GROUP_LUGGAGE,
+  MAX_GROUP_PASSENGERS,
+  normalizeGroupVehicles,
+} from "@/lib/group-bookings";
+import { pickupInstant } from "@/lib/pickup-instant";
+import { isServiceType, ItineraryStop, MAX_HOURLY_HOURS, MAX_ITINERARY_STOPS, ServiceType } from "@/lib/pricing";
+import { Recurrence, recurrenceIssue, SeriesPaymentMode } from "@/lib/recurrence";
+
+// What the booking form sends to POST /api/bookings. Status, payment state, price,
+// timestamps and the reference code are assigned by the server, never taken from here.
+export type BookingRequest = {
+  serviceType: ServiceType;
+  serviceDate: string;
+  pickupTime: string;
+  hours: number | null;
+  returnLeg: ReturnLeg | null;
+  pickupAddress: string;
+  dropoffAddress: string;
+  // Gazetteer ids picked from the address suggestions; the server looks up their coordinates.
+  pickupPlaceId: string | null;
+  dropoffPlaceId: string | null;
+  stops: ItineraryStop[];
+  airportPickup: AirportPickup | null;
+  passengers: number;
+  luggage: number;
+  addOns: AddOnSelection[];
+  vehicleId: string;
+  // Set for a group booking, which takes several vehicles instead of `vehicleId`.
+  groupVehicles: GroupVehicleSelection[] | null;
+  customerName: string;
+  customerEmail: string;
+  customerPhone: string;
+  specialInstructions: string;
+  recurrence: Recurrence | null;
+  seriesPaymentMode: SeriesPaymentMode;
+  // Saves the trip for dispatch to price instead of starting checkout.
+  quoteRequest: boolean;
+};
+
+export const MIN_PASSENGERS = 1;
+export const MAX_PASSENGERS = 14;
+export const MAX_LUGGAGE = 20;
+export const MIN_ADDRESS_LENGTH = 5;
+export const MAX_ADDRESS_LENGTH = 200;
+export const MAX_INSTRUCTIONS_LENGTH = 1000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Pickup dates and times are entered as Buffalo wall-clock time, so "now" is compared in the same zone.
+export function nowInNewYork(now = new Date()) {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+    timeZone: "America/New_York",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((item) => item.type === type)?.value ?? "";
+
+  return `${part("year")}-${part("month")}-${part("day")}T${part("hour")}:${part("minute")}`;
+}
+
+function text(value: unknown) {
+  return typeof value === "string" ? value : "";
+}
+
+// Coerces an untrusted JSON body into a BookingRequest; anything malformed becomes an empty
+// value that bookingRequestIssue then rejects.
+export function parseBookingRequest(body: unknown): BookingRequest {
+  const input = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  const returnLeg = input.returnLeg as Partial<ReturnLeg> | null | undefined;
+  const airportPickup = input.airportPickup as Partial<AirportPickup> | null | undefined;
+  const recurrence = input.recurrence as Partial<Recurrence> | null | undefined;
+
+  return {
+    serviceType: input.serviceType as ServiceType,
+    serviceDate: text(input.serviceDate),
+    pickupTime: text(input.pickupTime),
+    hours: input.hours === null || input.hours === undefined ? null : Number(input.hours),
+    returnLeg: returnLeg
+      ? {
+          serviceDate: text(returnLeg.serviceDate),
+          pickupTime: text(returnLeg.pickupTime),
+          pickupAddress: text(returnLeg.pickupAddress).trim(),
+        }
+      : null,
+    pickupAddress: text(input.pickupAddress).trim(),
+    dropoffAddress: text(input.dropoffAddress).trim(),
+    pickupPlaceId: text(input.pickupPlaceId) || null,
+    dropoffPlaceId: text(input.dropoffPlaceId) || null,
+    stops: Array.isArray(input.stops)
+      ? input.stops.map((stop: Partial<ItineraryStop>) => ({
+          address: text(stop?.address).trim(),
+          waitMinutes: Number(stop?.waitMinutes ?? 0),
+        }))
+      : [],
+    airportPickup: airportPickup
+      ? {
+          airportCode: airportPickup.airportCode as AirportPickup["airportCode"],
+          airline: text(airportPickup.airline).trim(),
+          flightNumber: normalizeFlightNumber(text(airportPickup.flightNumber)),
+          terminal: text(airportPickup.terminal),
+          meetAndGreet: airportPickup.meetAndGreet === true,
+        }
+      : null,
+    passengers: Number(input.passengers),
+    luggage: Number(input.luggage ?? 0),
+    addOns: Array.isArray(input.addOns) ? (input.addOns as AddOnSelection[]) : [],
+    vehicleId: text(input.vehicleId),
+    groupVehicles: Array.isArray(input.groupVehicles)
+      ? normalizeGroupVehicles(input.groupVehicles as GroupVehicleSelection[])
+      : null,
+    customerName: text(input.customerName).trim(),
+    customerEmail: normalizeEmail(text(input.customerEmail)),
+    // Numbers that do not parse are kept as typed so bookingRequestIssue can reject them.
+    customerPhone: normalizePhoneNumber(text(input.customerPhone)) ?? text(input.customerPhone).trim(),
+    specialInstructions: text(input.specialInstructions).trim(),
+    recurrence: recurrence
+      ? {
+          frequency: recurrence.frequency as Recurrence["frequency"],
+          endType: recurrence.endType === "date" ? "date" : "count",
+          endDate: text(recurrence.endDate),
+          count: Number(recurrence.count ?? 0),
+        }
+      : null,
+    seriesPaymentMode: input.seriesPaymentMode === "series" ? "series" : "per_ride",
+    quoteRequest: input.quoteRequest === true,
+  };
+}
+
+function addressIssue(label: string, value: string): string | null {
+  const trimmed = value.trim();
+
+  if (trimmed.length < MIN_ADDRESS_LENGTH) {
+    return `Please enter a complete ${label}.`;
+  }
+
+  if (trimmed.length > MAX_ADDRESS_LENGTH) {
+    return `The ${label} must be ${MAX_ADDRESS_LENGTH} characters or fewer.`;
+  }
+
+  return null;
+}
+
+// Field-level checks shared by the server route; fleet-dependent checks (vehicle, capacity,
+// add-ons) happen once the live fleet is loaded.
+export function bookingRequestIssue(request: BookingRequest, now = new Date()): string | null {
+  if (!isServiceType(request.serviceType)) {
+    return "Please choose a service type.";
+  }
+
+  if (!DATE_PATTERN.test(request.serviceDate) || !TIME_PATTERN.test(request.pickupTime)) {
+    return "Please select service date and pickup time.";
+  }
+
+  const pickup = pickupInstant(request.serviceDate, request.pickupTime);
+
+  if (!pickup || pickup.getTime() <= now.getTime()) {
+    return "The pickup date and time must be in the future.";
+  }
+
+  const isHourly = request.serviceType === "hourly";
+  const hours = Number(request.hours);
+
+  if (isHourly && !(Number.isInteger(hours) && hours >= 1 && hours <= MAX_HOURLY_HOURS)) {
+    return `Please choose between 1 and ${MAX_HOURLY_HOURS} hours of service.`;
+  }
+
+  const pickupIssue = addressIssue("pickup address", request.pickupAddress);
+
+  if (pickupIssue) {
+    return pickupIssue;
+  }
+
+  if (!isHourly) {
+    const dropoffIssue = addressIssue("drop-off address", request.dropoffAddress);
+
+    if (dropoffIssue) {
+      return dropoffIssue;
+    }
+  }
+
+  if (request.stops.length > MAX_ITINERARY_STOPS) {
+    return `A trip can have at most ${MAX_ITINERARY_STOPS} stops.`;
+  }
+
+  for (const stop of request.stops) {
+    const stopIssue = addressIssue("stop address", stop.address);
+
+    if (stopIssue) {
+      return stopIssue;
+    }
+  }
+
+  if (request.serviceType === "round-trip") {
+    const returnIssue =
+      returnLegIssue(request, request.returnLeg) ??
+      addressIssue("return pickup address", request.returnLeg?.pickupAddress ?? "");
+
+    if (returnIssue) {
+      return returnIssue;
+    }
+  }
+
+  const airportIssue = airportPickupIssue(request.airportPickup);
+
+  if (airportIssue) {
+    return airportIssue;
+  }
+
+  const maxPassengers = request.groupVehicles ? MAX_GROUP_PASSENGERS : MAX_PASSENGERS;
+  const maxLuggage = request.groupVehicles ? MAX_GROUP_LUGGAGE : MAX_LUGGAGE;
+
+  if (
+    !Number.isInteger(request.passengers) ||
+    request.passengers < MIN_PASSENGERS ||
+    request.passengers > maxPassengers
+  ) {
+    return `Passengers must be between ${MIN_PASSENGERS} and ${maxPassengers}.`;
+  }
+
+  if (!Number.isInteger(request.luggage) || request.luggage < 0 || request.luggage > maxLuggage) {
+    return `Luggage must be between 0 and ${maxLuggage} suitcases.`;
+  }
+
+  const contactIssues = contactDetailsIssues({
+    fullName: request.customerName,
+    email: request.customerEmail,
+    phone: request.customerPhone,
+  });
+  const contactIssue = contactIssues.fullName ?? contactIssues.email ?? contactIssues.phone;
+
+  if (contactIssue) {
+    return contactIssue;
+  }
+
+  if (request.specialInstructions.length > MAX_INSTRUCTIONS_LENGTH) {
+    return `Special instructions must be ${MAX_INSTRUCTIONS_LENGTH} characters or fewer.`;
+  }
+
+  // Group checkout has one line per vehicle class and nowhere to carry extras per vehicle.
+  if (request.groupVehicles && request.addOns.length > 0) {
+    return "Add-ons are not available on group bookings. Add requests for each vehicle to the special instructions.";
+  }
+
+  if (request.groupVehicles && request.recurrence) {
+    return "Group bookings cannot repeat. Please book each date separately.";
+  }
+
+  if (request.quoteRequest && (request.groupVehicles || request.recurrence)) {
+    return "Quotes are requested for one vehicle and one date. Describe the rest of your plans in the special instructions.";
+  }
+
+  if (request.recurrence) {
+    const seriesIssue = recurrenceIssue(request.serviceDate, request.recurrence);
+
+    if (seriesIssue) {
+      return seriesIssue;
+    }
+  }
+
+  return null;
+}
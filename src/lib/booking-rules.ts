@@ -0,0 +1,137 @@
+import { nowInNewYork } from "@/lib/booking-request";
+import { pickupInstant } from "@/lib/pickup-instant";
+import { isWithinTimeWindow } from "@/lib/surcharges";
+
+export type BlackoutDate = {
+  date: string;
+  label: string;
+};
+
+export type BookingRules = {
+  defaultMinNoticeHours: number;
+  // Keyed by fleet vehicle id; classes without an entry use defaultMinNoticeHours.
+  minNoticeHours: Record<string, number>;
+  maxAdvanceDays: number;
+  blackoutDates: BlackoutDate[];
+  // HH:MM in Buffalo time. Equal open and close times mean bookings are taken around the clock;
+  // a close time before the open time wraps past midnight.
+  openTime: string;
+  closeTime: string;
+};
+
+export type RuleTrip = {
+  serviceDate: string;
+  pickupTime: string;
+  returnLeg?: { serviceDate: string; pickupTime: string } | null;
+};
+
+export const defaultBookingRules: BookingRules = {
+  defaultMinNoticeHours: 2,
+  minNoticeHours: {
+    sedan: 2,
+    suv: 4,
+    sprinter: 24,
+  },
+  maxAdvanceDays: 365,
+  blackoutDates: [],
+  openTime: "00:00",
+  closeTime: "00:00",
+};
+
+export function normalizeBookingRules(data?: Partial<BookingRules>): BookingRules {
+  return {
+    defaultMinNoticeHours: Number(data?.defaultMinNoticeHours ?? defaultBookingRules.defaultMinNoticeHours),
+    minNoticeHours: Object.fromEntries(
+      Object.entries(data?.minNoticeHours ?? defaultBookingRules.minNoticeHours).map(([vehicleId, hours]) => [
+        vehicleId,
+        Number(hours),
+      ]),
+    ),
+    maxAdvanceDays: Number(data?.maxAdvanceDays ?? defaultBookingRules.maxAdvanceDays),
+    blackoutDates: (data?.blackoutDates ?? defaultBookingRules.blackoutDates).map((blackout) => ({
+      date: blackout.date ?? "",
+      label: blackout.label ?? "",
+    })),
+    openTime: data?.openTime ?? defaultBookingRules.openTime,
+    closeTime: data?.closeTime ?? defaultBookingRules.closeTime,
+  };
+}
+
+export function minNoticeHoursFor(rules: BookingRules, vehicleId: string) {
+  return rules.minNoticeHours[vehicleId] ?? rules.defaultMinNoticeHours;
+}
+
+function formatHours(hours: number) {
+  return hours === 1 ? "1 hour" : `${hours} hours`;
+}
+
+export function operatingHoursLabel(rules: BookingRules) {
+  return rules.openTime === rules.closeTime ? "24 hours a day" : `${rules.openTime}–${rules.closeTime}`;
+}
+
+// The latest service date the form offers, as YYYY-MM-DD.
+export function lastBookableDate(rules: BookingRules, now = new Date()) {
+  const today = new Date(`${nowInNewYork(now).slice(0, 10)}T00:00:00Z`);
+  today.setUTCDate(today.getUTCDate() + rules.maxAdvanceDays);
+  return today.toISOString().slice(0, 10);
+}
+
+// Shared by the booking form, POST /api/bookings and the concierge so every channel gives the
+// same reason. Without a vehicle the most lenient class's notice applies, and step 2 then
+// checks each class.
+export function bookingRuleIssue(
+  rules: BookingRules,
+  trip: RuleTrip,
+  vehicle: { id: string; name: string } | null,
+  now = new Date(),
+): string | null {
+  const pickups = [{ serviceDate: trip.serviceDate, pickupTime: trip.pickupTime }];
+
+  if (trip.returnLeg?.serviceDate && trip.returnLeg.pickupTime) {
+    pickups.push(trip.returnLeg);
+  }
+
+  for (const pickup of pickups) {
+    const blackout = rules.blackoutDates.find((item) => item.date === pickup.serviceDate);
+
+    if (blackout) {
+      return `We are not taking online bookings on ${pickup.serviceDate}${blackout.label ? ` (${blackout.label})` : ""}.`;
+    }
+
+    const isOpen =
+      rules.openTime === rules.closeTime || isWithinTimeWindow(pickup.pickupTime, rules.openTime, rules.closeTime);
+
+    if (!isOpen) {
+      return `Online pickups can be scheduled between ${rules.openTime} and ${rules.closeTime}.`;
+    }
+  }
+
+  if (trip.serviceDate > lastBookableDate(rules, now)) {
+    return `Bookings open ${rules.maxAdvanceDays} days in advance. Please choose an earlier date.`;
+  }
+
+  // Notice is measured in elapsed time, so a pickup across a clock change gets the real gap.
+  const pickup = pickupInstant(trip.serviceDate, trip.pickupTime);
+
+  if (!pickup) {
+    return "Please select service date and pickup time.";
+  }
+
+  const minutesUntilPickup = (pickup.getTime() - now.getTime()) / 60000;
+
+  if (minutesUntilPickup <= 0) {
+    return "The pickup date and time must be in the future.";
+  }
+
+  const noticeHours = vehicle
+    ? minNoticeHoursFor(rules, vehicle.id)
+    : Math.min(rules.defaultMinNoticeHours, ...Object.values(rules.minNoticeHours));
+
+  if (minutesUntilPickup < noticeHours * 60) {
+    return vehicle
+      ? `${vehicle.name} needs at least ${formatHours(noticeHours)} notice. Please choose a later pickup or another vehicle.`
+      : `Online bookings need at least ${formatHours(noticeHours)} notice. Please choose a later pickup.`;
+  }
+
+  return null;
+}
@@ -0,0 +1,40 @@
+import { DocumentData, FieldValue } from "firebase-admin/firestore";
+import { PaymentStatus } from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+
+export async function fetchSeriesBookings(seriesId: string) {
+  const snapshot = await requireAdminDb().collection("bookings").where("seriesId", "==", seriesId).get();
+
+  return snapshot.docs.sort(
+    (first, second) => Number(first.get("occurrenceIndex") ?? 0) - Number(second.get("occurrenceIndex") ?? 0),
+  );
+}
+
+// A series paid as one charge keeps its Stripe payment on the lead booking; the other rides
+// follow its payment status so dispatch sees every ride as paid, held or released.
+export async function mirrorSeriesPayment(
+  booking: DocumentData,
+  leadBookingId: string,
+  paymentStatus: PaymentStatus,
+) {
+  if (!booking.seriesId || booking.seriesPaymentMode !== "series" || paymentStatus === "partially_refunded") {
+    return;
+  }
+
+  const batch = requireAdminDb().batch();
+  const siblings = await fetchSeriesBookings(booking.seriesId);
+
+  for (const sibling of siblings) {
+    if (sibling.id === leadBookingId || sibling.get("status") === "cancelled") {
+      continue;
+    }
+
+    batch.update(sibling.ref, {
+      paymentStatus,
+      paidViaBookingId: leadBookingId,
+      paymentUpdatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  await batch.commit();
+}
@@ -0,0 +1,148 @@
+import { pickupInstant } from "@/lib/pickup-instant";
+
+export type BookingStatus = "quote_requested" | "quoted" | "pending" | "confirmed" | "completed" | "cancelled";
+export type PaymentStatus =
+  | "unpaid"
+  | "authorized"
+  | "authorization_expired"
+  | "released"
+  | "paid"
+  | "failed"
+  | "partially_refunded"
+  | "refunded";
+
+export type RefundRecord = {
+  id: string;
+  amount: number;
+  reason: string;
+  status: string;
+  createdAt: string;
+};
+
+// A payment taken outside Stripe (cash, check, invoice). Only these can mark a booking paid by
+// hand; every other payment status is set once Stripe confirms it.
+export type OfflinePayment = {
+  amount: number;
+  reason: string;
+  recordedBy: string;
+  recordedAt: string;
+};
+
+export type OvertimeChargeStatus = "open" | "paid" | "failed" | "expired";
+
+// Time past the booked hours on an hourly ride, charged after the ride through its own Stripe
+// Checkout link; the booking's original payment is left as it was.
+export type OvertimeCharge = {
+  id: string;
+  minutes: number;
+  amount: number;
+  reason: string;
+  status: OvertimeChargeStatus;
+  checkoutUrl: string;
+  checkoutSessionId: string;
+  createdAt: string;
+  expiresAt: string;
+  paidAt: string | null;
+};
+
+export type ReturnLeg = {
+  serviceDate: string;
+  pickupTime: string;
+  pickupAddress: string;
+};
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  "quote_requested",
+  "quoted",
+  "pending",
+  "confirmed",
+  "completed",
+  "cancelled",
+];
+export const PAYMENT_STATUSES: PaymentStatus[] = [
+  "unpaid",
+  "authorized",
+  "authorization_expired",
+  "released",
+  "paid",
+  "failed",
+  "partially_refunded",
+  "refunded",
+];
+
+// Bookings in these states can start a new Stripe checkout from the resume link.
+export const RESUMABLE_PAYMENT_STATUSES: PaymentStatus[] = ["unpaid", "failed", "authorization_expired"];
+
+
+// Shared by the booking form and checkout so a round trip always has a return after the outbound pickup.
+// Dates are YYYY-MM-DD and times HH:MM, so the combined strings compare chronologically.
+export function returnLegIssue(
+  outbound: { serviceDate: string; pickupTime: string },
+  returnLeg?: Partial<ReturnLeg> | null,
+): string | null {
+  if (!returnLeg?.serviceDate || !returnLeg.pickupTime) {
+    return "Please choose a return date and pickup time.";
+  }
+
+  if (!returnLeg.pickupAddress?.trim()) {
+    return "Please enter the return pickup address.";
+  }
+
+  if (
+    outbound.serviceDate &&
+    outbound.pickupTime &&
+    `${returnLeg.serviceDate}T${returnLeg.pickupTime}` <= `${outbound.serviceDate}T${outbound.pickupTime}`
+  ) {
+    return "The return pickup must be after the outbound pickup.";
+  }
+
+  return null;
+}
+
+export type ChangeRequest = {
+  message: string;
+  createdAt: string;
+};
+
+export const MAX_CHANGE_REQUEST_LENGTH = 1000;
+
+// Customers can cancel from /booking/manage up to this many hours before pickup; later
+// cancellations go through dispatch.
+export const CUSTOMER_CANCELLATION_NOTICE_HOURS = 24;
+
+// No 0/O or 1/I/L so a reference read over the phone is unambiguous.
+const REFERENCE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const REFERENCE_CODE_LENGTH = 6;
+
+export function generateReferenceCode(): string {
+  const values = crypto.getRandomValues(new Uint32Array(REFERENCE_CODE_LENGTH));
+  return Array.from(values, (value) => REFERENCE_CODE_ALPHABET[value % REFERENCE_CODE_ALPHABET.length]).join("");
+}
+
+export function normalizeReferenceCode(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function customerCancellationIssue(
+  booking: { status: BookingStatus; serviceDate: string; pickupTime: string },
+  now = new Date(),
+): string | null {
+  if (booking.status === "cancelled") {
+    return "This booking is already cancelled.";
+  }
+
+  if (booking.status === "completed") {
+    return "Completed trips cannot be cancelled.";
+  }
+
+  const pickup = pickupInstant(booking.serviceDate, booking.pickupTime);
+
+  if (
+    !pickup ||
+    pickup.getTime() - now.getTime() < CUSTOMER_CANCELLATION_NOTICE_HOURS * 60 * 60 * 1000
+  ) {
+    return `Online cancellation closes ${CUSTOMER_CANCELLATION_NOTICE_HOURS} hours before pickup. Please call dispatch to cancel.`;
+  }
+
+  return null;
+}
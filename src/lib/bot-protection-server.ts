@@ -0,0 +1,69 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { BotChallenge, BotProof, proofOfWorkSolves } from "@/lib/bot-protection";
+import { rateLimitStore } from "@/lib/rate-limit-server";
+
+const DEFAULT_DIFFICULTY = 16;
+const CHALLENGE_TTL_MS = 10 * 60 * 1000;
+
+// Without BOT_CHALLENGE_SECRET each server process signs with its own key, which is fine
+// for local dev but breaks challenges handed out by one serverless instance and checked by another.
+const fallbackSecret = randomBytes(32).toString("hex");
+
+function challengeSecret() {
+  return process.env.BOT_CHALLENGE_SECRET || fallbackSecret;
+}
+
+function challengeDifficulty() {
+  const difficulty = Number(process.env.BOT_CHALLENGE_DIFFICULTY);
+  return Number.isInteger(difficulty) && difficulty >= 0 && difficulty <= 24 ? difficulty : DEFAULT_DIFFICULTY;
+}
+
+function sign(payload: string) {
+  return createHmac("sha256", challengeSecret()).update(payload).digest("hex");
+}
+
+// Challenges are stateless: `issuedAt.random.difficulty.signature`, so any instance that
+// shares the secret can check them.
+export function issueBotChallenge(now = Date.now()): BotChallenge {
+  const difficulty = challengeDifficulty();
+  const payload = `${now}.${randomBytes(12).toString("hex")}.${difficulty}`;
+  return { challenge: `${payload}.${sign(payload)}`, difficulty };
+}
+
+// Returns a customer-facing issue, or null when the proof is valid and unused.
+export async function botProofIssue(proof: unknown, now = Date.now()): Promise<string | null> {
+  const retry = "We could not verify this browser. Please refresh the page and try again.";
+  const { challenge, nonce } = (proof ?? {}) as Partial<BotProof>;
+
+  if (typeof challenge !== "string" || typeof nonce !== "number" || !Number.isSafeInteger(nonce) || nonce < 0) {
+    return retry;
+  }
+
+  const parts = challenge.split(".");
+
+  if (parts.length !== 4) {
+    return retry;
+  }
+
+  const [issuedAt, random, difficulty, signature] = parts;
+  const expected = Buffer.from(sign(`${issuedAt}.${random}.${difficulty}`));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return retry;
+  }
+
+  const issuedAtMs = Number(issuedAt);
+
+  if (!Number.isFinite(issuedAtMs) || issuedAtMs > now || now - issuedAtMs > CHALLENGE_TTL_MS) {
+    return "This booking form has been open a while. Please submit it again.";
+  }
+
+  if (!(await proofOfWorkSolves(challenge, nonce, Number(difficulty)))) {
+    return retry;
+  }
+
+  // Each solved challenge books once; the counter outlives the challenge itself.
+  const uses = await rateLimitStore().hit(`bot-challenge:${random}`, new Date(issuedAtMs + CHALLENGE_TTL_MS));
+  return uses > 1 ? retry : null;
+}
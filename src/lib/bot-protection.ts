@@ -0,0 +1,71 @@
+// Shared by the booking form, the concierge and the public API routes. The server side
+// (challenge signing, rate-limit counters) lives in the `-server` modules.
+
+// A random id per browser tab, so rate limits can tell visitors behind one IP apart.
+export const CLIENT_SESSION_HEADER = "x-client-session";
+const CLIENT_SESSION_STORAGE_KEY = "wny-client-session";
+
+// A field real customers never see; anything typed into it came from a form-filling script.
+export const HONEYPOT_FIELD = "website";
+
+export type BotChallenge = {
+  challenge: string;
+  difficulty: number;
+};
+
+export type BotProof = {
+  challenge: string;
+  nonce: number;
+};
+
+export function clientSessionId() {
+  let sessionId = window.sessionStorage.getItem(CLIENT_SESSION_STORAGE_KEY);
+
+  if (!sessionId) {
+    sessionId = crypto.randomUUID();
+    window.sessionStorage.setItem(CLIENT_SESSION_STORAGE_KEY, sessionId);
+  }
+
+  return sessionId;
+}
+
+function leadingZeroBits(bytes: Uint8Array) {
+  let bits = 0;
+
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+
+    return bits + Math.clz32(byte) - 24;
+  }
+
+  return bits;
+}
+
+// A proof is a nonce whose SHA-256 with the challenge starts with `difficulty` zero bits:
+// cheap to check, and about 2^difficulty hashes to find.
+export async function proofOfWorkSolves(challenge: string, nonce: number, difficulty: number) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${challenge}:${nonce}`));
+  return leadingZeroBits(new Uint8Array(digest)) >= difficulty;
+}
+
+// Fetches a signed challenge and searches for its nonce; a fraction of a second to a few
+// seconds in a browser.
+export async function solveBotChallenge(): Promise<BotProof> {
+  const response = await fetch("/api/bot-challenge", { cache: "no-store" });
+  const data = (await response.json()) as Partial<BotChallenge> & { error?: string };
+
+  if (!response.ok || !data.challenge || data.difficulty === undefined) {
+    throw new Error(data.error ?? "Unable to verify this browser right now.");
+  }
+
+  let nonce = 0;
+
+  while (!(await proofOfWorkSolves(data.challenge, nonce, data.difficulty))) {
+    nonce += 1;
+  }
+
+  return { challenge: data.challenge, nonce };
+}
@@ -0,0 +1,123 @@
+// Customer contact checks shared by step 3 of the booking form and POST /api/bookings.
+// Bookings store emails lowercased and phones in E.164 (`+17165550123`) so dispatch can text
+// and email every customer.
+
+export type ContactDetails = {
+  fullName: string;
+  email: string;
+  phone: string;
+};
+
+export type ContactField = keyof ContactDetails;
+
+export const MAX_NAME_LENGTH = 100;
+export const MAX_EMAIL_LENGTH = 254;
+export const MAX_PHONE_LENGTH = 30;
+
+const EMAIL_PATTERN =
+  /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*@([a-z0-9]([a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+
+// Digits plus the punctuation people type around them: spaces, dashes, dots, brackets, a leading +.
+const PHONE_CHARACTERS = /^\+?[\d\s().-]+$/;
+
+// North American numbers: area code and exchange both start 2-9 and neither is an N11
+// service code such as 411 or 911.
+const NANP_NUMBER = /^([2-9]\d{2})([2-9]\d{2})(\d{4})$/;
+
+export function normalizeEmail(value: string) {
+  return value.trim().toLowerCase();
+}
+
+export function emailIssue(value: string): string | null {
+  const email = normalizeEmail(value);
+
+  if (!email) {
+    return "Please enter your email address.";
+  }
+
+  if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) {
+    return "Please enter a valid email address, like name@example.com.";
+  }
+
+  return null;
+}
+
+// US and Canadian numbers share country code 1, so both come out as `+1` and ten digits.
+// Returns null for anything that is not a dialable North American number.
+export function normalizePhoneNumber(value: string): string | null {
+  const trimmed = value.trim();
+
+  if (!trimmed || trimmed.length > MAX_PHONE_LENGTH || !PHONE_CHARACTERS.test(trimmed)) {
+    return null;
+  }
+
+  let digits = trimmed.replace(/\D/g, "");
+
+  if (digits.length === 11 && digits.startsWith("1")) {
+    digits = digits.slice(1);
+  } else if (trimmed.startsWith("+")) {
+    return null;
+  }
+
+  const match = NANP_NUMBER.exec(digits);
+
+  if (!match || match[1].endsWith("11") || match[2].endsWith("11")) {
+    return null;
+  }
+
+  return `+1${digits}`;
+}
+
+export function phoneIssue(value: string): string | null {
+  const trimmed = value.trim();
+
+  if (!trimmed) {
+    return "Please enter your phone number.";
+  }
+
+  if (normalizePhoneNumber(trimmed)) {
+    return null;
+  }
+
+  if (trimmed.startsWith("+") && !trimmed.replace(/[\s().-]/g, "").startsWith("+1")) {
+    return "We can only take US and Canadian phone numbers online. Please call dispatch from abroad.";
+  }
+
+  return "Please enter a 10-digit US or Canadian phone number, like (716) 555-0123.";
+}
+
+// Shows an E.164 North American number as `(716) 555-0123`; anything else is returned as is.
+export function formatPhoneNumber(value: string) {
+  const normalized = normalizePhoneNumber(value);
+
+  if (!normalized) {
+    return value;
+  }
+
+  return `(${normalized.slice(2, 5)}) ${normalized.slice(5, 8)}-${normalized.slice(8)}`;
+}
+
+export function contactDetailsIssues(details: ContactDetails): Partial<Record<ContactField, string>> {
+  const issues: Partial<Record<ContactField, string>> = {};
+  const fullName = details.fullName.trim();
+
+  if (!fullName || fullName.length > MAX_NAME_LENGTH) {
+    issues.fullName = fullName
+      ? `Please keep your name to ${MAX_NAME_LENGTH} characters or fewer.`
+      : "Please enter your full name.";
+  }
+
+  const email = emailIssue(details.email);
+
+  if (email) {
+    issues.email = email;
+  }
+
+  const phone = phoneIssue(details.phone);
+
+  if (phone) {
+    issues.phone = phone;
+  }
+
+  return issues;
+}
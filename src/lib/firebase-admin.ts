@@ -0,0 +1,52 @@
+import { App, cert, getApp, getApps, initializeApp } from "firebase-admin/app";
+import { Firestore, getFirestore } from "firebase-admin/firestore";
+
+const ADMIN_APP_NAME = "wny-server";
+
+const adminProjectId =
+  process.env.FIREBASE_ADMIN_PROJECT_ID ?? process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const adminClientEmail = process.env.FIREBASE_ADMIN_CLIENT_EMAIL;
+// Private keys pasted into env settings usually carry escaped newlines.
+const adminPrivateKey = process.env.FIREBASE_ADMIN_PRIVATE_KEY?.replace(/\\n/g, "\n");
+
+const firebaseAdminMissingKeys = Object.entries({
+  FIREBASE_ADMIN_PROJECT_ID: adminProjectId,
+  FIREBASE_ADMIN_CLIENT_EMAIL: adminClientEmail,
+  FIREBASE_ADMIN_PRIVATE_KEY: adminPrivateKey,
+})
+  .filter(([, value]) => !value)
+  .map(([key]) => key);
+
+const firebaseAdminConfigError =
+  firebaseAdminMissingKeys.length > 0
+    ? `Missing Firebase Admin environment variables: ${firebaseAdminMissingKeys.join(", ")}`
+    : null;
+
+let adminApp: App | null = null;
+let adminDb: Firestore | null = null;
+
+if (!firebaseAdminConfigError) {
+  adminApp = getApps().some((app) => app.name === ADMIN_APP_NAME)
+    ? getApp(ADMIN_APP_NAME)
+    : initializeApp(
+        {
+          credential: cert({
+            projectId: adminProjectId,
+            clientEmail: adminClientEmail,
+            privateKey: adminPrivateKey,
+          }),
+        },
+        ADMIN_APP_NAME,
+      );
+  adminDb = getFirestore(adminApp);
+}
+
+function requireAdminDb() {
+  if (!adminDb) {
+    throw new Error(firebaseAdminConfigError ?? "Firebase Admin is not configured.");
+  }
+
+  return adminDb;
+}
+
+export { adminApp, adminDb, firebaseAdminConfigError, requireAdminDb };
@@ -0,0 +1,59 @@
+import { DocumentData, FieldValue } from "firebase-admin/firestore";
+import { PaymentStatus } from "@/lib/bookings";
+import { requireAdminDb } from "@/lib/firebase-admin";
+
+export async function fetchGroupUnits(parentBookingId: string) {
+  const snapshot = await requireAdminDb()
+    .collection("bookings")
+    .where("groupParentBookingId", "==", parentBookingId)
+    .get();
+
+  return snapshot.docs.sort(
+    (first, second) => Number(first.get("groupUnitIndex") ?? 0) - Number(second.get("groupUnitIndex") ?? 0),
+  );
+}
+
+// A group is paid once on its parent booking; each vehicle's booking follows that payment
+// status so dispatch sees every unit as paid, held or released.
+export async function mirrorGroupPayment(booking: DocumentData, parentBookingId: string, paymentStatus: PaymentStatus) {
+  if (!booking.groupVehicles || paymentStatus === "partially_refunded") {
+    return;
+  }
+
+  const batch = requireAdminDb().batch();
+  const units = await fetchGroupUnits(parentBookingId);
+
+  for (const unit of units) {
+    if (unit.get("status") === "cancelled") {
+      continue;
+    }
+
+    batch.update(unit.ref, {
+      paymentStatus,
+      paidViaBookingId: parentBookingId,
+      paymentUpdatedAt: FieldValue.serverTimestamp(),
+    });
+  }
+
+  await batch.commit();
+}
+
+// Cancelling the parent frees every vehicle still booked under it; completed units are kept.
+export async function cancelGroupUnits(booking: DocumentData, parentBookingId: string) {
+  if (!booking.groupVehicles) {
+    return;
+  }
+
+  const batch = requireAdminDb().batch();
+  const units = await fetchGroupUnits(parentBookingId);
+
+  for (const unit of units) {
+    if (unit.get("status") === "cancelled" || unit.get("status") === "completed") {
+      continue;
+    }
+
+    batch.update(unit.ref, { status: "cancelled", cancelledAt: FieldValue.serverTimestamp() });
+  }
+
+  await batch.commit();
+}
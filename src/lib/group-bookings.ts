@@ -0,0 +1,147 @@
+import { calculateFare, FareLine, FareQuote, FareQuoteInput, roundCurrency } from "@/lib/pricing";
+import { SiteFleetItem } from "@/lib/site-content";
+import { SurchargeRule } from "@/lib/surcharges";
+
+export type GroupVehicleSelection = {
+  vehicleId: string;
+  quantity: number;
+};
+
+// Stored on the parent booking, one entry per fleet class.
+export type GroupVehicleLine = {
+  vehicleId: string;
+  vehicleName: string;
+  quantity: number;
+  unitFare: number;
+  subtotal: number;
+};
+
+export type GroupQuote = {
+  lines: GroupVehicleLine[];
+  // The per-vehicle quote for each line, in the same order.
+  quotes: FareQuote[];
+  total: number;
+};
+
+// The parent booking's `vehicleId`. It matches no fleet class, so the parent never counts
+// against availability (its unit bookings do), and vehicle-restricted promo codes do not
+// apply to group bookings.
+export const GROUP_VEHICLE_ID = "group";
+
+export const MIN_GROUP_VEHICLES = 2;
+export const MAX_GROUP_VEHICLES = 12;
+export const MAX_GROUP_PASSENGERS = 120;
+export const MAX_GROUP_LUGGAGE = 120;
+
+// Merges repeated classes and drops empty quantities so every class appears once.
+export function normalizeGroupVehicles(selections: GroupVehicleSelection[]): GroupVehicleSelection[] {
+  const quantities = new Map<string, number>();
+
+  for (const selection of selections) {
+    const quantity = Math.floor(Number(selection?.quantity ?? 0));
+
+    if (typeof selection?.vehicleId === "string" && selection.vehicleId && quantity > 0) {
+      quantities.set(selection.vehicleId, (quantities.get(selection.vehicleId) ?? 0) + quantity);
+    }
+  }
+
+  return Array.from(quantities, ([vehicleId, quantity]) => ({ vehicleId, quantity }));
+}
+
+export function groupVehicleCount(selections: GroupVehicleSelection[]) {
+  return selections.reduce((total, selection) => total + selection.quantity, 0);
+}
+
+export function groupVehiclesLabel(lines: { vehicleName: string; quantity: number }[]) {
+  return lines.map((line) => `${line.quantity} × ${line.vehicleName}`).join(", ");
+}
+
+// The party is spread across the vehicles, so only the combined seats and luggage space count.
+export function groupCapacityIssue(
+  fleet: SiteFleetItem[],
+  selections: GroupVehicleSelection[],
+  passengers: number,
+  luggage: number,
+): string | null {
+  const count = groupVehicleCount(selections);
+
+  if (count < MIN_GROUP_VEHICLES) {
+    return `Choose at least ${MIN_GROUP_VEHICLES} vehicles for a group booking.`;
+  }
+
+  if (count > MAX_GROUP_VEHICLES) {
+    return `Group bookings are limited to ${MAX_GROUP_VEHICLES} vehicles online. Please call dispatch for larger events.`;
+  }
+
+  let seats = 0;
+  let space = 0;
+
+  for (const selection of selections) {
+    const vehicle = fleet.find((item) => item.id === selection.vehicleId);
+
+    if (!vehicle) {
+      return "One of the selected vehicles is no longer offered. Please review your vehicles.";
+    }
+
+    seats += vehicle.maxPassengers * selection.quantity;
+    space += vehicle.maxLuggage * selection.quantity;
+  }
+
+  if (passengers > seats) {
+    return `These vehicles seat up to ${seats} passengers in total.`;
+  }
+
+  if (luggage > space) {
+    return `These vehicles hold up to ${space} suitcases in total.`;
+  }
+
+  return null;
+}
+
+// Prices one vehicle of each class for the shared itinerary. Add-ons are not sold on group
+// bookings; extras for an event are arranged with dispatch.
+export function calculateGroupFare(
+  fleet: SiteFleetItem[],
+  input: Omit<FareQuoteInput, "vehicleId" | "addOns">,
+  selections: GroupVehicleSelection[],
+  surchargeRules: SurchargeRule[] = [],
+): GroupQuote | null {
+  const lines: GroupVehicleLine[] = [];
+  const quotes: FareQuote[] = [];
+
+  for (const selection of selections) {
+    const quote = calculateFare(fleet, { ...input, vehicleId: selection.vehicleId, addOns: [] }, surchargeRules);
+
+    if (!quote || quote.total <= 0) {
+      return null;
+    }
+
+    lines.push({
+      vehicleId: quote.vehicleId,
+      vehicleName: quote.vehicleName,
+      quantity: selection.quantity,
+      unitFare: quote.total,
+      subtotal: roundCurrency(quote.total * selection.quantity),
+    });
+    quotes.push(quote);
+  }
+
+  if (lines.length === 0) {
+    return null;
+  }
+
+  return {
+    lines,
+    quotes,
+    total: roundCurrency(lines.reduce((total, line) => total + line.subtotal, 0)),
+  };
+}
+
+// The parent booking's fare breakdown: one line per class.
+export function groupFareLines(quote: GroupQuote): FareLine[] {
+  return quote.lines.map((line) => ({
+    code: `group:${line.vehicleId}`,
+    label: `${line.quantity} × ${line.vehicleName} ($${line.unitFare.toFixed(2)} each)`,
+    amount: line.subtotal,
+  }));
+}
@@ -0,0 +1,30 @@
+import { BookingRules, normalizeBookingRules } from "@/lib/booking-rules";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { Gazetteer, normalizeGazetteer } from "@/lib/places";
+import { normalizePricingConfig, PricingConfig } from "@/lib/pricing-config";
+import { normalizeSiteContent, SiteContent } from "@/lib/site-content";
+
+// Server-side read of the CMS document so prices always come from what admins saved.
+export async function fetchLiveSiteContent(): Promise<SiteContent> {
+  const snapshot = await requireAdminDb().collection("siteContent").doc("main").get();
+
+  return normalizeSiteContent(snapshot.exists ? (snapshot.data() as Partial<SiteContent>) : undefined);
+}
+
+export async function fetchLivePricingConfig(): Promise<PricingConfig> {
+  const snapshot = await requireAdminDb().collection("pricingConfig").doc("main").get();
+
+  return normalizePricingConfig(snapshot.exists ? (snapshot.data() as Partial<PricingConfig>) : undefined);
+}
+
+export async function fetchLiveBookingRules(): Promise<BookingRules> {
+  const snapshot = await requireAdminDb().collection("bookingRules").doc("main").get();
+
+  return normalizeBookingRules(snapshot.exists ? (snapshot.data() as Partial<BookingRules>) : undefined);
+}
+
+export async function fetchLiveGazetteer(): Promise<Gazetteer> {
+  const snapshot = await requireAdminDb().collection("gazetteer").doc("main").get();
+
+  return normalizeGazetteer(snapshot.exists ? (snapshot.data() as Partial<Gazetteer>) : undefined);
+}
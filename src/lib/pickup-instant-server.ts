@@ -0,0 +1,21 @@
+import { Timestamp } from "firebase-admin/firestore";
+import { pickupInstant, SERVICE_TIME_ZONE } from "@/lib/pickup-instant";
+
+type PickupTrip = {
+  serviceDate: string;
+  pickupTime: string;
+  returnLeg?: { serviceDate: string; pickupTime: string } | null;
+};
+
+// Written next to `serviceDate`/`pickupTime` whenever either changes, so admin sorting and
+// anything scheduled off a pickup can use one comparable value.
+export function pickupInstantFields(trip: PickupTrip) {
+  const pickup = pickupInstant(trip.serviceDate, trip.pickupTime);
+  const returnPickup = trip.returnLeg ? pickupInstant(trip.returnLeg.serviceDate, trip.returnLeg.pickupTime) : null;
+
+  return {
+    pickupAt: pickup ? Timestamp.fromDate(pickup) : null,
+    returnPickupAt: returnPickup ? Timestamp.fromDate(returnPickup) : null,
+    pickupTimeZone: SERVICE_TIME_ZONE,
+  };
+}
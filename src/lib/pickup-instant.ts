@@ -0,0 +1,85 @@
+// Every pickup date and time is Buffalo wall-clock time, whatever time zone the customer
+// books from. Bookings keep the typed strings and also store the instant they stand for.
+export const SERVICE_TIME_ZONE = "America/New_York";
+
+const offsetFormatter = new Intl.DateTimeFormat("en-US", {
+  timeZone: SERVICE_TIME_ZONE,
+  hourCycle: "h23",
+  year: "numeric",
+  month: "2-digit",
+  day: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+
+// Minutes Buffalo is ahead of UTC at the given instant (-300 in winter, -240 in summer).
+function serviceZoneOffsetMinutes(instant: number) {
+  const parts = offsetFormatter.formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((item) => item.type === type)?.value);
+  const wallClock = Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second"),
+  );
+
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+// The instant a Buffalo "YYYY-MM-DD" + "HH:MM" pickup happens. A time repeated when clocks
+// fall back resolves to its first (daylight) occurrence; a time skipped when clocks spring
+// forward lands in the hour before the jump.
+export function pickupInstant(serviceDate: string, pickupTime: string): Date | null {
+  const dateMatch = /^(\d{4})-(\d{2})-(\d{2})$/.exec(serviceDate);
+  const timeMatch = /^(\d{2}):(\d{2})$/.exec(pickupTime);
+
+  if (!dateMatch || !timeMatch) {
+    return null;
+  }
+
+  const wallClock = Date.UTC(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    Number(timeMatch[1]),
+    Number(timeMatch[2]),
+  );
+
+  // Date.UTC rolls "02-30" over into March; treat it as unreadable instead.
+  if (Number.isNaN(wallClock) || new Date(wallClock).toISOString().slice(0, 16) !== `${serviceDate}T${pickupTime}`) {
+    return null;
+  }
+
+  const firstGuess = wallClock - serviceZoneOffsetMinutes(wallClock) * 60000;
+  const offset = serviceZoneOffsetMinutes(firstGuess);
+
+  return new Date(wallClock - offset * 60000);
+}
+
+// Admin and customer displays, always in Buffalo time with the zone name ("EDT"/"EST").
+export function formatPickupInstant(instant: Date) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: SERVICE_TIME_ZONE,
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(instant);
+}
+
+// The same pickup in another zone, for customers booking from outside Eastern time.
+export function formatInTimeZone(instant: Date, timeZone: string) {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  }).format(instant);
+}
@@ -0,0 +1,388 @@
+import { GeoPoint } from "@/lib/service-zones";
+
+export type PlaceCategory = "airport" | "hotel" | "venue" | "stadium";
+
+export type Place = {
+  id: string;
+  name: string;
+  category: PlaceCategory;
+  city: string;
+  address: string;
+  point: GeoPoint;
+  // Other names customers type for the place ("the falls", "bills stadium").
+  aliases: string[];
+  active: boolean;
+};
+
+export type Gazetteer = {
+  places: Place[];
+};
+
+// Snapshot stored on the booking next to the typed address, so later gazetteer edits do
+// not move past pickups.
+export type BookedPlace = {
+  id: string;
+  name: string;
+  point: GeoPoint;
+};
+
+export const PLACE_CATEGORY_LABELS: Record<PlaceCategory, string> = {
+  airport: "Airport",
+  hotel: "Hotel",
+  venue: "Venue",
+  stadium: "Stadium",
+};
+
+export const MAX_PLACE_SUGGESTIONS = 6;
+
+export const defaultPlaces: Place[] = [
+  {
+    id: "buf-airport",
+    name: "Buffalo Niagara International Airport (BUF)",
+    category: "airport",
+    city: "Cheektowaga",
+    address: "4200 Genesee St, Cheektowaga, NY 14225",
+    point: { lat: 42.9405, lng: -78.7322 },
+    aliases: ["buffalo airport", "airport", "buf"],
+    active: true,
+  },
+  {
+    id: "iag-airport",
+    name: "Niagara Falls International Airport (IAG)",
+    category: "airport",
+    city: "Niagara Falls",
+    address: "2035 Niagara Falls Blvd, Niagara Falls, NY 14304",
+    point: { lat: 43.1073, lng: -78.9462 },
+    aliases: ["niagara airport", "iag"],
+    active: true,
+  },
+  {
+    id: "roc-airport",
+    name: "Greater Rochester International Airport (ROC)",
+    category: "airport",
+    city: "Rochester",
+    address: "1200 Brooks Ave, Rochester, NY 14624",
+    point: { lat: 43.1189, lng: -77.6724 },
+    aliases: ["rochester airport", "frederick douglass airport", "roc"],
+    active: true,
+  },
+  {
+    id: "hyatt-regency-buffalo",
+    name: "Hyatt Regency Buffalo",
+    category: "hotel",
+    city: "Buffalo",
+    address: "2 Fountain Plaza, Buffalo, NY 14202",
+    point: { lat: 42.8878, lng: -78.8745 },
+    aliases: ["hyatt buffalo"],
+    active: true,
+  },
+  {
+    id: "curtiss-hotel",
+    name: "The Curtiss Hotel",
+    category: "hotel",
+    city: "Buffalo",
+    address: "210 Franklin St, Buffalo, NY 14202",
+    point: { lat: 42.8865, lng: -78.876 },
+    aliases: ["curtiss"],
+    active: true,
+  },
+  {
+    id: "richardson-hotel",
+    name: "The Richardson Hotel",
+    category: "hotel",
+    city: "Buffalo",
+    address: "444 Forest Ave, Buffalo, NY 14213",
+    point: { lat: 42.9288, lng: -78.8739 },
+    aliases: ["hotel henry", "richardson complex"],
+    active: true,
+  },
+  {
+    id: "seneca-niagara",
+    name: "Seneca Niagara Resort & Casino",
+    category: "hotel",
+    city: "Niagara Falls",
+    address: "310 4th St, Niagara Falls, NY 14303",
+    point: { lat: 43.0866, lng: -79.0583 },
+    aliases: ["seneca casino", "casino"],
+    active: true,
+  },
+  {
+    id: "hyatt-regency-rochester",
+    name: "Hyatt Regency Rochester",
+    category: "hotel",
+    city: "Rochester",
+    address: "125 E Main St, Rochester, NY 14604",
+    point: { lat: 43.1565, lng: -77.6079 },
+    aliases: ["hyatt rochester"],
+    active: true,
+  },
+  {
+    id: "niagara-falls-state-park",
+    name: "Niagara Falls State Park",
+    category: "venue",
+    city: "Niagara Falls",
+    address: "332 Prospect St, Niagara Falls, NY 14303",
+    point: { lat: 43.0828, lng: -79.0742 },
+    aliases: ["the falls", "niagara falls", "maid of the mist", "cave of the winds"],
+    active: true,
+  },
+  {
+    id: "canalside",
+    name: "Canalside",
+    category: "venue",
+    city: "Buffalo",
+    address: "44 Prime St, Buffalo, NY 14202",
+    point: { lat: 42.8777, lng: -78.8781 },
+    aliases: ["canal side", "buffalo waterfront"],
+    active: true,
+  },
+  {
+    id: "sheas",
+    name: "Shea's Performing Arts Center",
+    category: "venue",
+    city: "Buffalo",
+    address: "646 Main St, Buffalo, NY 14202",
+    point: { lat: 42.8932, lng: -78.8728 },
+    aliases: ["sheas", "sheas theatre"],
+    active: true,
+  },
+  {
+    id: "kleinhans",
+    name: "Kleinhans Music Hall",
+    category: "venue",
+    city: "Buffalo",
+    address: "3 Symphony Cir, Buffalo, NY 14201",
+    point: { lat: 42.901, lng: -78.8852 },
+    aliases: ["buffalo philharmonic"],
+    active: true,
+  },
+  {
+    id: "buffalo-convention-center",
+    name: "Buffalo Niagara Convention Center",
+    category: "venue",
+    city: "Buffalo",
+    address: "153 Franklin St, Buffalo, NY 14202",
+    point: { lat: 42.8876, lng: -78.8762 },
+    aliases: ["convention center buffalo"],
+    active: true,
+  },
+  {
+    id: "eastman-theatre",
+    name: "Kodak Hall at Eastman Theatre",
+    category: "venue",
+    city: "Rochester",
+    address: "433 E Main St, Rochester, NY 14604",
+    point: { lat: 43.1573, lng: -77.6013 },
+    aliases: ["eastman theatre", "eastman theater"],
+    active: true,
+  },
+  {
+    id: "highmark-stadium",
+    name: "Highmark Stadium",
+    category: "stadium",
+    city: "Orchard Park",
+    address: "1 Bills Dr, Orchard Park, NY 14127",
+    point: { lat: 42.7738, lng: -78.787 },
+    aliases: ["bills stadium", "ralph wilson stadium", "new era field"],
+    active: true,
+  },
+  {
+    id: "keybank-center",
+    name: "KeyBank Center",
+    category: "stadium",
+    city: "Buffalo",
+    address: "1 Seymour H Knox III Plaza, Buffalo, NY 14203",
+    point: { lat: 42.875, lng: -78.8764 },
+    aliases: ["sabres arena", "first niagara center"],
+    active: true,
+  },
+  {
+    id: "sahlen-field",
+    name: "Sahlen Field",
+    category: "stadium",
+    city: "Buffalo",
+    address: "275 Washington St, Buffalo, NY 14203",
+    point: { lat: 42.8806, lng: -78.874 },
+    aliases: ["bisons stadium", "coca-cola field"],
+    active: true,
+  },
+  {
+    id: "blue-cross-arena",
+    name: "Blue Cross Arena",
+    category: "stadium",
+    city: "Rochester",
+    address: "1 War Memorial Sq, Rochester, NY 14614",
+    point: { lat: 43.157, lng: -77.6151 },
+    aliases: ["war memorial", "amerks arena"],
+    active: true,
+  },
+  {
+    id: "innovative-field",
+    name: "Innovative Field",
+    category: "stadium",
+    city: "Rochester",
+    address: "1 Morrie Silver Way, Rochester, NY 14608",
+    point: { lat: 43.1583, lng: -77.6196 },
+    aliases: ["frontier field", "red wings stadium"],
+    active: true,
+  },
+];
+
+export const defaultGazetteer: Gazetteer = {
+  places: defaultPlaces,
+};
+
+export function isPlaceCategory(value: unknown): value is PlaceCategory {
+  return value === "airport" || value === "hotel" || value === "venue" || value === "stadium";
+}
+
+export function normalizeGazetteer(data?: Partial<Gazetteer>): Gazetteer {
+  if (!data?.places) {
+    return defaultGazetteer;
+  }
+
+  return {
+    places: data.places.map((place, index) => ({
+      id: place.id ?? `place-${index + 1}`,
+      name: place.name ?? "",
+      category: isPlaceCategory(place.category) ? place.category : "venue",
+      city: place.city ?? "",
+      address: place.address ?? "",
+      point: { lat: Number(place.point?.lat ?? 0), lng: Number(place.point?.lng ?? 0) },
+      aliases: (place.aliases ?? []).map((alias) => String(alias)),
+      active: place.active ?? true,
+    })),
+  };
+}
+
+export function findPlace(places: Place[], placeId: string | null | undefined) {
+  return placeId ? (places.find((place) => place.id === placeId && place.active) ?? null) : null;
+}
+
+// The text a suggestion puts in the address input. Fares use the place's own coordinates
+// (see `resolvePoint`); the street address keeps the text readable for dispatch.
+export function placeLabel(place: Place) {
+  return `${place.name}, ${place.address}`;
+}
+
+// A place id only counts for the address it was picked for: the typed text has to still end
+// with the place's street address, as a suggestion or an airport pickup leaves it.
+export function placeMatchesAddress(place: Place, address: string) {
+  const normalize = (value: string) => value.trim().toLowerCase().replace(/\s+/g, " ");
+  const street = normalize(place.address);
+
+  return Boolean(street) && normalize(address).endsWith(street);
+}
+
+export function bookedPlace(place: Place): BookedPlace {
+  return { id: place.id, name: place.name, point: place.point };
+}
+
+function searchTokens(value: string) {
+  return value
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+// Edit distance counting swapped neighbours as one edit ("feild"), stopping early once it
+// passes `limit`.
+function editDistance(first: string, second: string, limit: number) {
+  if (Math.abs(first.length - second.length) > limit) {
+    return limit + 1;
+  }
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: second.length + 1 }, (_, index) => index);
+
+  for (let row = 1; row <= first.length; row += 1) {
+    const current = [row];
+
+    for (let column = 1; column <= second.length; column += 1) {
+      const cost = first[row - 1] === second[column - 1] ? 0 : 1;
+      current[column] = Math.min(previous[column] + 1, current[column - 1] + 1, previous[column - 1] + cost);
+
+      if (row > 1 && column > 1 && first[row - 1] === second[column - 2] && first[row - 2] === second[column - 1]) {
+        current[column] = Math.min(current[column], beforePrevious[column - 2] + 1);
+      }
+    }
+
+    if (Math.min(...current) > limit) {
+      return limit + 1;
+    }
+
+    beforePrevious = previous;
+    previous = current;
+  }
+
+  return previous[second.length];
+}
+
+// A typed word matches a place word it starts, or one it misspells by a letter
+// ("curtis", "hyat", "kleinhaus").
+function tokenMatches(queryToken: string, placeToken: string) {
+  if (placeToken.startsWith(queryToken)) {
+    return true;
+  }
+
+  if (queryToken.length < 4) {
+    return false;
+  }
+
+  const limit = queryToken.length >= 7 ? 2 : 1;
+  return editDistance(queryToken, placeToken.slice(0, queryToken.length + 1), limit) <= limit;
+}
+
+// Ranks active places for the step-1 address inputs. Every typed word has to match the
+// place's name, aliases, city or address; name and alias matches rank above address ones.
+export function searchPlaces(places: Place[], query: string, limit = MAX_PLACE_SUGGESTIONS): Place[] {
+  const queryTokens = searchTokens(query);
+
+  if (queryTokens.length === 0) {
+    return [];
+  }
+
+  const normalizedQuery = queryTokens.join(" ");
+  const ranked: { place: Place; score: number }[] = [];
+
+  for (const place of places) {
+    if (!place.active) {
+      continue;
+    }
+
+    const names = [place.name, ...place.aliases].map((name) => searchTokens(name).join(" "));
+    const nameTokens = names.flatMap((name) => name.split(" "));
+    const otherTokens = searchTokens(`${place.city} ${place.address}`);
+    let score = 0;
+
+    if (names.includes(normalizedQuery)) {
+      score += 100;
+    } else if (names.some((name) => name.startsWith(normalizedQuery))) {
+      score += 50;
+    }
+
+    const everyTokenMatches = queryTokens.every((token) => {
+      if (nameTokens.some((placeToken) => tokenMatches(token, placeToken))) {
+        score += 10;
+        return true;
+      }
+
+      if (otherTokens.some((placeToken) => tokenMatches(token, placeToken))) {
+        score += 2;
+        return true;
+      }
+
+      return false;
+    });
+
+    if (everyTokenMatches) {
+      ranked.push({ place, score });
+    }
+  }
+
+  return ranked
+    .sort((first, second) => second.score - first.score || first.place.name.localeCompare(second.place.name))
+    .slice(0, limit)
+    .map((entry) => entry.place);
+}
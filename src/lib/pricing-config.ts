@@ -0,0 +1,19 @@
+import { AddOn, defaultAddOns, normalizeAddOns } from "@/lib/add-ons";
+import { defaultSurchargeRules, normalizeSurchargeRules, SurchargeRule } from "@/lib/surcharges";
+
+export type PricingConfig = {
+  surchargeRules: SurchargeRule[];
+  addOns: AddOn[];
+};
+
+export const defaultPricingConfig: PricingConfig = {
+  surchargeRules: defaultSurchargeRules,
+  addOns: defaultAddOns,
+};
+
+export function normalizePricingConfig(data?: Partial<PricingConfig>): PricingConfig {
+  return {
+    surchargeRules: normalizeSurchargeRules(data?.surchargeRules),
+    addOns: normalizeAddOns(data?.addOns),
+  };
+}
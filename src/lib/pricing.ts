@@ -0,0 +1,408 @@
+import { AddOn, AddOnSelection, BookedAddOn, resolveAddOns } from "@/lib/add-ons";
+import { SiteFleetItem } from "@/lib/site-content";
+import {
+  billableMilesBetween,
+  GeoPoint,
+  ResolvedLocation,
+  resolveLocation,
+  resolvePoint,
+} from "@/lib/service-zones";
+import { evaluateSurcharges, SurchargeRule } from "@/lib/surcharges";
+
+export type ServiceType = "one-way" | "round-trip" | "hourly";
+
+export type FareLine = {
+  code: string;
+  label: string;
+  amount: number;
+};
+
+export type ItineraryStop = {
+  address: string;
+  waitMinutes: number;
+};
+
+// Outbound miles run pickup → stops → drop-off; a round trip returns directly from the return
+// pickup to the original pickup.
+export type RouteEstimate = {
+  pickup: ResolvedLocation;
+  dropoff: ResolvedLocation;
+  stops: ResolvedLocation[];
+  returnPickup: ResolvedLocation | null;
+  miles: number | null;
+  billableMiles: number;
+  returnBillableMiles: number;
+  perMileRate: number;
+  legs: number;
+};
+
+export type HourlyEstimate = {
+  requestedHours: number;
+  billableHours: number;
+  minimumHours: number;
+  hourlyRate: number;
+  overtime: OvertimeTerms;
+};
+
+// Stored on hourly bookings so overtime is charged at the terms shown when the ride was booked.
+export type OvertimeTerms = {
+  rate: number;
+  incrementMinutes: number;
+};
+
+export type FareQuote = {
+  vehicleId: string;
+  vehicleName: string;
+  serviceType: ServiceType;
+  route: RouteEstimate | null;
+  hourly: HourlyEstimate | null;
+  addOns: BookedAddOn[];
+  lines: FareLine[];
+  total: number;
+};
+
+export type FareQuoteInput = {
+  vehicleId: string;
+  serviceType: ServiceType;
+  pickupAddress: string;
+  dropoffAddress: string;
+  // Coordinates of a gazetteer place picked for the address, which take precedence over it.
+  pickupPoint?: GeoPoint | null;
+  dropoffPoint?: GeoPoint | null;
+  // Where a round trip's return leg starts; the drop-off when left blank.
+  returnPickupAddress?: string;
+  serviceDate: string;
+  pickupTime: string;
+  hours?: number;
+  stops?: ItineraryStop[];
+  addOns?: AddOnSelection[];
+};
+
+export const SERVICE_LABELS: Record<ServiceType, string> = {
+  "one-way": "One Way",
+  "round-trip": "Round Trip",
+  hourly: "Hourly",
+};
+
+const SERVICE_MULTIPLIERS: Record<Exclude<ServiceType, "hourly">, number> = {
+  "one-way": 1,
+  "round-trip": 2,
+};
+
+const PER_MILE_RATES: Record<string, number> = {
+  sedan: 3.25,
+  suv: 3.95,
+  sprinter: 5.5,
+};
+
+const DEFAULT_PER_MILE_RATE = 3.5;
+
+export const MAX_HOURLY_HOURS = 24;
+
+export const MAX_ITINERARY_STOPS = 5;
+
+export const STOP_WAIT_OPTIONS = [0, 15, 30, 45, 60, 90, 120];
+
+// Flat fee per intermediate stop; waiting is billed separately at the vehicle's hourly rate.
+const STOP_FEE_USD = 15;
+
+// Wait time is billed in these increments.
+const WAIT_INCREMENT_MINUTES = 15;
+
+const DEFAULT_OVERTIME_INCREMENT_MINUTES = 30;
+
+// Client estimates may differ from the server quote by rounding only.
+const FARE_TOLERANCE_USD = 0.01;
+
+export function isServiceType(value: unknown): value is ServiceType {
+  return typeof value === "string" && value in SERVICE_LABELS;
+}
+
+export function roundCurrency(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+// Drops blank entries and clamps wait times so the browser and checkout price the same list.
+export function normalizeStops(stops?: ItineraryStop[]): ItineraryStop[] {
+  return (stops ?? [])
+    .map((stop) => ({
+      address: (stop.address ?? "").trim(),
+      waitMinutes: Math.min(
+        Math.max(0, Math.round(Number(stop.waitMinutes) || 0)),
+        STOP_WAIT_OPTIONS[STOP_WAIT_OPTIONS.length - 1],
+      ),
+    }))
+    .filter((stop) => stop.address)
+    .slice(0, MAX_ITINERARY_STOPS);
+}
+
+function estimateRoute(
+  vehicleId: string,
+  input: FareQuoteInput,
+  pickup: ResolvedLocation,
+  dropoff: ResolvedLocation,
+  stops: ResolvedLocation[],
+): RouteEstimate {
+  const points = [pickup, ...stops, dropoff];
+  let miles: number | null = 0;
+  let billableMiles = 0;
+
+  for (let index = 1; index < points.length; index += 1) {
+    const segment = billableMilesBetween(points[index - 1], points[index]);
+    miles = miles === null || segment.miles === null ? null : miles + segment.miles;
+    billableMiles += segment.billableMiles;
+  }
+
+  const legs = input.serviceType === "round-trip" ? 2 : 1;
+  const returnAddress = input.returnPickupAddress?.trim() ?? "";
+  const returnPickup = legs > 1 ? (returnAddress ? resolveLocation(returnAddress) : dropoff) : null;
+
+  return {
+    pickup,
+    dropoff,
+    stops,
+    returnPickup,
+    miles: miles === null ? null : Math.round(miles * 10) / 10,
+    billableMiles: Math.round(billableMiles * 10) / 10,
+    returnBillableMiles: returnPickup ? billableMilesBetween(returnPickup, pickup).billableMiles : 0,
+    perMileRate: PER_MILE_RATES[vehicleId] ?? DEFAULT_PER_MILE_RATE,
+    legs,
+  };
+}
+
+function stopLines(vehicle: SiteFleetItem, stops: ItineraryStop[]): FareLine[] {
+  if (stops.length === 0) {
+    return [];
+  }
+
+  const lines: FareLine[] = [
+    {
+      code: "stops",
+      label: `Additional stops · ${stops.length} × $${STOP_FEE_USD.toFixed(2)}`,
+      amount: roundCurrency(stops.length * STOP_FEE_USD),
+    },
+  ];
+
+  const waitMinutes = stops.reduce(
+    (total, stop) => total + Math.ceil(stop.waitMinutes / WAIT_INCREMENT_MINUTES) * WAIT_INCREMENT_MINUTES,
+    0,
+  );
+  const hourlyRate = Number(vehicle.hourlyRate);
+
+  if (waitMinutes > 0 && Number.isFinite(hourlyRate) && hourlyRate > 0) {
+    lines.push({
+      code: "wait",
+      label: `Wait time at stops · ${waitMinutes} min @ $${hourlyRate.toFixed(2)}/h`,
+      amount: roundCurrency((waitMinutes / 60) * hourlyRate),
+    });
+  }
+
+  return lines;
+}
+
+function estimateHourly(vehicle: SiteFleetItem, hours: number | undefined): HourlyEstimate | null {
+  const hourlyRate = Number(vehicle.hourlyRate);
+  const minimumHours = Math.max(1, Number(vehicle.minimumHours) || 1);
+  const requestedHours = Number(hours);
+
+  if (!Number.isFinite(hourlyRate) || hourlyRate <= 0) {
+    return null;
+  }
+
+  // Hourly service is booked in whole hours.
+  if (!Number.isInteger(requestedHours) || requestedHours < 1 || requestedHours > MAX_HOURLY_HOURS) {
+    return null;
+  }
+
+  return {
+    requestedHours,
+    billableHours: Math.max(requestedHours, minimumHours),
+    minimumHours,
+    hourlyRate,
+    overtime: vehicleOvertimeTerms(vehicle),
+  };
+}
+
+// Vehicles saved before overtime terms existed bill overtime at the hourly rate.
+export function vehicleOvertimeTerms(vehicle: SiteFleetItem): OvertimeTerms {
+  const rate = Number(vehicle.overtimeRate);
+  const incrementMinutes = Number(vehicle.overtimeIncrementMinutes);
+
+  return {
+    rate: Number.isFinite(rate) && rate > 0 ? rate : Number(vehicle.hourlyRate),
+    incrementMinutes:
+      Number.isInteger(incrementMinutes) && incrementMinutes > 0 ? incrementMinutes : DEFAULT_OVERTIME_INCREMENT_MINUTES,
+  };
+}
+
+// Overtime is rounded up to whole increments, so 20 minutes in 30-minute increments bills 30.
+export function overtimeFare(terms: OvertimeTerms, minutes: number) {
+  const billedMinutes = Math.ceil(minutes / terms.incrementMinutes) * terms.incrementMinutes;
+
+  return { billedMinutes, amount: roundCurrency((billedMinutes / 60) * terms.rate) };
+}
+
+export function calculateFare(
+  fleet: SiteFleetItem[],
+  input: FareQuoteInput,
+  surchargeRules: SurchargeRule[] = [],
+  addOnCatalog: AddOn[] = [],
+): FareQuote | null {
+  const vehicle = fleet.find((item) => item.id === input.vehicleId);
+
+  if (!vehicle || !isServiceType(input.serviceType)) {
+    return null;
+  }
+
+  const pickup = input.pickupPoint ? resolvePoint(input.pickupPoint) : resolveLocation(input.pickupAddress);
+  const dropoff = input.dropoffPoint ? resolvePoint(input.dropoffPoint) : resolveLocation(input.dropoffAddress);
+  const stops = normalizeStops(input.stops);
+  const resolvedStops = stops.map((stop) => resolveLocation(stop.address));
+  const addOns = resolveAddOns(addOnCatalog, input.addOns, vehicle.id);
+
+  if (input.serviceType === "hourly") {
+    const hourly = estimateHourly(vehicle, input.hours);
+
+    if (!hourly) {
+      return null;
+    }
+
+    const minimumNote = hourly.billableHours > hourly.requestedHours ? ` (${hourly.minimumHours} h minimum)` : "";
+    const lines: FareLine[] = [
+      {
+        code: "hourly",
+        label: `${vehicle.name} · Hourly · ${hourly.billableHours} h @ $${hourly.hourlyRate.toFixed(2)}/h${minimumNote}`,
+        amount: roundCurrency(hourly.billableHours * hourly.hourlyRate),
+      },
+    ];
+
+    return buildQuote(vehicle, input, null, hourly, addOns, [
+      ...lines,
+      ...surchargeLines(surchargeRules, input, pickup, dropoff, stops, resolvedStops, 1, lines),
+      ...addOnLines(addOns),
+    ]);
+  }
+
+  const baseFare = Number(vehicle.baseFare);
+
+  if (!Number.isFinite(baseFare) || baseFare <= 0) {
+    return null;
+  }
+
+  const lines: FareLine[] = [
+    {
+      code: "base",
+      label: `${vehicle.name} · ${SERVICE_LABELS[input.serviceType]}`,
+      amount: roundCurrency(baseFare * SERVICE_MULTIPLIERS[input.serviceType]),
+    },
+  ];
+
+  const route = estimateRoute(vehicle.id, input, pickup, dropoff, resolvedStops);
+  const totalBillableMiles = route.billableMiles + route.returnBillableMiles;
+
+  if (totalBillableMiles > 0) {
+    const legLabel =
+      route.legs > 1
+        ? route.returnBillableMiles === route.billableMiles
+          ? ` × ${route.legs} legs`
+          : ` out + ${route.returnBillableMiles} mi return`
+        : "";
+    lines.push({
+      code: "mileage",
+      label: `Distance beyond zones · ${route.billableMiles} mi${legLabel} @ $${route.perMileRate.toFixed(2)}/mi`,
+      amount: roundCurrency(totalBillableMiles * route.perMileRate),
+    });
+  }
+
+  lines.push(...stopLines(vehicle, stops));
+
+  return buildQuote(vehicle, input, route, null, addOns, [
+    ...lines,
+    ...surchargeLines(surchargeRules, input, pickup, dropoff, stops, resolvedStops, route.legs, lines),
+    ...addOnLines(addOns),
+  ]);
+}
+
+// An address outside every mapped zone adds no mileage, so the fare would be the base fare
+// whatever the distance. Such trips are priced by dispatch through a quote request instead.
+export function unmappedRouteIssue(quote: FareQuote): string | null {
+  if (!quote.route) {
+    return null;
+  }
+
+  const { pickup, dropoff, stops, returnPickup } = quote.route;
+  const label = !pickup.zoneId
+    ? "pickup address"
+    : !dropoff.zoneId
+      ? "drop-off address"
+      : stops.some((stop) => !stop.zoneId)
+        ? `address of stop ${stops.findIndex((stop) => !stop.zoneId) + 1}`
+        : returnPickup && !returnPickup.zoneId
+          ? "return pickup address"
+          : null;
+
+  return label
+    ? `We could not place the ${label} in our service area, so this trip cannot be priced online. Please check the address or request a custom quote.`
+    : null;
+}
+
+function surchargeLines(
+  rules: SurchargeRule[],
+  input: FareQuoteInput,
+  pickup: ResolvedLocation,
+  dropoff: ResolvedLocation,
+  stops: ItineraryStop[],
+  resolvedStops: ResolvedLocation[],
+  legs: number,
+  tripLines: FareLine[],
+): FareLine[] {
+  return evaluateSurcharges(rules, {
+    serviceDate: input.serviceDate,
+    pickupTime: input.pickupTime,
+    pickupAddress: input.pickupAddress,
+    dropoffAddress: input.dropoffAddress,
+    pickup,
+    dropoff,
+    stopAddresses: stops.map((stop) => stop.address),
+    stops: resolvedStops,
+    legs,
+    subtotal: tripLines.reduce((total, line) => total + line.amount, 0),
+  }).map((surcharge) => ({
+    code: `surcharge:${surcharge.ruleId}`,
+    label: surcharge.label,
+    amount: surcharge.amount,
+  }));
+}
+
+// Add-ons come after surcharges so percentage surcharges only apply to the trip itself.
+function addOnLines(addOns: BookedAddOn[]): FareLine[] {
+  return addOns.map((addOn) => ({
+    code: `addon:${addOn.id}`,
+    label: addOn.quantity > 1 ? `${addOn.name} × ${addOn.quantity}` : addOn.name,
+    amount: roundCurrency(addOn.unitPrice * addOn.quantity),
+  }));
+}
+
+function buildQuote(
+  vehicle: SiteFleetItem,
+  input: FareQuoteInput,
+  route: RouteEstimate | null,
+  hourly: HourlyEstimate | null,
+  addOns: BookedAddOn[],
+  lines: FareLine[],
+): FareQuote {
+  return {
+    vehicleId: vehicle.id,
+    vehicleName: vehicle.name,
+    serviceType: input.serviceType,
+    route,
+    hourly,
+    addOns,
+    lines,
+    total: roundCurrency(lines.reduce((total, line) => total + line.amount, 0)),
+  };
+}
+
+export function faresMatch(clientEstimate: number, serverTotal: number) {
+  return Math.abs(roundCurrency(clientEstimate) - roundCurrency(serverTotal)) < FARE_TOLERANCE_USD;
+}
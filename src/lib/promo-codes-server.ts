@@ -0,0 +1,83 @@
+import { FieldValue } from "firebase-admin/firestore";
+import { requireAdminDb } from "@/lib/firebase-admin";
+import { checkPromoCode, normalizePromoCode, PromoCheckInput, PromoCheckResult, PromoCode } from "@/lib/promo-codes";
+
+function promoCodeRef(code: string) {
+  return requireAdminDb().collection("promoCodes").doc(code);
+}
+
+export async function previewPromoCode(code: string, input: PromoCheckInput): Promise<PromoCheckResult> {
+  const snapshot = await promoCodeRef(code).get();
+
+  if (!snapshot.exists) {
+    return { ok: false, error: "Promo code not found." };
+  }
+
+  return checkPromoCode(normalizePromoCode(code, snapshot.data() as Partial<PromoCode>), input);
+}
+
+// Validates and counts the redemption in one transaction so a capped code cannot be
+// over-used by concurrent checkouts. Retrying checkout for the same booking reuses its slot.
+export async function reservePromoCode(
+  code: string,
+  bookingId: string,
+  input: PromoCheckInput,
+): Promise<PromoCheckResult> {
+  const db = requireAdminDb();
+  const promoRef = promoCodeRef(code);
+  const redemptionRef = promoRef.collection("redemptions").doc(bookingId);
+
+  return db.runTransaction(async (transaction) => {
+    const [promoSnapshot, redemptionSnapshot] = await Promise.all([
+      transaction.get(promoRef),
+      transaction.get(redemptionRef),
+    ]);
+
+    if (!promoSnapshot.exists) {
+      return { ok: false, error: "Promo code not found." };
+    }
+
+    const promo = normalizePromoCode(code, promoSnapshot.data() as Partial<PromoCode>);
+    const result = checkPromoCode(
+      redemptionSnapshot.exists ? { ...promo, redemptionCount: promo.redemptionCount - 1 } : promo,
+      input,
+    );
+
+    if (!result.ok) {
+      return result;
+    }
+
+    if (redemptionSnapshot.exists) {
+      transaction.update(redemptionRef, { discountAmount: result.discountAmount });
+      return result;
+    }
+
+    transaction.update(promoRef, { redemptionCount: FieldValue.increment(1) });
+    transaction.set(redemptionRef, {
+      bookingId,
+      discountAmount: result.discountAmount,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    return result;
+  });
+}
+
+// Frees the slot held by a booking whose checkout expired without payment or that was
+// retried with a different code.
+export async function releasePromoCode(code: string, bookingId: string) {
+  const db = requireAdminDb();
+  const promoRef = promoCodeRef(code);
+  const redemptionRef = promoRef.collection("redemptions").doc(bookingId);
+
+  await db.runTransaction(async (transaction) => {
+    const redemptionSnapshot = await transaction.get(redemptionRef);
+
+    if (!redemptionSnapshot.exists) {
+      return;
+    }
+
+    transaction.delete(redemptionRef);
+    transaction.update(promoRef, { redemptionCount: FieldValue.increment(-1) });
+  });
+}
@@ -0,0 +1,84 @@
+import { roundCurrency } from "@/lib/pricing";
+
+export type PromoDiscountType = "percent" | "fixed";
+
+export type PromoCode = {
+  code: string;
+  description: string;
+  discountType: PromoDiscountType;
+  amount: number;
+  expiresOn: string;
+  maxRedemptions: number;
+  redemptionCount: number;
+  vehicleIds: string[];
+  active: boolean;
+};
+
+export type PromoCheckInput = {
+  vehicleId: string;
+  subtotal: number;
+  today: string;
+};
+
+export type PromoCheckResult =
+  | { ok: true; code: string; discountAmount: number; label: string }
+  | { ok: false; error: string };
+
+export function normalizePromoCodeInput(value: string) {
+  return value.trim().toUpperCase().replace(/\s+/g, "");
+}
+
+export function normalizePromoCode(code: string, data?: Partial<PromoCode>): PromoCode {
+  return {
+    code,
+    description: data?.description ?? "",
+    discountType: data?.discountType === "percent" ? "percent" : "fixed",
+    amount: Number(data?.amount ?? 0),
+    expiresOn: data?.expiresOn ?? "",
+    maxRedemptions: Number(data?.maxRedemptions ?? 0),
+    redemptionCount: Number(data?.redemptionCount ?? 0),
+    vehicleIds: data?.vehicleIds ?? [],
+    active: data?.active ?? true,
+  };
+}
+
+export function todayInNewYork(now = new Date()) {
+  return new Intl.DateTimeFormat("en-CA", {
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    timeZone: "America/New_York",
+  }).format(now);
+}
+
+// Shared by the preview endpoint and checkout so customers see the same verdict twice.
+export function checkPromoCode(promo: PromoCode, input: PromoCheckInput): PromoCheckResult {
+  if (!promo.active) {
+    return { ok: false, error: "This promo code is no longer active." };
+  }
+
+  if (promo.expiresOn && input.today > promo.expiresOn) {
+    return { ok: false, error: "This promo code has expired." };
+  }
+
+  if (promo.maxRedemptions > 0 && promo.redemptionCount >= promo.maxRedemptions) {
+    return { ok: false, error: "This promo code has reached its usage limit." };
+  }
+
+  if (promo.vehicleIds.length > 0 && !promo.vehicleIds.includes(input.vehicleId)) {
+    return { ok: false, error: "This promo code does not apply to the selected vehicle." };
+  }
+
+  const rawDiscount =
+    promo.discountType === "percent" ? (input.subtotal * promo.amount) / 100 : promo.amount;
+  const discountAmount = roundCurrency(Math.min(Math.max(rawDiscount, 0), input.subtotal));
+
+  if (discountAmount <= 0) {
+    return { ok: false, error: "This promo code does not reduce the current fare." };
+  }
+
+  const label =
+    promo.discountType === "percent" ? `Promo ${promo.code} (${promo.amount}% off)` : `Promo ${promo.code}`;
+
+  return { ok: true, code: promo.code, discountAmount, label };
+}
@@ -0,0 +1,144 @@
+import { BookingStatus } from "@/lib/bookings";
+import { pickupInstant } from "@/lib/pickup-instant";
+import { FareLine, roundCurrency } from "@/lib/pricing";
+
+// Dispatch's priced answer to a quote request, stored on the booking as `quote`. Once the
+// customer accepts it, checkout charges `total` instead of recomputing the fare.
+export type BookingQuote = {
+  lines: FareLine[];
+  total: number;
+  message: string;
+  // Buffalo end of day of the expiry date, as an ISO instant.
+  expiresAt: string;
+  sentAt: string;
+  acceptedAt: string | null;
+};
+
+export type QuoteLineDraft = {
+  label: string;
+  amount: number;
+};
+
+export type QuoteDraft = {
+  lines: QuoteLineDraft[];
+  expiresOn: string;
+  message: string;
+};
+
+export const MAX_QUOTE_LINES = 20;
+export const MAX_QUOTE_LINE_LABEL_LENGTH = 120;
+export const MAX_QUOTE_MESSAGE_LENGTH = 1000;
+export const DEFAULT_QUOTE_VALID_DAYS = 7;
+
+// Quote bookings hold no vehicle until the customer accepts the price.
+export const QUOTE_STATUSES: BookingStatus[] = ["quote_requested", "quoted"];
+
+export function isQuoteStatus(status: unknown) {
+  return QUOTE_STATUSES.includes(status as BookingStatus);
+}
+
+// The expiry date is picked as a Buffalo calendar day and lasts until its final minute.
+export function quoteExpiryInstant(expiresOn: string) {
+  return pickupInstant(expiresOn, "23:59");
+}
+
+export function quoteDraftIssue(draft: QuoteDraft, now = new Date()): string | null {
+  if (draft.lines.length === 0) {
+    return "Add at least one line to the quote.";
+  }
+
+  if (draft.lines.length > MAX_QUOTE_LINES) {
+    return `A quote can have at most ${MAX_QUOTE_LINES} lines.`;
+  }
+
+  for (const line of draft.lines) {
+    const label = line.label.trim();
+
+    if (!label || label.length > MAX_QUOTE_LINE_LABEL_LENGTH) {
+      return `Each quote line needs a description of ${MAX_QUOTE_LINE_LABEL_LENGTH} characters or fewer.`;
+    }
+
+    // Stripe line items cannot be negative, so discounts are priced into the other lines.
+    if (!Number.isFinite(line.amount) || line.amount <= 0) {
+      return `Enter an amount above $0 for "${label}".`;
+    }
+  }
+
+  const expiry = quoteExpiryInstant(draft.expiresOn);
+
+  if (!expiry || expiry.getTime() <= now.getTime()) {
+    return "Choose an expiry date that has not passed.";
+  }
+
+  if (draft.message.length > MAX_QUOTE_MESSAGE_LENGTH) {
+    return `The note to the customer must be ${MAX_QUOTE_MESSAGE_LENGTH} characters or fewer.`;
+  }
+
+  return null;
+}
+
+export function quoteDraftTotal(draft: QuoteDraft) {
+  return roundCurrency(draft.lines.reduce((total, line) => total + Number(line.amount || 0), 0));
+}
+
+// Lines keep the fare-breakdown shape so the admin table, Stripe and the manage page can
+// show a quoted booking like any other.
+export function quoteLines(draft: QuoteDraft): FareLine[] {
+  return draft.lines.map((line, index) => ({
+    code: `quote:${index + 1}`,
+    label: line.label.trim(),
+    amount: roundCurrency(line.amount),
+  }));
+}
+
+export function quoteExpired(quote: Pick<BookingQuote, "expiresAt">, now = new Date()) {
+  return new Date(quote.expiresAt).getTime() <= now.getTime();
+}
+
+// A quote never outlives its pickup: the expiry picked in the admin is cut back to the pickup time.
+export function cappedQuoteExpiry(expiresOn: string, booking: { serviceDate?: string; pickupTime?: string }) {
+  const expiry = quoteExpiryInstant(expiresOn);
+  const pickup = pickupInstant(booking.serviceDate ?? "", booking.pickupTime ?? "");
+
+  return expiry && pickup && pickup.getTime() < expiry.getTime() ? pickup : expiry;
+}
+
+// Accepting or paying a quote still needs the vehicle's minimum notice before pickup, like an
+// instant booking, so a late answer cannot book a ride that has passed or cannot be staffed.
+export function quotePickupIssue(
+  booking: { serviceDate?: string; pickupTime?: string },
+  noticeHours = 0,
+  now = new Date(),
+): string | null {
+  const pickup = pickupInstant(booking.serviceDate ?? "", booking.pickupTime ?? "");
+
+  if (!pickup || pickup.getTime() <= now.getTime()) {
+    return "The pickup time for this quote has passed. Please contact dispatch to book a new trip.";
+  }
+
+  if (pickup.getTime() - now.getTime() < noticeHours * 60 * 60 * 1000) {
+    return "This pickup is too soon to accept the quote online. Please contact dispatch to confirm it.";
+  }
+
+  return null;
+}
+
+export function quoteAcceptIssue(
+  booking: { status: BookingStatus; quote?: BookingQuote | null; serviceDate?: string; pickupTime?: string },
+  noticeHours = 0,
+  now = new Date(),
+): string | null {
+  if (!booking.quote) {
+    return "Dispatch has not sent a quote for this booking yet.";
+  }
+
+  if (booking.quote.acceptedAt || !isQuoteStatus(booking.status)) {
+    return booking.status === "cancelled" ? "This quote request was cancelled." : "This quote has already been accepted.";
+  }
+
+  if (quoteExpired(booking.quote, now)) {
+    return "This quote has expired. Please contact dispatch for an updated price.";
+  }
+
+  return quotePickupIssue(booking, noticeHours, now);
+}
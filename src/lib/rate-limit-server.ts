@@ -0,0 +1,196 @@
+import { createHash } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { Timestamp } from "firebase-admin/firestore";
+import { CLIENT_SESSION_HEADER } from "@/lib/bot-protection";
+import { requireAdminDb } from "@/lib/firebase-admin";
+
+export type RateLimitRule = {
+  limit: number;
+  windowSeconds: number;
+};
+
+// `subject` rules count per value the route passes in, such as the booking reference being
+// looked up, so guesses are capped across IPs and sessions too.
+export type RateLimitPolicy = {
+  name: string;
+  ip: RateLimitRule[];
+  session: RateLimitRule[];
+  subject?: RateLimitRule[];
+};
+
+// Counters for fixed time windows. `hit` adds one to the key's counter and returns the new
+// count; the counter is dropped once `expiresAt` passes.
+export interface RateLimitStore {
+  hit(key: string, expiresAt: Date): Promise<number>;
+}
+
+const MEMORY_PRUNE_INTERVAL = 500;
+
+// Counts per server process, which is enough for `next dev` and single-instance hosting.
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>();
+  let hits = 0;
+
+  return {
+    async hit(key, expiresAt) {
+      const now = Date.now();
+      hits += 1;
+
+      if (hits % MEMORY_PRUNE_INTERVAL === 0) {
+        counters.forEach((counter, counterKey) => {
+          if (counter.expiresAt <= now) {
+            counters.delete(counterKey);
+          }
+        });
+      }
+
+      const counter = counters.get(key);
+      const count = counter && counter.expiresAt > now ? counter.count + 1 : 1;
+      counters.set(key, { count, expiresAt: expiresAt.getTime() });
+      return count;
+    },
+  };
+}
+
+// Shared across serverless instances. Documents carry `expiresAt` for a Firestore TTL policy.
+export function createFirestoreRateLimitStore(): RateLimitStore {
+  return {
+    async hit(key, expiresAt) {
+      const db = requireAdminDb();
+      // Keys hold IPs and client-supplied session ids, so they are hashed into safe document ids.
+      const counterRef = db.collection("rateLimits").doc(createHash("sha256").update(key).digest("hex"));
+
+      return db.runTransaction(async (transaction) => {
+        const snapshot = await transaction.get(counterRef);
+        const count = Number(snapshot.get("count") ?? 0) + 1;
+        transaction.set(counterRef, { count, expiresAt: Timestamp.fromDate(expiresAt) });
+        return count;
+      });
+    },
+  };
+}
+
+let configuredStore: RateLimitStore | null = null;
+
+// Another backend (Redis, Upstash...) can be plugged in at startup; otherwise
+// RATE_LIMIT_STORE picks `memory` or `firestore`, defaulting to Firestore in production.
+export function setRateLimitStore(store: RateLimitStore) {
+  configuredStore = store;
+}
+
+export function rateLimitStore() {
+  if (!configuredStore) {
+    const kind = process.env.RATE_LIMIT_STORE ?? (process.env.NODE_ENV === "production" ? "firestore" : "memory");
+    configuredStore = kind === "firestore" ? createFirestoreRateLimitStore() : createMemoryRateLimitStore();
+  }
+
+  return configuredStore;
+}
+
+export const CONCIERGE_RATE_LIMIT: RateLimitPolicy = {
+  name: "concierge",
+  ip: [
+    { limit: 20, windowSeconds: 60 },
+    { limit: 200, windowSeconds: 24 * 60 * 60 },
+  ],
+  session: [
+    { limit: 8, windowSeconds: 60 },
+    { limit: 60, windowSeconds: 60 * 60 },
+  ],
+};
+
+export const BOOKING_RATE_LIMIT: RateLimitPolicy = {
+  name: "booking",
+  ip: [
+    { limit: 5, windowSeconds: 10 * 60 },
+    { limit: 30, windowSeconds: 24 * 60 * 60 },
+  ],
+  session: [{ limit: 3, windowSeconds: 10 * 60 }],
+};
+
+export const CHECKOUT_RATE_LIMIT: RateLimitPolicy = {
+  name: "checkout",
+  ip: [
+    { limit: 10, windowSeconds: 10 * 60 },
+    { limit: 60, windowSeconds: 24 * 60 * 60 },
+  ],
+  session: [{ limit: 6, windowSeconds: 10 * 60 }],
+};
+
+// Promo codes are guessable, so checking them is held to a handful per visitor.
+export const PROMO_CODE_RATE_LIMIT: RateLimitPolicy = {
+  name: "promo-code",
+  ip: [
+    { limit: 10, windowSeconds: 10 * 60 },
+    { limit: 50, windowSeconds: 24 * 60 * 60 },
+  ],
+  session: [{ limit: 5, windowSeconds: 10 * 60 }],
+};
+
+export const MANAGE_BOOKING_RATE_LIMIT: RateLimitPolicy = {
+  name: "manage-booking",
+  ip: [
+    { limit: 10, windowSeconds: 10 * 60 },
+    { limit: 100, windowSeconds: 24 * 60 * 60 },
+  ],
+  session: [{ limit: 10, windowSeconds: 10 * 60 }],
+  subject: [
+    { limit: 5, windowSeconds: 10 * 60 },
+    { limit: 20, windowSeconds: 24 * 60 * 60 },
+  ],
+};
+
+// The leftmost x-forwarded-for entries are whatever the client sent, so only addresses added
+// by our own proxies are trusted. Vercel overwrites `x-vercel-forwarded-for` with the address
+// it saw; behind other hosting, TRUSTED_PROXY_HOPS is the number of proxies in front of the
+// app and the client is that many entries from the right.
+export function clientIp(request: NextRequest) {
+  if (process.env.VERCEL) {
+    const vercelIp = request.headers.get("x-vercel-forwarded-for")?.split(",")[0]?.trim();
+
+    if (vercelIp) {
+      return vercelIp;
+    }
+  }
+
+  const hops = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS ?? 1)) || 1);
+  const forwarded = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  return forwarded[forwarded.length - hops] || request.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// Counts the request against every window of the policy and returns a 429 response once
+// any of them is over its limit. Requests without a session header only count per IP.
+export async function enforceRateLimit(request: NextRequest, policy: RateLimitPolicy, subject = "") {
+  const sessionId = request.headers.get(CLIENT_SESSION_HEADER)?.trim().slice(0, 100) ?? "";
+  const subjects = [
+    ...policy.ip.map((rule) => ({ rule, id: `ip:${clientIp(request)}` })),
+    ...(sessionId ? policy.session.map((rule) => ({ rule, id: `session:${sessionId}` })) : []),
+    ...(subject ? (policy.subject ?? []).map((rule) => ({ rule, id: `subject:${subject.slice(0, 100)}` })) : []),
+  ];
+  const now = Date.now();
+  let retryAfterSeconds = 0;
+
+  for (const { rule, id } of subjects) {
+    const windowMs = rule.windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    const expiresAt = new Date(windowStart + windowMs);
+    const count = await rateLimitStore().hit(`${policy.name}:${id}:${rule.windowSeconds}:${windowStart}`, expiresAt);
+
+    if (count > rule.limit) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, Math.ceil((expiresAt.getTime() - now) / 1000));
+    }
+  }
+
+  if (retryAfterSeconds === 0) {
+    return null;
+  }
+
+  return NextResponse.json(
+    { error: "Too many requests. Please wait a moment and try again.", retryAfterSeconds },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } },
+  );
+}
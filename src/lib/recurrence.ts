@@ -0,0 +1,99 @@
+import { shiftDate } from "@/lib/availability";
+
+export type RecurrenceFrequency = "daily" | "weekdays" | "weekly";
+export type RecurrenceEnd = "date" | "count";
+export type SeriesPaymentMode = "per_ride" | "series";
+
+export type Recurrence = {
+  frequency: RecurrenceFrequency;
+  endType: RecurrenceEnd;
+  endDate: string;
+  count: number;
+};
+
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: "Every day",
+  weekdays: "Every weekday",
+  weekly: "Every week",
+};
+
+export const SERIES_PAYMENT_LABELS: Record<SeriesPaymentMode, string> = {
+  per_ride: "Pay per ride",
+  series: "One charge for the series",
+};
+
+// Stripe checkout allows 100 line items and a series charge lists every ride.
+export const MAX_SERIES_OCCURRENCES = 60;
+
+export function isRecurrenceFrequency(value: unknown): value is RecurrenceFrequency {
+  return value === "daily" || value === "weekdays" || value === "weekly";
+}
+
+function isWeekend(serviceDate: string) {
+  const day = new Date(`${serviceDate}T00:00:00Z`).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+// Whole days between two YYYY-MM-DD dates, used to move a return leg with its occurrence.
+export function daysBetween(from: string, to: string) {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+// Service dates for every occurrence, starting with the first pickup date. Stops one past the
+// cap so recurrenceIssue can report a series that is too long.
+export function recurrenceDates(startDate: string, recurrence: Recurrence): string[] {
+  const dates: string[] = [];
+  const step = recurrence.frequency === "weekly" ? 7 : 1;
+  const limit = Math.min(
+    recurrence.endType === "count" ? Number(recurrence.count) || 0 : Infinity,
+    MAX_SERIES_OCCURRENCES + 1,
+  );
+
+  for (let date = startDate; dates.length < limit; date = shiftDate(date, step)) {
+    if (recurrence.endType === "date" && date > recurrence.endDate) {
+      break;
+    }
+
+    if (recurrence.frequency === "weekdays" && isWeekend(date)) {
+      continue;
+    }
+
+    dates.push(date);
+  }
+
+  return dates;
+}
+
+export function recurrenceIssue(startDate: string, recurrence: Recurrence): string | null {
+  if (!isRecurrenceFrequency(recurrence.frequency)) {
+    return "Please choose how often the trip repeats.";
+  }
+
+  if (recurrence.frequency === "weekdays" && isWeekend(startDate)) {
+    return "A weekday series must start on a weekday.";
+  }
+
+  if (recurrence.endType === "count") {
+    if (!Number.isInteger(recurrence.count) || recurrence.count < 2 || recurrence.count > MAX_SERIES_OCCURRENCES) {
+      return `A series needs between 2 and ${MAX_SERIES_OCCURRENCES} rides.`;
+    }
+
+    return null;
+  }
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(recurrence.endDate) || recurrence.endDate <= startDate) {
+    return "Please choose an end date after the first pickup.";
+  }
+
+  const occurrences = recurrenceDates(startDate, recurrence).length;
+
+  if (occurrences < 2) {
+    return "That end date only leaves one ride. Choose a later end date.";
+  }
+
+  if (occurrences > MAX_SERIES_OCCURRENCES) {
+    return `A series can have at most ${MAX_SERIES_OCCURRENCES} rides. Choose an earlier end date.`;
+  }
+
+  return null;
+}
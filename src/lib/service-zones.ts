@@ -0,0 +1,205 @@
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+export type ServiceZone = {
+  id: string;
+  name: string;
+  center: GeoPoint;
+  radiusMiles: number;
+  keywords: string[];
+};
+
+export type PostalCodeEntry = {
+  zoneId: string;
+  point: GeoPoint;
+};
+
+export type ResolvedLocation = {
+  zoneId: string | null;
+  zoneName: string;
+  point: GeoPoint | null;
+  matchedBy: "keyword" | "postal-code" | "place" | "none";
+};
+
+// Airports are listed first so "Buffalo Airport" resolves to BUF rather than the city zone.
+export const SERVICE_ZONES: ServiceZone[] = [
+  {
+    id: "buf-airport",
+    name: "Buffalo Niagara Airport (BUF)",
+    center: { lat: 42.9405, lng: -78.7322 },
+    radiusMiles: 2,
+    keywords: ["buf", "buffalo airport", "buffalo niagara international", "4200 genesee"],
+  },
+  {
+    id: "roc-airport",
+    name: "Rochester Airport (ROC)",
+    center: { lat: 43.1189, lng: -77.6724 },
+    radiusMiles: 2,
+    keywords: ["roc", "rochester airport", "greater rochester international", "1200 brooks"],
+  },
+  {
+    id: "iag-airport",
+    name: "Niagara Falls Airport (IAG)",
+    center: { lat: 43.1073, lng: -78.9462 },
+    radiusMiles: 2,
+    keywords: ["iag", "niagara falls airport", "niagara falls international", "2035 niagara falls blvd"],
+  },
+  {
+    id: "niagara-falls",
+    name: "Niagara Falls",
+    center: { lat: 43.0962, lng: -79.0377 },
+    radiusMiles: 5,
+    keywords: ["niagara falls", "the falls"],
+  },
+  {
+    id: "rochester",
+    name: "Rochester",
+    center: { lat: 43.1566, lng: -77.6088 },
+    radiusMiles: 8,
+    keywords: ["rochester"],
+  },
+  {
+    id: "buffalo",
+    name: "Buffalo",
+    center: { lat: 42.8864, lng: -78.8784 },
+    radiusMiles: 8,
+    keywords: ["buffalo", "cheektowaga", "amherst", "tonawanda"],
+  },
+];
+
+export const POSTAL_CODE_MATRIX: Record<string, PostalCodeEntry> = {
+  "14127": { zoneId: "buffalo", point: { lat: 42.7676, lng: -78.7439 } },
+  "14201": { zoneId: "buffalo", point: { lat: 42.8967, lng: -78.8846 } },
+  "14202": { zoneId: "buffalo", point: { lat: 42.8821, lng: -78.8777 } },
+  "14203": { zoneId: "buffalo", point: { lat: 42.8686, lng: -78.8669 } },
+  "14204": { zoneId: "buffalo", point: { lat: 42.8815, lng: -78.8611 } },
+  "14207": { zoneId: "buffalo", point: { lat: 42.9492, lng: -78.8980 } },
+  "14209": { zoneId: "buffalo", point: { lat: 42.9139, lng: -78.8656 } },
+  "14210": { zoneId: "buffalo", point: { lat: 42.8614, lng: -78.8206 } },
+  "14211": { zoneId: "buffalo", point: { lat: 42.9081, lng: -78.8224 } },
+  "14213": { zoneId: "buffalo", point: { lat: 42.9167, lng: -78.8898 } },
+  "14214": { zoneId: "buffalo", point: { lat: 42.9413, lng: -78.8374 } },
+  "14216": { zoneId: "buffalo", point: { lat: 42.9473, lng: -78.8608 } },
+  "14221": { zoneId: "buffalo", point: { lat: 42.9835, lng: -78.7298 } },
+  "14222": { zoneId: "buffalo", point: { lat: 42.9194, lng: -78.8766 } },
+  "14225": { zoneId: "buffalo", point: { lat: 42.9256, lng: -78.7472 } },
+  "14226": { zoneId: "buffalo", point: { lat: 42.9723, lng: -78.7962 } },
+  "14228": { zoneId: "buffalo", point: { lat: 43.0227, lng: -78.7846 } },
+  "14301": { zoneId: "niagara-falls", point: { lat: 43.0959, lng: -79.0396 } },
+  "14303": { zoneId: "niagara-falls", point: { lat: 43.0856, lng: -79.0369 } },
+  "14304": { zoneId: "niagara-falls", point: { lat: 43.0993, lng: -78.9635 } },
+  "14305": { zoneId: "niagara-falls", point: { lat: 43.1176, lng: -79.0258 } },
+  "14604": { zoneId: "rochester", point: { lat: 43.1575, lng: -77.6062 } },
+  "14605": { zoneId: "rochester", point: { lat: 43.1668, lng: -77.6018 } },
+  "14607": { zoneId: "rochester", point: { lat: 43.1508, lng: -77.5860 } },
+  "14608": { zoneId: "rochester", point: { lat: 43.1529, lng: -77.6251 } },
+  "14610": { zoneId: "rochester", point: { lat: 43.1423, lng: -77.5498 } },
+  "14611": { zoneId: "rochester", point: { lat: 43.1477, lng: -77.6450 } },
+  "14614": { zoneId: "rochester", point: { lat: 43.1566, lng: -77.6140 } },
+  "14618": { zoneId: "rochester", point: { lat: 43.1148, lng: -77.5593 } },
+  "14620": { zoneId: "rochester", point: { lat: 43.1288, lng: -77.6057 } },
+  "14623": { zoneId: "rochester", point: { lat: 43.0868, lng: -77.6390 } },
+  "14624": { zoneId: "roc-airport", point: { lat: 43.1223, lng: -77.7265 } },
+};
+
+// Straight-line miles are scaled up to approximate driving distance.
+const ROAD_DISTANCE_FACTOR = 1.2;
+const EARTH_RADIUS_MILES = 3958.8;
+const POSTAL_CODE_PATTERN = /\b(\d{5})(?:-\d{4})?\b/g;
+
+function findZone(zoneId: string) {
+  return SERVICE_ZONES.find((zone) => zone.id === zoneId) ?? null;
+}
+
+function matchesKeyword(normalizedAddress: string, keyword: string) {
+  const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`\\b${escaped}\\b`).test(normalizedAddress);
+}
+
+export function resolveLocation(address: string): ResolvedLocation {
+  const normalizedAddress = address.trim().toLowerCase();
+
+  const airportZone = SERVICE_ZONES.filter((zone) => zone.id.endsWith("-airport")).find((zone) =>
+    zone.keywords.some((keyword) => matchesKeyword(normalizedAddress, keyword)),
+  );
+
+  if (airportZone) {
+    return {
+      zoneId: airportZone.id,
+      zoneName: airportZone.name,
+      point: airportZone.center,
+      matchedBy: "keyword",
+    };
+  }
+
+  const postalCodes = Array.from(normalizedAddress.matchAll(POSTAL_CODE_PATTERN), (match) => match[1]);
+  const postalEntry = postalCodes.map((code) => POSTAL_CODE_MATRIX[code]).find(Boolean);
+  const postalZone = postalEntry ? findZone(postalEntry.zoneId) : null;
+
+  if (postalEntry && postalZone) {
+    return {
+      zoneId: postalZone.id,
+      zoneName: postalZone.name,
+      point: postalEntry.point,
+      matchedBy: "postal-code",
+    };
+  }
+
+  const keywordZone = SERVICE_ZONES.find((zone) =>
+    zone.keywords.some((keyword) => matchesKeyword(normalizedAddress, keyword)),
+  );
+
+  if (keywordZone) {
+    return {
+      zoneId: keywordZone.id,
+      zoneName: keywordZone.name,
+      point: keywordZone.center,
+      matchedBy: "keyword",
+    };
+  }
+
+  return { zoneId: null, zoneName: "Outside mapped zones", point: null, matchedBy: "none" };
+}
+
+// A gazetteer place has its own coordinates, so it is priced from them and counted in the
+// nearest zone instead of relying on its street address matching a keyword or postal code.
+export function resolvePoint(point: GeoPoint): ResolvedLocation {
+  const zone = SERVICE_ZONES.reduce((nearest, candidate) =>
+    estimateRoadMiles(point, candidate.center) < estimateRoadMiles(point, nearest.center) ? candidate : nearest,
+  );
+
+  return { zoneId: zone.id, zoneName: zone.name, point, matchedBy: "place" };
+}
+
+export function estimateRoadMiles(from: GeoPoint, to: GeoPoint) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const deltaLat = toRadians(to.lat - from.lat);
+  const deltaLng = toRadians(to.lng - from.lng);
+  const haversine =
+    Math.sin(deltaLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(deltaLng / 2) ** 2;
+  const straightLineMiles = 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(haversine));
+
+  return Math.round(straightLineMiles * ROAD_DISTANCE_FACTOR * 10) / 10;
+}
+
+// Miles inside the pickup and drop-off zones are covered by the base fare; only the
+// stretch between them is billed per mile.
+export function billableMilesBetween(pickup: ResolvedLocation, dropoff: ResolvedLocation) {
+  if (!pickup.point || !dropoff.point || !pickup.zoneId || !dropoff.zoneId) {
+    return { miles: null, billableMiles: 0 };
+  }
+
+  const miles = estimateRoadMiles(pickup.point, dropoff.point);
+
+  if (pickup.zoneId === dropoff.zoneId) {
+    return { miles, billableMiles: 0 };
+  }
+
+  const includedMiles =
+    (findZone(pickup.zoneId)?.radiusMiles ?? 0) + (findZone(dropoff.zoneId)?.radiusMiles ?? 0);
+
+  return { miles, billableMiles: Math.max(0, Math.round((miles - includedMiles) * 10) / 10) };
+}
@@ -4,9 +4,18 @@ export type SiteFleetItem = {
   type: string;
   seats: string;
   luggage: string;
+  maxPassengers: number;
+  maxLuggage: number;
+  units: number;
+  typicalTripMinutes: number;
   image: string;
   description: string;
   baseFare: number;
+  hourlyRate: number;
+  minimumHours: number;
+  // Time past the booked hours, billed after the ride in whole increments.
+  overtimeRate: number;
+  overtimeIncrementMinutes: number;
 };
 
 export type SiteContent = {
@@ -47,9 +56,17 @@ export const defaultSiteContent: SiteContent = {
       type: "Executive Class",
       seats: "Up to 3 passengers",
       luggage: "2 suitcases",
+      maxPassengers: 3,
+      maxLuggage: 2,
+      units: 3,
+      typicalTripMinutes: 90,
       image:
         "https://images.unsplash.com/photo-1552519507-da3b142c6e3d?auto=format&fit=crop&q=80&w=1200",
       baseFare: 120,
+      hourlyRate: 85,
+      minimumHours: 2,
+      overtimeRate: 95,
+      overtimeIncrementMinutes: 30,
       description:
         "Perfect for executive transfers and individual business travel with total comfort and privacy.",
     },
@@ -59,9 +76,17 @@ export const defaultSiteContent: SiteContent = {
       type: "First Class",
       seats: "Up to 6 passengers",
       luggage: "5 suitcases",
+      maxPassengers: 6,
+      maxLuggage: 5,
+      units: 2,
+      typicalTripMinutes: 90,
       image:
         "https://images.unsplash.com/photo-1533473359331-0135ef1b58bf?auto=format&fit=crop&q=80&w=1200",
       baseFare: 145,
+      hourlyRate: 105,
+      minimumHours: 2,
+      overtimeRate: 115,
+      overtimeIncrementMinutes: 30,
       description:
         "Ample space for families and small groups with premium comfort and elegant arrival presence.",
     },
@@ -71,11 +96,66 @@ export const defaultSiteContent: SiteContent = {
       type: "Group Class",
       seats: "Up to 14 passengers",
       luggage: "10 suitcases",
+      maxPassengers: 14,
+      maxLuggage: 10,
+      units: 1,
+      typicalTripMinutes: 120,
       image:
         "https://images.unsplash.com/photo-1541899481282-d53bffe3c35d?auto=format&fit=crop&q=80&w=1200",
       baseFare: 220,
+      hourlyRate: 150,
+      minimumHours: 3,
+      overtimeRate: 165,
+      overtimeIncrementMinutes: 30,
       description:
         "The ideal option for event logistics, executive teams, and large group transportation.",
     },
   ],
 };
+
+export function normalizeSiteContent(data?: Partial<SiteContent>): SiteContent {
+  return {
+    home: {
+      ...defaultSiteContent.home,
+      ...(data?.home ?? {}),
+    },
+    booking: {
+      ...defaultSiteContent.booking,
+      ...(data?.booking ?? {}),
+    },
+    fleet: (data?.fleet ?? defaultSiteContent.fleet).map((item, index) => {
+      const fallback = defaultSiteContent.fleet[index] ?? defaultSiteContent.fleet[0];
+      return {
+        id: item.id ?? fallback.id,
+        name: item.name ?? fallback.name,
+        type: item.type ?? fallback.type,
+        seats: item.seats ?? fallback.seats,
+        luggage: item.luggage ?? fallback.luggage,
+        maxPassengers: Number(item.maxPassengers ?? fallback.maxPassengers),
+        maxLuggage: Number(item.maxLuggage ?? fallback.maxLuggage),
+        units: Number(item.units ?? fallback.units),
+        typicalTripMinutes: Number(item.typicalTripMinutes ?? fallback.typicalTripMinutes),
+        image: item.image ?? fallback.image,
+        description: item.description ?? fallback.description,
+        baseFare: Number(item.baseFare ?? fallback.baseFare),
+        hourlyRate: Number(item.hourlyRate ?? fallback.hourlyRate),
+        minimumHours: Number(item.minimumHours ?? fallback.minimumHours),
+        overtimeRate: Number(item.overtimeRate ?? fallback.overtimeRate),
+        overtimeIncrementMinutes: Number(item.overtimeIncrementMinutes ?? fallback.overtimeIncrementMinutes),
+      };
+    }),
+  };
+}
+
+// Shared by vehicle selection and checkout so a party is never booked into a vehicle it cannot fit.
+export function vehicleCapacityIssue(vehicle: SiteFleetItem, passengers: number, luggage: number): string | null {
+  if (passengers > vehicle.maxPassengers) {
+    return `${vehicle.name} seats up to ${vehicle.maxPassengers} passengers.`;
+  }
+
+  if (luggage > vehicle.maxLuggage) {
+    return `${vehicle.name} holds up to ${vehicle.maxLuggage} suitcases.`;
+  }
+
+  return null;
+}
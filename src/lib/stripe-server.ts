@@ -0,0 +1,26 @@
+import Stripe from "stripe";
+
+const stripeConfigError = process.env.STRIPE_SECRET_KEY
+  ? null
+  : "Stripe is not configured. Missing STRIPE_SECRET_KEY.";
+
+let stripeClient: Stripe | null = null;
+
+function requireStripe() {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+
+  if (!secretKey) {
+    throw new Error(stripeConfigError ?? "Stripe is not configured.");
+  }
+
+  stripeClient ??= new Stripe(secretKey);
+  return stripeClient;
+}
+
+// STRIPE_CAPTURE_MODE=manual authorizes the card at checkout and leaves the capture to
+// dispatch confirming the booking in /admin.
+function stripeCaptureMethod(): "automatic" | "manual" {
+  return process.env.STRIPE_CAPTURE_MODE === "manual" ? "manual" : "automatic";
+}
+
+export { requireStripe, stripeCaptureMethod, stripeConfigError };
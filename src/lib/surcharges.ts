@@ -0,0 +1,222 @@
+import { ResolvedLocation } from "@/lib/service-zones";
+
+export type SurchargeRuleKind = "late-night" | "holiday" | "airport" | "toll";
+export type SurchargeAmountType = "fixed" | "percent";
+
+export type SurchargeRule = {
+  id: string;
+  kind: SurchargeRuleKind;
+  label: string;
+  enabled: boolean;
+  amountType: SurchargeAmountType;
+  amount: number;
+  startTime: string;
+  endTime: string;
+  dates: string[];
+  zoneIds: string[];
+  keywords: string[];
+};
+
+export type SurchargeContext = {
+  serviceDate: string;
+  pickupTime: string;
+  pickupAddress: string;
+  dropoffAddress: string;
+  pickup: ResolvedLocation | null;
+  dropoff: ResolvedLocation | null;
+  stopAddresses: string[];
+  stops: ResolvedLocation[];
+  legs: number;
+  subtotal: number;
+};
+
+export type AppliedSurcharge = {
+  ruleId: string;
+  label: string;
+  amount: number;
+};
+
+export const SURCHARGE_KIND_LABELS: Record<SurchargeRuleKind, string> = {
+  "late-night": "Late night",
+  holiday: "Holiday",
+  airport: "Airport access",
+  toll: "Bridge toll",
+};
+
+export const defaultSurchargeRules: SurchargeRule[] = [
+  {
+    id: "late-night",
+    kind: "late-night",
+    label: "Late-night service",
+    enabled: true,
+    amountType: "percent",
+    amount: 15,
+    startTime: "23:00",
+    endTime: "05:00",
+    dates: [],
+    zoneIds: [],
+    keywords: [],
+  },
+  {
+    id: "holiday",
+    kind: "holiday",
+    label: "Holiday premium",
+    enabled: true,
+    amountType: "percent",
+    amount: 20,
+    startTime: "",
+    endTime: "",
+    dates: ["01-01", "07-04", "12-24", "12-25", "12-31"],
+    zoneIds: [],
+    keywords: [],
+  },
+  {
+    id: "airport-buf",
+    kind: "airport",
+    label: "BUF airport access fee",
+    enabled: true,
+    amountType: "fixed",
+    amount: 6,
+    startTime: "",
+    endTime: "",
+    dates: [],
+    zoneIds: ["buf-airport"],
+    keywords: [],
+  },
+  {
+    id: "airport-roc",
+    kind: "airport",
+    label: "ROC airport access fee",
+    enabled: true,
+    amountType: "fixed",
+    amount: 5,
+    startTime: "",
+    endTime: "",
+    dates: [],
+    zoneIds: ["roc-airport"],
+    keywords: [],
+  },
+  {
+    id: "airport-iag",
+    kind: "airport",
+    label: "IAG airport access fee",
+    enabled: true,
+    amountType: "fixed",
+    amount: 5,
+    startTime: "",
+    endTime: "",
+    dates: [],
+    zoneIds: ["iag-airport"],
+    keywords: [],
+  },
+  {
+    id: "canada-bridge",
+    kind: "toll",
+    label: "Canada bridge toll",
+    enabled: true,
+    amountType: "fixed",
+    amount: 12,
+    startTime: "",
+    endTime: "",
+    dates: [],
+    zoneIds: [],
+    keywords: [
+      "ontario",
+      "canada",
+      "toronto",
+      "mississauga",
+      "niagara-on-the-lake",
+      "fort erie",
+      "peace bridge",
+      "rainbow bridge",
+      "queenston",
+    ],
+  },
+];
+
+export function normalizeSurchargeRules(data?: Partial<SurchargeRule>[]): SurchargeRule[] {
+  if (!data) {
+    return defaultSurchargeRules;
+  }
+
+  return data.map((rule, index) => ({
+    id: rule.id ?? `rule-${index + 1}`,
+    kind: rule.kind ?? "toll",
+    label: rule.label ?? "Surcharge",
+    enabled: rule.enabled ?? true,
+    amountType: rule.amountType ?? "fixed",
+    amount: Number(rule.amount ?? 0),
+    startTime: rule.startTime ?? "",
+    endTime: rule.endTime ?? "",
+    dates: rule.dates ?? [],
+    zoneIds: rule.zoneIds ?? [],
+    keywords: rule.keywords ?? [],
+  }));
+}
+
+function toMinutes(time: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
+
+export function isWithinTimeWindow(time: string, startTime: string, endTime: string) {
+  const value = toMinutes(time);
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+
+  if (value === null || start === null || end === null) {
+    return false;
+  }
+
+  // Windows such as 23:00–05:00 wrap past midnight.
+  return start <= end ? value >= start && value < end : value >= start || value < end;
+}
+
+function matchesHolidayDate(serviceDate: string, dates: string[]) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(serviceDate)) {
+    return false;
+  }
+
+  const monthDay = serviceDate.slice(5);
+  return dates.some((date) => date.trim() === serviceDate || date.trim() === monthDay);
+}
+
+function ruleApplies(rule: SurchargeRule, context: SurchargeContext) {
+  if (rule.kind === "late-night") {
+    return isWithinTimeWindow(context.pickupTime, rule.startTime, rule.endTime);
+  }
+
+  if (rule.kind === "holiday") {
+    return matchesHolidayDate(context.serviceDate, rule.dates);
+  }
+
+  if (rule.kind === "airport") {
+    return [context.pickup?.zoneId, context.dropoff?.zoneId, ...context.stops.map((stop) => stop.zoneId)].some(
+      (zoneId) => Boolean(zoneId) && rule.zoneIds.includes(zoneId as string),
+    );
+  }
+
+  const addresses = [context.pickupAddress, ...context.stopAddresses, context.dropoffAddress].join(" ").toLowerCase();
+  return rule.keywords.some((keyword) => keyword.trim() && addresses.includes(keyword.trim().toLowerCase()));
+}
+
+// Airport fees and tolls are charged per leg; time and date premiums apply to the whole fare.
+function perLegRule(rule: SurchargeRule) {
+  return rule.kind === "airport" || rule.kind === "toll";
+}
+
+export function evaluateSurcharges(rules: SurchargeRule[], context: SurchargeContext): AppliedSurcharge[] {
+  return rules
+    .filter((rule) => rule.enabled && rule.amount > 0 && ruleApplies(rule, context))
+    .map((rule) => {
+      const baseAmount =
+        rule.amountType === "percent" ? (context.subtotal * rule.amount) / 100 : rule.amount;
+      const multiplier = perLegRule(rule) ? context.legs : 1;
+
+      return {
+        ruleId: rule.id,
+        label: multiplier > 1 ? `${rule.label} × ${multiplier}` : rule.label,
+        amount: Math.round(baseAmount * multiplier * 100) / 100,
+      };
+    });
+}